@@ -2,13 +2,196 @@ import { NextResponse } from "next/server";
 import * as fs from "fs";
 import * as path from "path";
 import { AudioConfig, MusicSets, MusicTrack } from "@/app/audio/types";
+import {
+  AUDIO_FORMATS,
+  FALLBACK_AUDIO_FORMAT,
+  getAudioFormat,
+} from "@/app/audio/formats";
 import { getAudioConfigDefaultSettings } from "@/app/audio/getAudioConfig";
+import {
+  MUSIC_SET_MANIFEST_FILENAME,
+  MusicSetManifest,
+  MusicSetManifestError,
+  capitalizeName,
+  getManifestLoopPoints,
+  getTrackIdFromFile,
+  validateMusicSetManifest,
+} from "@/app/audio/manifest";
+
+/**
+ * A music set directory after reading its files and optional manifest.
+ */
+interface ScannedMusicSet {
+  /** Directory name */
+  setName: string;
+  /** Audio files in the directory, sorted */
+  audioFiles: string[];
+  /** Validated manifest, or null if the directory has none */
+  manifest: MusicSetManifest | null;
+}
+
+/**
+ * Reads and validates the set.json manifest of a music set directory.
+ *
+ * @param setPath - Absolute path of the set directory
+ * @param setName - Directory name of the set
+ * @param audioFiles - Audio files present in the directory
+ * @returns The manifest, or null if the directory has none
+ * @throws MusicSetManifestError if the manifest is unreadable or invalid
+ */
+function readMusicSetManifest(
+  setPath: string,
+  setName: string,
+  audioFiles: string[]
+): MusicSetManifest | null {
+  const manifestPath = path.join(setPath, MUSIC_SET_MANIFEST_FILENAME);
+  if (!fs.existsSync(manifestPath)) return null;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+  } catch (error) {
+    throw new MusicSetManifestError(setName, [
+      `not valid JSON (${error instanceof Error ? error.message : error})`,
+    ]);
+  }
+
+  return validateMusicSetManifest(raw, setName, audioFiles);
+}
+
+/**
+ * Builds a track from one of its files, adding every sibling file with the
+ * same name in another supported format as an alternative source.
+ *
+ * @param setName - Directory name of the set
+ * @param filename - Audio file name (any of the track's formats)
+ * @param audioFiles - All audio files in the set directory
+ */
+function createTrackFromFile(
+  setName: string,
+  filename: string,
+  audioFiles: string[]
+): MusicTrack {
+  const id = getTrackIdFromFile(filename);
+  const toPath = (file: string) => `/audio/${setName}/${file}`;
+
+  // Order sources by format preference (see AUDIO_FORMATS)
+  const sources = AUDIO_FORMATS.flatMap((format) => {
+    const file = audioFiles.find(
+      (candidate) =>
+        getTrackIdFromFile(candidate) === id &&
+        getAudioFormat(candidate) === format
+    );
+    return file ? [{ path: toPath(file), type: format.mimeType }] : [];
+  });
+
+  const fallback =
+    sources.find((source) => source.path.endsWith(FALLBACK_AUDIO_FORMAT)) ??
+    sources[0];
+
+  return {
+    id,
+    name: capitalizeName(id),
+    path: fallback?.path ?? toPath(filename),
+    sources,
+  };
+}
+
+/**
+ * Lists one file per track, collapsing the same track in several formats.
+ *
+ * @param audioFiles - All audio files in the set directory, sorted
+ * @returns The first file of each distinct track name
+ */
+function getTrackFiles(audioFiles: string[]): string[] {
+  const seen = new Set<string>();
+  return audioFiles.filter((file) => {
+    const id = getTrackIdFromFile(file);
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
+
+/**
+ * Resolves a manifest artwork entry to a URL. File names are relative to the
+ * set directory; site paths and absolute URLs are used as they are.
+ *
+ * @param setName - Directory name of the set
+ * @param artwork - Artwork entry from the manifest
+ */
+function getArtworkUrl(setName: string, artwork: string): string {
+  return artwork.startsWith("/") || /^https?:\/\//.test(artwork)
+    ? artwork
+    : `/audio/${setName}/${artwork}`;
+}
+
+/**
+ * Builds a music set from its manifest, using file-derived values for
+ * anything the manifest leaves out.
+ *
+ * @param scanned - Scanned set with a manifest
+ * @param manifest - Validated manifest
+ */
+function createMusicSetFromManifest(
+  { setName, audioFiles }: ScannedMusicSet,
+  manifest: MusicSetManifest
+): MusicSets {
+  const tracks: MusicTrack[] = manifest.tracks
+    ? manifest.tracks.map((entry) => {
+        const fallback = createTrackFromFile(setName, entry.file, audioFiles);
+        return {
+          ...fallback,
+          id: entry.id ?? fallback.id,
+          name:
+            entry.name ?? (entry.id ? capitalizeName(entry.id) : fallback.name),
+          color: entry.color,
+          defaultVolume: entry.volume,
+          defaultPan: entry.pan,
+          defaultPosition: entry.position,
+        };
+      })
+    : getTrackFiles(audioFiles).map((filename) =>
+        createTrackFromFile(setName, filename, audioFiles)
+      );
+
+  return {
+    id: manifest.id,
+    name: setName,
+    displayName: manifest.displayName ?? `A.V. ${capitalizeName(setName)}`,
+    tracks,
+    color: manifest.color,
+    bpm: manifest.bpm,
+    timeSignature: manifest.timeSignature,
+    key: manifest.key,
+    loop: getManifestLoopPoints(manifest),
+    credits: manifest.credits,
+    artist: manifest.artist,
+    artwork: manifest.artwork && getArtworkUrl(setName, manifest.artwork),
+  };
+}
+
+/**
+ * Logs a music set left out of the config because of its manifest.
+ */
+function logSkippedMusicSet(error: MusicSetManifestError): void {
+  console.error("Skipping music set:", error.message);
+}
 
 /**
  * GET /api/audio-config
  *
  * Server-side API route that scans the public/audio directory
  * and returns the audio configuration dynamically.
+ *
+ * A track may be shipped in several formats (e.g., deactivator.opus next to
+ * deactivator.mp3); the files become alternative sources the client chooses
+ * between. Each set directory may contain a set.json manifest (see
+ * MusicSetManifest) with a stable ID, display name, track order and
+ * metadata. Directories without one fall back to names derived from the
+ * directory and file names, and are numbered after the highest manifest ID.
+ * A set whose manifest is invalid, or reuses another set's ID, is logged and
+ * left out rather than failing the whole config.
  */
 export async function GET() {
   const audioDir = path.join(process.cwd(), "public", "audio");
@@ -21,38 +204,73 @@ export async function GET() {
       .map((entry) => entry.name)
       .sort(); // Sort to ensure consistent ordering
 
-    const musicSets: MusicSets[] = musicDirs.map((setName, index) => {
+    const scannedSets: ScannedMusicSet[] = musicDirs.flatMap((setName) => {
       const setPath = path.join(audioDir, setName);
 
-      // Read all .mp3 files in the music set directory
-      const trackFiles = fs
+      // Read all audio files in supported formats in the music set directory
+      const audioFiles = fs
         .readdirSync(setPath)
-        .filter((file) => file.endsWith(".mp3"))
+        .filter((file) => getAudioFormat(file) !== null)
         .sort(); // Sort to ensure consistent track ordering
 
-      const tracks: MusicTrack[] = trackFiles.map((filename) => {
-        // Remove .mp3 extension for ID
-        const id = filename.replace(/\.mp3$/, "");
+      try {
+        return [
+          {
+            setName,
+            audioFiles,
+            manifest: readMusicSetManifest(setPath, setName, audioFiles),
+          },
+        ];
+      } catch (error) {
+        if (error instanceof MusicSetManifestError) {
+          // One broken set must not take the other sets down with it
+          logSkippedMusicSet(error);
+          return [];
+        }
+        throw error;
+      }
+    });
 
-        // Capitalize first letter for display name
-        const name = id.charAt(0).toUpperCase() + id.slice(1);
+    // Manifest IDs must be unique across sets; the first set to claim one
+    // keeps it
+    const manifestIds = new Map<number, string>();
+    const uniqueSets = scannedSets.filter(({ setName, manifest }) => {
+      if (!manifest) return true;
+      const existing = manifestIds.get(manifest.id);
+      if (existing) {
+        logSkippedMusicSet(
+          new MusicSetManifestError(setName, [
+            `id ${manifest.id} is already used by music set "${existing}"`,
+          ])
+        );
+        return false;
+      }
+      manifestIds.set(manifest.id, setName);
+      return true;
+    });
 
-        // Build path relative to public directory
-        const trackPath = `/audio/${setName}/${filename}`;
+    // Sets without a manifest are numbered after every manifest ID
+    let nextFallbackId = Math.max(0, ...manifestIds.keys()) + 1;
 
-        return { id, name, path: trackPath };
-      });
+    const musicSets: MusicSets[] = uniqueSets.map((scanned) => {
+      if (scanned.manifest) {
+        return createMusicSetFromManifest(scanned, scanned.manifest);
+      }
 
+      const { setName, audioFiles } = scanned;
       return {
-        id: index + 1,
+        id: nextFallbackId++,
         name: setName,
-        displayName: `A.V. ${
-          setName.charAt(0).toUpperCase() + setName.slice(1)
-        }`,
-        tracks,
+        displayName: `A.V. ${capitalizeName(setName)}`,
+        tracks: getTrackFiles(audioFiles).map((filename) =>
+          createTrackFromFile(setName, filename, audioFiles)
+        ),
       };
     });
 
+    // Present sets in ID order so manifest IDs also control ordering
+    musicSets.sort((a, b) => a.id - b.id);
+
     const config: AudioConfig = {
       musicSets: musicSets,
       defaultSettings: getAudioConfigDefaultSettings(),
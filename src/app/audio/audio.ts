@@ -1,5 +1,14 @@
 "use client";
 
+import {
+  configureMasterBus,
+  createMasterBus,
+  MasterBusNodes,
+  MasterBusSettings,
+} from "./masterBus";
+import { getAudioConfigDefaultSettings } from "./getAudioConfig";
+import { rampParam } from "./automation";
+
 /**
  * Converts a linear volume value (0-1) to a perceptually linear gain value.
  * Human perception of loudness is logarithmic, so we square the linear value
@@ -13,12 +22,35 @@ export function linearToGain(linearValue: number): number {
 }
 
 // Audio context and support nodes for use throughout the site.
+//
+// Music sets → musicOutput → audioRoot → master bus → speakers
+//                  ↓ (musicAnalysisTap, off while another input is analysed)
+// Mic or file → analysisInput → audioAnalyzer → analysisSink (silent) → destination
+//
+// The analyzer is a dead end, so a microphone never reaches the speakers.
+// The silent sink keeps it processing in browsers that only run nodes
+// connected to the destination.
 let audioCtx: AudioContext | undefined;
 let audioRoot: GainNode | undefined;
+let musicOutput: GainNode | undefined;
+let musicAnalysisTap: GainNode | undefined;
+let analysisInput: GainNode | undefined;
 let audioAnalyzer: AnalyserNode | undefined;
+let masterBus: MasterBusNodes | undefined;
+let masterBusSettings: MasterBusSettings = getAudioConfigDefaultSettings();
 let audioError: Error | undefined;
 let isInitializing = false;
 let isInitialized = false;
+/** Whether the context is suspended on purpose (pauseAudio), not by the browser */
+let isSuspendedByPage = false;
+
+/**
+ * AudioContext states, plus the "interrupted" state iOS Safari reports while
+ * a call, Siri or another app holds the audio session. It is missing from
+ * the DOM typings.
+ */
+export type AudioContextStateWithInterrupted =
+  AudioContextState | "interrupted";
 
 /**
  * Initializes the audio context lazily on first user interaction.
@@ -35,12 +67,26 @@ export async function initializeAudioContext(): Promise<void> {
     // Establish a new audio context and analyzer
     audioCtx = new AudioContext();
     audioRoot = audioCtx.createGain();
-    audioRoot.connect(audioCtx.destination);
     audioRoot.gain.value = 0.75;
 
+    // Route the master gain through the limiter/compressor/EQ to the output
+    masterBus = createMasterBus(audioCtx, audioRoot, masterBusSettings);
+
     audioAnalyzer = audioCtx.createAnalyser();
     audioAnalyzer.fftSize = 1024;
-    audioAnalyzer.connect(audioRoot);
+    const analysisSink = audioCtx.createGain();
+    analysisSink.gain.value = 0;
+    audioAnalyzer.connect(analysisSink);
+    analysisSink.connect(audioCtx.destination);
+
+    analysisInput = audioCtx.createGain();
+    analysisInput.connect(audioAnalyzer);
+
+    musicOutput = audioCtx.createGain();
+    musicOutput.connect(audioRoot);
+    musicAnalysisTap = audioCtx.createGain();
+    musicOutput.connect(musicAnalysisTap);
+    musicAnalysisTap.connect(analysisInput);
 
     isInitialized = true;
     audioError = undefined;
@@ -68,8 +114,13 @@ export async function closeAudioContext(): Promise<void> {
   } finally {
     audioCtx = undefined;
     audioRoot = undefined;
+    musicOutput = undefined;
+    musicAnalysisTap = undefined;
+    analysisInput = undefined;
     audioAnalyzer = undefined;
+    masterBus = undefined;
     isInitialized = false;
+    isSuspendedByPage = false;
   }
 }
 
@@ -89,6 +140,35 @@ export function getAudioRoot(): GainNode | null {
   return audioRoot ?? null;
 }
 
+/**
+ * Gets the node music sets connect to. It feeds the speakers and, unless
+ * another input is being analysed, the analyzer.
+ * @returns GainNode instance or null if not initialized
+ */
+export function getMusicOutput(): GainNode | null {
+  return musicOutput ?? null;
+}
+
+/**
+ * Gets the node that feeds the analyzer. Microphone and file inputs connect
+ * here; nothing connected here alone is heard.
+ * @returns GainNode instance or null if not initialized
+ */
+export function getAnalysisInput(): GainNode | null {
+  return analysisInput ?? null;
+}
+
+/**
+ * Sets whether music sets feed the analyzer. Turned off while a microphone
+ * or file is analysed, so the visuals follow that input alone.
+ *
+ * @param enabled - Whether music is analysed
+ */
+export function setMusicAnalysisEnabled(enabled: boolean): void {
+  if (!audioCtx || !musicAnalysisTap) return;
+  musicAnalysisTap.gain.setValueAtTime(enabled ? 1 : 0, audioCtx.currentTime);
+}
+
 /**
  * Gets the audio analyzer node.
  * @returns AnalyserNode instance or null if not initialized
@@ -97,6 +177,44 @@ export function getAudioAnalyzer(): AnalyserNode | null {
   return audioAnalyzer ?? null;
 }
 
+/**
+ * Gets the master bus nodes (limiter, compressor, EQ and meters).
+ * @returns MasterBusNodes or null if not initialized
+ */
+export function getMasterBus(): MasterBusNodes | null {
+  return masterBus ?? null;
+}
+
+/**
+ * Updates the master bus settings. Applied immediately if the audio context
+ * exists, otherwise when it is created.
+ *
+ * @param settings - Limiter, compressor and EQ settings
+ */
+export function setMasterBusSettings(settings: MasterBusSettings): void {
+  masterBusSettings = settings;
+  if (masterBus) {
+    configureMasterBus(masterBus, settings);
+  }
+}
+
+/**
+ * Gets the audio context's state.
+ * @returns State, including iOS's "interrupted", or null if not initialized
+ */
+export function getAudioContextState(): AudioContextStateWithInterrupted | null {
+  return (audioCtx?.state as AudioContextStateWithInterrupted) ?? null;
+}
+
+/**
+ * Checks whether the context was suspended by pauseAudio, as opposed to by
+ * the browser's autoplay policy or the OS.
+ * @returns true while suspended on purpose
+ */
+export function getIsSuspendedByPage(): boolean {
+  return isSuspendedByPage;
+}
+
 /**
  * Gets any error that occurred during audio initialization.
  * @returns Error instance or null if no error
@@ -114,19 +232,21 @@ export function getIsInitialized(): boolean {
 }
 
 /**
- * Sets the master volume.
+ * Sets the master volume, gliding to it to avoid clicks.
  *
  * @param volume - Linear volume level (0-1)
+ * @param rampTime - Seconds to glide to the new volume (default: the
+ * configured ramp time)
  */
-export function setMasterVolume(volume: number): void {
-  if (!audioRoot) {
+export function setMasterVolume(volume: number, rampTime?: number): void {
+  if (!audioCtx || !audioRoot) {
     console.warn(
       "Audio context not initialized, cannot set volume. Initialize audio first."
     );
     return;
   }
   const gain = linearToGain(Math.max(0, Math.min(1, volume)));
-  audioRoot.gain.value = gain;
+  rampParam(audioRoot.gain, gain, audioCtx.currentTime, { rampTime });
 }
 
 /**
@@ -140,12 +260,17 @@ export async function pauseAudio(): Promise<void> {
     return;
   }
   if (audioCtx.state === "running") {
+    isSuspendedByPage = true;
     await audioCtx.suspend();
   }
 }
 
 /**
- * Resumes audio playback by resuming the audio context.
+ * Resumes audio playback by resuming the audio context, whether it was
+ * paused, blocked by the autoplay policy or interrupted by the OS.
+ *
+ * Browsers only allow resuming a blocked context from a user gesture;
+ * elsewhere the promise may reject, or stay pending until a gesture.
  */
 export async function resumeAudio(): Promise<void> {
   if (!audioCtx) {
@@ -154,7 +279,9 @@ export async function resumeAudio(): Promise<void> {
     );
     return;
   }
-  if (audioCtx.state === "suspended") {
+  isSuspendedByPage = false;
+  const state = getAudioContextState();
+  if (state === "suspended" || state === "interrupted") {
     await audioCtx.resume();
   }
 }
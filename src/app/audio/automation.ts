@@ -0,0 +1,144 @@
+/**
+ * Click-free AudioParam automation. Every user-driven gain, pan and effect
+ * change goes through rampParam so values glide instead of jumping, which
+ * would otherwise zipper on fast slider drags and click on mutes.
+ *
+ * Only the AudioParam methods below are used, so the helpers can be driven
+ * by a fake param outside the browser.
+ */
+
+/**
+ * The parts of an AudioParam the automation helpers use.
+ * cancelAndHoldAtTime is optional because Firefox does not implement it.
+ */
+export type AutomatableParam = Pick<
+  AudioParam,
+  | "value"
+  | "setValueAtTime"
+  | "linearRampToValueAtTime"
+  | "setTargetAtTime"
+  | "cancelScheduledValues"
+> &
+  Partial<Pick<AudioParam, "cancelAndHoldAtTime">>;
+
+/**
+ * How a ramp approaches its target.
+ * - target: exponential approach (setTargetAtTime); smooth when retargeted
+ *   mid-ramp, so it suits continuous controls like sliders
+ * - linear: straight ramp that lands exactly on the target at the end;
+ *   used for fades that must reach silence
+ */
+export type RampShape = "target" | "linear";
+
+/**
+ * Ramp times for parameter changes, in seconds.
+ */
+export interface AutomationSettings {
+  /** Glide time for volume, pan and effect changes */
+  rampTime: number;
+  /** Fade time for mute and solo */
+  muteFadeTime: number;
+}
+
+/**
+ * Time constants in one ramp time for "target" ramps. After three time
+ * constants setTargetAtTime is within 5% of the target.
+ */
+const TARGET_TIME_CONSTANTS = 3;
+
+// Module-level settings, updated once the audio config loads
+let automationSettings: AutomationSettings = {
+  rampTime: 0.02,
+  muteFadeTime: 0.01,
+};
+
+/**
+ * Updates the ramp times used when none is given explicitly.
+ *
+ * @param settings - Settings to change; omitted fields keep their value
+ */
+export function configureAutomation(
+  settings: Partial<AutomationSettings>
+): void {
+  automationSettings = { ...automationSettings, ...settings };
+}
+
+/**
+ * Gets the current ramp times.
+ *
+ * @returns Current automation settings
+ */
+export function getAutomationSettings(): AutomationSettings {
+  return automationSettings;
+}
+
+/**
+ * Cancels automation scheduled from a time on, holding the value the param
+ * would have had at that time so a new ramp starts without a jump.
+ *
+ * @param param - Param to hold
+ * @param time - Context time to cancel from
+ */
+export function holdParam(param: AutomatableParam, time: number): void {
+  if (typeof param.cancelAndHoldAtTime === "function") {
+    param.cancelAndHoldAtTime(time);
+    return;
+  }
+
+  // Without cancelAndHoldAtTime, pin the current value as the ramp's start
+  const value = param.value;
+  param.cancelScheduledValues(time);
+  param.setValueAtTime(value, time);
+}
+
+/**
+ * Options for rampParam.
+ */
+export interface RampOptions {
+  /** Context time to begin the change (default: now); used for quantized changes */
+  startTime?: number | null;
+  /** Seconds to reach the target; 0 jumps (default: the configured rampTime) */
+  rampTime?: number;
+  /** Ramp shape (default: "target") */
+  shape?: RampShape;
+}
+
+/**
+ * Moves a param to a new value, replacing any ramp still in progress.
+ *
+ * @param param - Param to change
+ * @param target - Value to reach
+ * @param currentTime - Current time of the param's context
+ * @param options - Start time, ramp time and shape
+ */
+export function rampParam(
+  param: AutomatableParam,
+  target: number,
+  currentTime: number,
+  options: RampOptions = {}
+): void {
+  const {
+    startTime,
+    rampTime = automationSettings.rampTime,
+    shape = "target",
+  } = options;
+  const start = Math.max(currentTime, startTime ?? currentTime);
+
+  if (rampTime <= 0) {
+    param.cancelScheduledValues(start);
+    if (start <= currentTime) {
+      // Assigning the value keeps the getter in sync for immediate jumps
+      param.value = target;
+    } else {
+      param.setValueAtTime(target, start);
+    }
+    return;
+  }
+
+  holdParam(param, start);
+  if (shape === "linear") {
+    param.linearRampToValueAtTime(target, start + rampTime);
+  } else {
+    param.setTargetAtTime(target, start, rampTime / TARGET_TIME_CONSTANTS);
+  }
+}
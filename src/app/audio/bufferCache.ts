@@ -0,0 +1,295 @@
+"use client";
+
+/**
+ * Caches for loaded audio so revisiting a music set skips the network and
+ * the decoder.
+ *
+ * - Decoded AudioBuffers are kept in memory in an LRU keyed by track path,
+ *   bounded by a byte budget.
+ * - Raw encoded bytes are optionally persisted with the Cache Storage API so
+ *   repeat visits (and reloads) skip the download. Entries keep the file's
+ *   ETag and Last-Modified, and are revalidated with a HEAD request before
+ *   use, so a file replaced on the server is downloaded again.
+ */
+
+/** Prefix shared by every version of the encoded audio bucket */
+const ENCODED_AUDIO_CACHE_PREFIX = "norstep-audio-";
+
+/** Cache Storage bucket for encoded audio. Bump the version to drop old files. */
+const ENCODED_AUDIO_CACHE_NAME = `${ENCODED_AUDIO_CACHE_PREFIX}v2`;
+
+/** Bytes per sample of a decoded AudioBuffer (32-bit float) */
+const BYTES_PER_SAMPLE = 4;
+
+/**
+ * HTTP validators identifying the version of a file on the server.
+ */
+export interface EncodedAudioVersion {
+  /** ETag response header, if the server sent one */
+  etag: string | null;
+  /** Last-Modified response header, if the server sent one */
+  lastModified: string | null;
+}
+
+/**
+ * Settings for the audio caches.
+ */
+export interface AudioBufferCacheOptions {
+  /** Memory ceiling in bytes for decoded buffers */
+  maxBytes: number;
+  /** Whether encoded audio is persisted with the Cache Storage API */
+  persistEncoded: boolean;
+}
+
+// Decoded buffers in least-recently-used order (Map preserves insertion order)
+const decodedBuffers = new Map<string, AudioBuffer>();
+let usedBytes = 0;
+let options: AudioBufferCacheOptions = {
+  maxBytes: 512 * 1024 * 1024,
+  persistEncoded: true,
+};
+
+/**
+ * Updates the cache settings. Shrinking the budget evicts immediately.
+ *
+ * @param updates - Settings to change
+ */
+export function configureAudioBufferCache(
+  updates: Partial<AudioBufferCacheOptions>
+): void {
+  options = { ...options, ...updates };
+  evictToFit(0);
+}
+
+/**
+ * Gets the in-memory size of a decoded buffer.
+ *
+ * @param buffer - Decoded audio buffer
+ * @returns Size in bytes
+ */
+export function getAudioBufferByteSize(buffer: AudioBuffer): number {
+  return buffer.length * buffer.numberOfChannels * BYTES_PER_SAMPLE;
+}
+
+/**
+ * Gets the number of bytes currently held by the decoded buffer cache.
+ */
+export function getAudioBufferCacheUsage(): number {
+  return usedBytes;
+}
+
+/**
+ * Gets the configured memory ceiling for the decoded buffer cache.
+ */
+export function getAudioBufferCacheBudget(): number {
+  return options.maxBytes;
+}
+
+/**
+ * Looks up a decoded buffer and marks it as most recently used.
+ *
+ * @param path - Track path the buffer was loaded from
+ * @returns Cached buffer, or null on a miss
+ */
+export function getCachedAudioBuffer(path: string): AudioBuffer | null {
+  const buffer = decodedBuffers.get(path);
+  if (!buffer) return null;
+
+  // Re-insert to move the entry to the most recently used end
+  decodedBuffers.delete(path);
+  decodedBuffers.set(path, buffer);
+  return buffer;
+}
+
+/**
+ * Stores a decoded buffer, evicting least recently used buffers to stay
+ * within the memory budget. Buffers larger than the whole budget are not cached.
+ *
+ * @param path - Track path the buffer was loaded from
+ * @param buffer - Decoded audio buffer
+ */
+export function cacheAudioBuffer(path: string, buffer: AudioBuffer): void {
+  const size = getAudioBufferByteSize(buffer);
+  if (size > options.maxBytes) return;
+
+  removeCachedAudioBuffer(path);
+  evictToFit(size);
+
+  decodedBuffers.set(path, buffer);
+  usedBytes += size;
+}
+
+/**
+ * Removes a single decoded buffer from the cache.
+ *
+ * @param path - Track path the buffer was loaded from
+ */
+export function removeCachedAudioBuffer(path: string): void {
+  const existing = decodedBuffers.get(path);
+  if (!existing) return;
+
+  decodedBuffers.delete(path);
+  usedBytes -= getAudioBufferByteSize(existing);
+}
+
+/**
+ * Drops every decoded buffer from memory. Persisted encoded audio is kept.
+ */
+export function clearAudioBufferCache(): void {
+  decodedBuffers.clear();
+  usedBytes = 0;
+}
+
+/**
+ * Evicts least recently used buffers until `incomingBytes` more would fit.
+ *
+ * @param incomingBytes - Size of the buffer about to be added
+ */
+function evictToFit(incomingBytes: number): void {
+  for (const [path, buffer] of decodedBuffers) {
+    if (usedBytes + incomingBytes <= options.maxBytes) break;
+    decodedBuffers.delete(path);
+    usedBytes -= getAudioBufferByteSize(buffer);
+  }
+}
+
+/**
+ * Checks whether encoded audio can be persisted in this browser.
+ * Cache Storage is only available in secure contexts.
+ */
+function canPersistEncodedAudio(): boolean {
+  return options.persistEncoded && typeof caches !== "undefined";
+}
+
+/** Open bucket, shared once old buckets have been dropped */
+let encodedAudioCache: Promise<Cache> | null = null;
+
+/**
+ * Opens the encoded audio bucket, deleting buckets of earlier versions the
+ * first time.
+ */
+function openEncodedAudioCache(): Promise<Cache> {
+  encodedAudioCache ??= (async () => {
+    const names = await caches.keys();
+    await Promise.all(
+      names
+        .filter(
+          (name) =>
+            name.startsWith(ENCODED_AUDIO_CACHE_PREFIX) &&
+            name !== ENCODED_AUDIO_CACHE_NAME
+        )
+        .map((name) => caches.delete(name))
+    );
+    return caches.open(ENCODED_AUDIO_CACHE_NAME);
+  })();
+
+  // Let a failed open be retried
+  encodedAudioCache.catch(() => {
+    encodedAudioCache = null;
+  });
+  return encodedAudioCache;
+}
+
+/**
+ * Reads the validators stored with, or sent for, a file.
+ */
+function getEncodedAudioVersion(headers: Headers): EncodedAudioVersion {
+  return {
+    etag: headers.get("ETag"),
+    lastModified: headers.get("Last-Modified"),
+  };
+}
+
+/**
+ * Checks a persisted file against the server.
+ *
+ * @param url - URL the audio was downloaded from
+ * @param version - Validators stored with the persisted copy
+ * @returns false if the server now has a different file; true if it has the
+ * same one, or if it cannot be asked (offline) or the copy has no validators
+ */
+async function isPersistedAudioCurrent(
+  url: string,
+  version: EncodedAudioVersion
+): Promise<boolean> {
+  if (version.etag === null && version.lastModified === null) return true;
+
+  let response: Response;
+  try {
+    response = await fetch(url, { method: "HEAD", cache: "no-cache" });
+  } catch {
+    // Offline: the persisted copy is better than nothing
+    return true;
+  }
+  if (!response.ok) return true;
+
+  const current = getEncodedAudioVersion(response.headers);
+  if (version.etag !== null && current.etag !== null) {
+    return version.etag === current.etag;
+  }
+  return version.lastModified === current.lastModified;
+}
+
+/**
+ * Reads previously persisted encoded audio, if it is still the version on
+ * the server. A stale copy is deleted.
+ *
+ * @param url - URL the audio was downloaded from
+ * @returns Encoded bytes, or null if not persisted, stale, or storage is
+ * unavailable
+ */
+export async function readPersistedAudio(
+  url: string
+): Promise<ArrayBuffer | null> {
+  if (!canPersistEncodedAudio()) return null;
+
+  try {
+    const cache = await openEncodedAudioCache();
+    const response = await cache.match(url);
+    if (!response) return null;
+
+    const version = getEncodedAudioVersion(response.headers);
+    if (!(await isPersistedAudioCurrent(url, version))) {
+      await cache.delete(url);
+      return null;
+    }
+    return await response.arrayBuffer();
+  } catch (error) {
+    console.warn(`readPersistedAudio - unable to read ${url}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Persists encoded audio so later visits can skip the download.
+ * A copy of the data is stored because decoding detaches the original buffer.
+ *
+ * @param url - URL the audio was downloaded from
+ * @param data - Encoded bytes
+ * @param version - Validators the server sent with the file, stored to
+ * revalidate the copy later
+ */
+export async function persistEncodedAudio(
+  url: string,
+  data: ArrayBuffer,
+  version: EncodedAudioVersion
+): Promise<void> {
+  if (!canPersistEncodedAudio()) return;
+
+  // Copy synchronously, before the caller hands the original to the decoder
+  const copy = data.slice(0);
+
+  const headers = new Headers();
+  if (version.etag !== null) headers.set("ETag", version.etag);
+  if (version.lastModified !== null) {
+    headers.set("Last-Modified", version.lastModified);
+  }
+
+  try {
+    const cache = await openEncodedAudioCache();
+    await cache.put(url, new Response(copy, { headers }));
+  } catch (error) {
+    // Quota errors and private browsing modes are expected; the cache is optional
+    console.warn(`persistEncodedAudio - unable to store ${url}:`, error);
+  }
+}
@@ -0,0 +1,513 @@
+"use client";
+
+/**
+ * Control mappings bind keyboard keys and MIDI messages to mixer actions.
+ * Track actions address tracks by their position in the current set, so the
+ * same mapping drives every set. Mappings are saved in localStorage.
+ */
+
+/** localStorage key holding the saved mappings. Bump the version on format changes. */
+const CONTROL_MAPPINGS_STORAGE_KEY = "norstep-control-mappings-v1";
+
+/** Number of tracks the default number-key and MIDI mappings cover */
+const DEFAULT_MAPPED_TRACKS = 9;
+
+/** First MIDI note of the default track mute pads (C1, the usual first drum pad) */
+const DEFAULT_MIDI_FIRST_NOTE = 36;
+
+/** First MIDI controller of the default track volume faders (CC 20-31 are undefined by the spec) */
+const DEFAULT_MIDI_FIRST_VOLUME_CC = 20;
+
+/** First MIDI controller of the default track pan knobs (CC 102-119 are undefined too) */
+const DEFAULT_MIDI_FIRST_PAN_CC = 102;
+
+/** Largest 7-bit MIDI data value */
+const MIDI_DATA_MAX = 127;
+
+/** Keys that keep their usual job: focus moves, activation, and cancelling */
+const UNBINDABLE_KEY_CODES = new Set(["Tab", "Enter", "NumpadEnter", "Escape"]);
+
+/** Action types that address a track */
+const TRACK_ACTION_TYPES = new Set([
+  "toggleMute",
+  "toggleSolo",
+  "trackVolume",
+  "trackPan",
+]);
+
+/** Action types without a track */
+const GLOBAL_ACTION_TYPES = new Set(["togglePlay", "previousSet", "nextSet"]);
+
+/**
+ * A mixer action a control can trigger.
+ * Continuous actions (volume, pan) take a 0-1 value from the control.
+ */
+export type ControlAction =
+  | { type: "toggleMute"; trackIndex: number }
+  | { type: "toggleSolo"; trackIndex: number }
+  | { type: "trackVolume"; trackIndex: number }
+  | { type: "trackPan"; trackIndex: number }
+  | { type: "togglePlay" }
+  | { type: "previousSet" }
+  | { type: "nextSet" };
+
+/**
+ * An input that triggers an action.
+ * - key: a key by physical position (KeyboardEvent.code), optionally with shift
+ * - midiNote: a note-on, e.g. a drum pad (channel null matches any channel)
+ * - midiCc: a control change, e.g. a fader or knob (channel null matches any)
+ */
+export type ControlBinding =
+  | { kind: "key"; code: string; shift: boolean }
+  | { kind: "midiNote"; channel: number | null; note: number }
+  | { kind: "midiCc"; channel: number | null; controller: number };
+
+/**
+ * A binding and the action it triggers.
+ */
+export interface ControlMapping {
+  binding: ControlBinding;
+  action: ControlAction;
+}
+
+/**
+ * A MIDI message relevant to control mapping.
+ */
+export interface MidiControlMessage {
+  kind: "midiNote" | "midiCc";
+  /** MIDI channel (0-15) */
+  channel: number;
+  /** Note or controller number */
+  number: number;
+  /** Velocity or controller value, scaled to 0-1 */
+  value: number;
+}
+
+/**
+ * Whether an action takes a continuous value (and so suits a CC control).
+ */
+export function isContinuousAction(action: ControlAction): boolean {
+  return action.type === "trackVolume" || action.type === "trackPan";
+}
+
+/**
+ * Whether a key may be bound. Modifier keys alone are not bindable, nor are
+ * Tab, Enter and Escape, which keyboard users need for navigation.
+ *
+ * @param code - KeyboardEvent.code
+ */
+export function isBindableKey(code: string): boolean {
+  return (
+    !UNBINDABLE_KEY_CODES.has(code) && !/^(Shift|Control|Alt|Meta)/.test(code)
+  );
+}
+
+/**
+ * Whether two actions are the same action.
+ */
+export function isSameAction(a: ControlAction, b: ControlAction): boolean {
+  return (
+    a.type === b.type &&
+    ("trackIndex" in a ? a.trackIndex : null) ===
+      ("trackIndex" in b ? b.trackIndex : null)
+  );
+}
+
+/**
+ * Whether two bindings are triggered by the same input.
+ */
+function isSameBinding(a: ControlBinding, b: ControlBinding): boolean {
+  switch (a.kind) {
+    case "key":
+      return b.kind === "key" && a.code === b.code && a.shift === b.shift;
+    case "midiNote":
+      return (
+        b.kind === "midiNote" && a.channel === b.channel && a.note === b.note
+      );
+    case "midiCc":
+      return (
+        b.kind === "midiCc" &&
+        a.channel === b.channel &&
+        a.controller === b.controller
+      );
+  }
+}
+
+/**
+ * Builds the default mappings:
+ * - keys 1-9 mute tracks 1-9, shift+1-9 solo them
+ * - space plays/pauses, [ and ] switch to the previous/next set
+ * - MIDI notes 36-44 mute tracks, CC 20-28 set volume, CC 102-110 set pan
+ *
+ * @returns Default mappings
+ */
+export function getDefaultControlMappings(): ControlMapping[] {
+  const mappings: ControlMapping[] = [];
+
+  for (let trackIndex = 0; trackIndex < DEFAULT_MAPPED_TRACKS; trackIndex++) {
+    const code = `Digit${trackIndex + 1}`;
+    mappings.push(
+      {
+        binding: { kind: "key", code, shift: false },
+        action: { type: "toggleMute", trackIndex },
+      },
+      {
+        binding: { kind: "key", code, shift: true },
+        action: { type: "toggleSolo", trackIndex },
+      },
+      {
+        binding: {
+          kind: "midiNote",
+          channel: null,
+          note: DEFAULT_MIDI_FIRST_NOTE + trackIndex,
+        },
+        action: { type: "toggleMute", trackIndex },
+      },
+      {
+        binding: {
+          kind: "midiCc",
+          channel: null,
+          controller: DEFAULT_MIDI_FIRST_VOLUME_CC + trackIndex,
+        },
+        action: { type: "trackVolume", trackIndex },
+      },
+      {
+        binding: {
+          kind: "midiCc",
+          channel: null,
+          controller: DEFAULT_MIDI_FIRST_PAN_CC + trackIndex,
+        },
+        action: { type: "trackPan", trackIndex },
+      }
+    );
+  }
+
+  mappings.push(
+    {
+      binding: { kind: "key", code: "Space", shift: false },
+      action: { type: "togglePlay" },
+    },
+    {
+      binding: { kind: "key", code: "BracketLeft", shift: false },
+      action: { type: "previousSet" },
+    },
+    {
+      binding: { kind: "key", code: "BracketRight", shift: false },
+      action: { type: "nextSet" },
+    }
+  );
+
+  return mappings;
+}
+
+/**
+ * Whether a stored value is an integer in [min, max].
+ */
+const isIntegerInRange = (value: unknown, min: number, max: number): boolean =>
+  Number.isInteger(value) &&
+  (value as number) >= min &&
+  (value as number) <= max;
+
+/**
+ * Whether a stored value is a MIDI channel (0-15) or null for any channel.
+ */
+const isMidiChannel = (value: unknown): boolean =>
+  value === null || isIntegerInRange(value, 0, 15);
+
+/**
+ * Validates a stored binding.
+ */
+function isControlBinding(value: unknown): value is ControlBinding {
+  if (typeof value !== "object" || value === null) return false;
+  const binding = value as Record<string, unknown>;
+
+  switch (binding.kind) {
+    case "key":
+      return (
+        typeof binding.code === "string" &&
+        isBindableKey(binding.code) &&
+        typeof binding.shift === "boolean"
+      );
+    case "midiNote":
+      return (
+        isMidiChannel(binding.channel) &&
+        isIntegerInRange(binding.note, 0, MIDI_DATA_MAX)
+      );
+    case "midiCc":
+      return (
+        isMidiChannel(binding.channel) &&
+        isIntegerInRange(binding.controller, 0, MIDI_DATA_MAX)
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Validates a stored action.
+ */
+function isControlAction(value: unknown): value is ControlAction {
+  if (typeof value !== "object" || value === null) return false;
+  const action = value as Record<string, unknown>;
+  if (typeof action.type !== "string") return false;
+
+  if (TRACK_ACTION_TYPES.has(action.type)) {
+    return isIntegerInRange(action.trackIndex, 0, Number.MAX_SAFE_INTEGER);
+  }
+  return GLOBAL_ACTION_TYPES.has(action.type);
+}
+
+/**
+ * Validates stored mappings, dropping any that are malformed.
+ *
+ * @param value - Parsed JSON
+ * @returns Valid mappings, or null if the value is not a list of mappings
+ */
+function parseControlMappings(value: unknown): ControlMapping[] | null {
+  if (!Array.isArray(value)) return null;
+
+  return value.flatMap((mapping): ControlMapping[] =>
+    typeof mapping === "object" &&
+    mapping !== null &&
+    isControlBinding(mapping.binding) &&
+    isControlAction(mapping.action)
+      ? [{ binding: mapping.binding, action: mapping.action }]
+      : []
+  );
+}
+
+/**
+ * Reads the saved mappings from localStorage.
+ *
+ * @returns Saved mappings (malformed ones dropped), or the defaults if none
+ * are saved or storage is unavailable or corrupt
+ */
+export function getControlMappings(): ControlMapping[] {
+  if (typeof window === "undefined") return getDefaultControlMappings();
+
+  try {
+    const stored = window.localStorage.getItem(CONTROL_MAPPINGS_STORAGE_KEY);
+    const mappings = stored ? parseControlMappings(JSON.parse(stored)) : null;
+    return mappings ?? getDefaultControlMappings();
+  } catch (error) {
+    console.warn("getControlMappings - unable to read mappings:", error);
+    return getDefaultControlMappings();
+  }
+}
+
+/**
+ * Saves mappings to localStorage.
+ *
+ * @param mappings - Mappings to save
+ */
+export function saveControlMappings(mappings: ControlMapping[]): void {
+  try {
+    window.localStorage.setItem(
+      CONTROL_MAPPINGS_STORAGE_KEY,
+      JSON.stringify(mappings)
+    );
+  } catch (error) {
+    // Quota errors and private browsing modes are expected; mappings still apply this visit
+    console.warn("saveControlMappings - unable to save mappings:", error);
+  }
+}
+
+/**
+ * Removes the saved mappings so the defaults apply again.
+ *
+ * @returns Default mappings
+ */
+export function resetControlMappings(): ControlMapping[] {
+  try {
+    window.localStorage.removeItem(CONTROL_MAPPINGS_STORAGE_KEY);
+  } catch (error) {
+    console.warn("resetControlMappings - unable to reset mappings:", error);
+  }
+  return getDefaultControlMappings();
+}
+
+/**
+ * Binds an input to an action, replacing the action's previous binding of the
+ * same input type and any other action bound to that input.
+ *
+ * @param mappings - Current mappings
+ * @param binding - Input to bind
+ * @param action - Action it should trigger
+ * @returns Updated mappings
+ */
+export function bindControl(
+  mappings: ControlMapping[],
+  binding: ControlBinding,
+  action: ControlAction
+): ControlMapping[] {
+  const isMidi = (b: ControlBinding) => b.kind !== "key";
+
+  return [
+    ...mappings.filter(
+      (mapping) =>
+        !isSameBinding(mapping.binding, binding) &&
+        !(
+          isSameAction(mapping.action, action) &&
+          isMidi(mapping.binding) === isMidi(binding)
+        )
+    ),
+    { binding, action },
+  ];
+}
+
+/**
+ * Finds the bindings of an action.
+ *
+ * @param mappings - Current mappings
+ * @param action - Action to look up
+ * @returns Bindings that trigger the action
+ */
+export function getActionBindings(
+  mappings: ControlMapping[],
+  action: ControlAction
+): ControlBinding[] {
+  return mappings
+    .filter((mapping) => isSameAction(mapping.action, action))
+    .map((mapping) => mapping.binding);
+}
+
+/**
+ * Describes a binding for display (e.g., "Shift+1", "Note 36", "CC 20 ch 2").
+ */
+export function describeControlBinding(binding: ControlBinding): string {
+  const channel = (value: number | null) =>
+    value === null ? "" : ` ch ${value + 1}`;
+
+  switch (binding.kind) {
+    case "key": {
+      const key = binding.code
+        .replace(/^Digit/, "")
+        .replace(/^Key/, "")
+        .replace("BracketLeft", "[")
+        .replace("BracketRight", "]");
+      return binding.shift ? `Shift+${key}` : key;
+    }
+    case "midiNote":
+      return `Note ${binding.note}${channel(binding.channel)}`;
+    case "midiCc":
+      return `CC ${binding.controller}${channel(binding.channel)}`;
+  }
+}
+
+/**
+ * Whether a keyboard event comes from somewhere typing or native key
+ * handling should win: text fields, selects, editable content, and (for
+ * space and enter, unless learning) any control that they activate.
+ *
+ * @param event - Keyboard event
+ * @param learning - Whether the key is about to be learned; any key pressed
+ * outside a text field may then be bound, including space on a button
+ * @returns true if the shortcut should be ignored
+ */
+export function isKeyboardEventReserved(
+  event: KeyboardEvent,
+  learning: boolean = false
+): boolean {
+  if (event.ctrlKey || event.metaKey || event.altKey) return true;
+
+  const target = event.target;
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target.closest("input, textarea, select")) return true;
+
+  // Space and Enter click focused buttons, links and ARIA widgets; leave
+  // them to those
+  return (
+    !learning &&
+    ["Space", "Enter", "NumpadEnter"].includes(event.code) &&
+    target.closest(
+      'button, a[href], [role="button"], [role="checkbox"], [role="switch"], [role="slider"], [role="tab"]'
+    ) !== null
+  );
+}
+
+/**
+ * Finds the action bound to a key press.
+ *
+ * @param mappings - Current mappings
+ * @param event - Keyboard event
+ * @returns Bound action, or null
+ */
+export function matchKeyboardEvent(
+  mappings: ControlMapping[],
+  event: Pick<KeyboardEvent, "code" | "shiftKey">
+): ControlAction | null {
+  const binding: ControlBinding = {
+    kind: "key",
+    code: event.code,
+    shift: event.shiftKey,
+  };
+  return (
+    mappings.find((mapping) => isSameBinding(mapping.binding, binding))
+      ?.action ?? null
+  );
+}
+
+/**
+ * Parses raw MIDI bytes into a note-on or control change.
+ * Note-ons with velocity 0 are note-offs by convention and are ignored.
+ *
+ * @param data - MIDI message bytes
+ * @returns Parsed message, or null for any other message
+ */
+export function parseMidiMessage(
+  data: Uint8Array | null
+): MidiControlMessage | null {
+  if (!data || data.length < 3) return null;
+
+  const status = data[0] & 0xf0;
+  const channel = data[0] & 0x0f;
+  const value = data[2] / MIDI_DATA_MAX;
+
+  if (status === 0x90 && data[2] > 0) {
+    return { kind: "midiNote", channel, number: data[1], value };
+  }
+  if (status === 0xb0) {
+    return { kind: "midiCc", channel, number: data[1], value };
+  }
+  return null;
+}
+
+/**
+ * Builds the binding a MIDI message would be learned as. Learned bindings
+ * keep their channel so several controllers can share note numbers.
+ */
+export function getMidiMessageBinding(
+  message: MidiControlMessage
+): ControlBinding {
+  return message.kind === "midiNote"
+    ? { kind: "midiNote", channel: message.channel, note: message.number }
+    : {
+        kind: "midiCc",
+        channel: message.channel,
+        controller: message.number,
+      };
+}
+
+/**
+ * Finds the action bound to a MIDI message. Bindings for a specific channel
+ * win over any-channel bindings.
+ *
+ * @param mappings - Current mappings
+ * @param message - Parsed MIDI message
+ * @returns Bound action, or null
+ */
+export function matchMidiMessage(
+  mappings: ControlMapping[],
+  message: MidiControlMessage
+): ControlAction | null {
+  const exact = getMidiMessageBinding(message);
+  const anyChannel = { ...exact, channel: null };
+
+  return (
+    mappings.find((mapping) => isSameBinding(mapping.binding, exact))?.action ??
+    mappings.find((mapping) => isSameBinding(mapping.binding, anyChannel))
+      ?.action ??
+    null
+  );
+}
@@ -0,0 +1,1286 @@
+"use client";
+
+import {
+  closeAudioContext,
+  getAnalysisInput,
+  getAudioContext,
+  getAudioContextState,
+  getAudioError,
+  getAudioRoot,
+  getIsInitialized,
+  getIsSuspendedByPage,
+  initializeAudioContext,
+  resumeAudio,
+  setMasterBusSettings,
+  setMasterVolume as applyMasterVolume,
+  setMusicAnalysisEnabled,
+} from "./audio";
+import { configureAudioBufferCache } from "./bufferCache";
+import { configureAutomation, getAutomationSettings } from "./automation";
+import { getAudioConfigSync } from "./getAudioConfig";
+import { getTrackSourceCandidates } from "./formats";
+import {
+  AudioInput,
+  AudioInputError,
+  openFileInput,
+  openMicrophoneInput,
+} from "./input";
+import {
+  isAbortError,
+  loadMultipleAudioBuffers,
+  prefetchAudioBuffers,
+} from "./loader";
+import {
+  applyMixToTrackStates,
+  captureMix,
+  consumeSharedMix,
+  createTrackStates,
+  MusicSetMix,
+} from "./mix";
+import {
+  createMusicSetEffectBuses,
+  createMusicSetNode,
+  crossfadeMusicSets,
+  disconnectMusicSetNodes,
+  fadeInMusicSet,
+} from "./musicSet";
+import { getSavedMix } from "./session";
+import { getQuantizeInterval } from "./tempo";
+import {
+  applyTrackState,
+  createTrackNodes,
+  scheduleTrackMute,
+  getDefaultTrackPosition,
+  setTrackEffects,
+  setTrackPan,
+  setTrackPanningMode,
+  setTrackPosition,
+  setTrackVolume,
+} from "./tracks";
+import {
+  createMusicSetTransport,
+  getMusicSetPosition,
+  getNextQuantizedTime,
+  joinMusicSetTrack,
+  pauseMusicSet,
+  playMusicSet,
+  seekMusicSet,
+} from "./transport";
+import {
+  AudioAnalysisInput,
+  AudioConfig,
+  AudioState,
+  AudioUnlockState,
+  MusicSetData,
+  MusicSets,
+  MusicTrackEffects,
+  MusicTrackNodes,
+  MusicTrackPosition,
+  MusicTrackState,
+  QuantizeMode,
+  TrackPanningMode,
+} from "./types";
+import { AudioDataProvider } from "@/effect/core/AudioDataProvider";
+
+/** How often (ms) the playhead position is copied into state while playing */
+const PLAYBACK_POSITION_REFRESH_MS = 250;
+
+/** Length (seconds) of the fade-in when a set starts without a crossfade */
+const MUSIC_SET_FADE_IN_TIME = 2;
+
+/**
+ * How long (ms) to wait for the context to resume before carrying on. Some
+ * browsers leave resume() pending while autoplay is blocked; playback is
+ * scheduled anyway and starts once a gesture unlocks the context.
+ */
+const RESUME_WAIT_MS = 300;
+
+/**
+ * Error from loading a music set, reported in audioError. Unlike audio
+ * context errors it is recoverable: tracks that did load keep playing, and
+ * the set can be loaded again (see AudioEngine.retryMusicSet).
+ */
+export class MusicSetLoadError extends Error {
+  constructor(
+    readonly musicSetId: number,
+    message: string,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = "MusicSetLoadError";
+  }
+}
+
+/**
+ * Immutable snapshot of the engine state. A new snapshot is created on every
+ * change, so snapshots can be compared by reference.
+ */
+export type AudioEngineState = Readonly<AudioState>;
+
+/**
+ * Called with the new snapshot after every state change.
+ */
+export type AudioEngineListener = (state: AudioEngineState) => void;
+
+/**
+ * Headless audio engine. Owns the audio context, the loaded music sets, their
+ * tracks and the mix, and publishes its state as immutable snapshots.
+ *
+ * Nothing here depends on React: components reach it through
+ * AudioStateProvider and the audio hooks, which only adapt it, while other
+ * code (the effect engine, control surfaces) can call it directly.
+ */
+export class AudioEngine {
+  /** Current state snapshot */
+  private state: AudioEngineState;
+
+  /** State change listeners */
+  private listeners: Set<AudioEngineListener> = new Set();
+
+  /** Audio configuration (music sets and default settings) */
+  private config: AudioConfig;
+
+  /** Music set load in progress; a new load cancels it */
+  private pendingLoad: AbortController | null = null;
+
+  /** Idle-time prefetching of adjacent music sets */
+  private pendingPrefetch: AbortController | null = null;
+
+  /** Interval copying the playhead position into state while playing */
+  private positionTimer: ReturnType<typeof setInterval> | null = null;
+
+  /** Microphone or file feeding the analyzer instead of the music */
+  private externalInput: AudioInput | null = null;
+
+  /** Counts input changes, so a slow open superseded by another is dropped */
+  private inputRequest = 0;
+
+  /**
+   * @param config - Audio configuration (default: the built-in fallback,
+   * until configure is called with the API config)
+   */
+  constructor(config: AudioConfig = getAudioConfigSync()) {
+    this.config = config;
+    this.state = Object.freeze({
+      isInitialized: false,
+      unlockState: "uninitialized",
+      audioError: null,
+      isMasterMuted: false,
+      masterVolume: config.defaultSettings.masterVolume,
+      currentSet: null,
+      loadingSet: null,
+      loadingProgress: null,
+      loadedSets: new Map<number, MusicSetData>(),
+      tracks: [],
+      isPlaying: false,
+      playbackPosition: 0,
+      playbackDuration: 0,
+      quantize: config.defaultSettings.quantize,
+      isPlayingElsewhere: false,
+      panningMode: config.defaultSettings.panningMode,
+      analysisInput: "music",
+      analysisInputLabel: null,
+    });
+  }
+
+  /**
+   * Gets the current state snapshot.
+   */
+  getState(): AudioEngineState {
+    return this.state;
+  }
+
+  /**
+   * Listens for state changes.
+   *
+   * @param listener - Called with each new snapshot
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: AudioEngineListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Replaces the snapshot with one including the given changes and notifies
+   * listeners.
+   */
+  private update(changes: Partial<AudioState>): void {
+    this.state = Object.freeze({ ...this.state, ...changes });
+    this.syncPositionTimer();
+
+    // Let effects that ignore muted tracks know which ones are
+    if (changes.tracks) {
+      AudioDataProvider.setMutedTracks(
+        changes.tracks
+          .filter((track) => track.isEffectivelyMuted)
+          .map((track) => track.id)
+      );
+    }
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(this.state);
+      } catch (error) {
+        console.error("[AudioEngine] Listener error:", error);
+      }
+    });
+  }
+
+  /**
+   * Replaces one track's state.
+   */
+  private updateTrack(trackId: string, changes: Partial<MusicTrackState>) {
+    this.update({
+      tracks: this.state.tracks.map((track) =>
+        track.id === trackId ? { ...track, ...changes } : track
+      ),
+    });
+  }
+
+  /**
+   * Starts or stops refreshing the playhead position to match isPlaying.
+   */
+  private syncPositionTimer(): void {
+    if (this.state.isPlaying && this.positionTimer === null) {
+      this.positionTimer = setInterval(() => {
+        const musicSetData = this.getCurrentMusicSetData();
+        if (musicSetData) {
+          this.update({ playbackPosition: getMusicSetPosition(musicSetData) });
+        }
+      }, PLAYBACK_POSITION_REFRESH_MS);
+    } else if (!this.state.isPlaying && this.positionTimer !== null) {
+      clearInterval(this.positionTimer);
+      this.positionTimer = null;
+    }
+  }
+
+  /**
+   * Applies an audio configuration: the music sets to offer, and the cache,
+   * master bus, ramp and quantize defaults.
+   *
+   * @param config - Audio configuration (e.g., from /api/audio-config)
+   */
+  configure(config: AudioConfig): void {
+    this.config = config;
+    const { defaultSettings } = config;
+
+    // Apply cache settings before any music set is loaded
+    configureAudioBufferCache({
+      maxBytes: defaultSettings.bufferCacheSizeMB * 1024 * 1024,
+      persistEncoded: defaultSettings.persistEncodedAudio,
+    });
+
+    // Apply master bus settings (before or after the context exists)
+    setMasterBusSettings(defaultSettings);
+
+    // Apply ramp times for volume, pan, effect and mute changes
+    configureAutomation({
+      rampTime: defaultSettings.parameterRampTime,
+      muteFadeTime: defaultSettings.muteFadeTime,
+    });
+
+    this.update({ quantize: defaultSettings.quantize });
+  }
+
+  /**
+   * Gets the current audio configuration.
+   */
+  getConfig(): AudioConfig {
+    return this.config;
+  }
+
+  /**
+   * Creates the audio context. Browsers only allow this after a user
+   * gesture, so call it from one; a context created without one starts
+   * locked (see unlock).
+   */
+  async initialize(): Promise<void> {
+    try {
+      await initializeAudioContext();
+      this.update({
+        isInitialized: getIsInitialized(),
+        audioError: getAudioError(),
+      });
+    } catch (error) {
+      this.update({ isInitialized: false, audioError: error as Error });
+    }
+    this.syncMasterVolume();
+
+    // Listeners are deduplicated, so initializing twice adds one
+    getAudioContext()?.addEventListener(
+      "statechange",
+      this.handleContextStateChange
+    );
+    if (this.state.isInitialized) {
+      await this.resumeContext();
+    }
+  }
+
+  /**
+   * Copies the context's state into unlockState. A context the page
+   * suspended itself (hidden tab) still counts as unlocked.
+   */
+  private syncUnlockState(): void {
+    const contextState = getAudioContextState();
+    let unlockState: AudioUnlockState;
+    if (contextState === null || contextState === "closed") {
+      unlockState = "uninitialized";
+    } else if (contextState === "running") {
+      unlockState = "unlocked";
+    } else if (contextState === "interrupted") {
+      unlockState = "interrupted";
+    } else {
+      unlockState = getIsSuspendedByPage() ? "unlocked" : "locked";
+    }
+
+    if (unlockState !== this.state.unlockState) {
+      this.update({ unlockState });
+    }
+  }
+
+  /**
+   * Follows the context through autoplay blocks, device sleep, Bluetooth
+   * route changes and iOS interruptions, trying to resume whenever it stops
+   * while a set is playing. Browsers that refuse wait for a gesture instead.
+   */
+  private handleContextStateChange = (): void => {
+    this.syncUnlockState();
+    if (this.state.unlockState !== "unlocked" && this.state.isPlaying) {
+      void this.resumeContext();
+    }
+  };
+
+  /**
+   * Resumes the context without waiting long for browsers that hold the
+   * request until a gesture (see RESUME_WAIT_MS), then updates unlockState.
+   */
+  private async resumeContext(): Promise<void> {
+    try {
+      await Promise.race([
+        resumeAudio(),
+        new Promise((resolve) => setTimeout(resolve, RESUME_WAIT_MS)),
+      ]);
+    } catch (error) {
+      // Expected without a gesture; unlock retries on the next one
+      console.warn(
+        "Audio is blocked until the page is interacted with:",
+        error
+      );
+    }
+    this.syncUnlockState();
+  }
+
+  /**
+   * Resumes a context the browser blocked or the OS interrupted. Call from a
+   * user gesture (AudioStateProvider does, while locked or interrupted).
+   */
+  async unlock(): Promise<void> {
+    const { unlockState } = this.state;
+    if (unlockState !== "locked" && unlockState !== "interrupted") return;
+    await this.resumeContext();
+  }
+
+  /**
+   * Stops any load, releases every music set and closes the audio context.
+   */
+  async close(): Promise<void> {
+    this.pendingLoad?.abort();
+    this.pendingLoad = null;
+    this.pendingPrefetch?.abort();
+    this.pendingPrefetch = null;
+
+    this.inputRequest++;
+    this.closeExternalInput();
+    getAudioContext()?.removeEventListener(
+      "statechange",
+      this.handleContextStateChange
+    );
+
+    this.state.loadedSets.forEach((musicSetData) =>
+      this.releaseMusicSet(musicSetData)
+    );
+    this.update({
+      analysisInput: "music",
+      analysisInputLabel: null,
+      isInitialized: false,
+      unlockState: "uninitialized",
+      currentSet: null,
+      loadingSet: null,
+      loadingProgress: null,
+      tracks: [],
+      isPlaying: false,
+      playbackPosition: 0,
+      playbackDuration: 0,
+    });
+
+    await closeAudioContext();
+  }
+
+  /**
+   * Applies the master volume (or silence, when muted) to the output.
+   */
+  private syncMasterVolume(): void {
+    if (!this.state.isInitialized) return;
+    const { masterVolume, isMasterMuted } = this.state;
+    applyMasterVolume(isMasterMuted ? 0 : masterVolume);
+  }
+
+  /**
+   * Sets the master volume.
+   *
+   * @param volume - Linear volume (0-1)
+   */
+  setMasterVolume(volume: number): void {
+    this.update({ masterVolume: volume });
+    this.syncMasterVolume();
+  }
+
+  /**
+   * Mutes or unmutes the master output.
+   */
+  setMasterMuted(muted: boolean): void {
+    this.update({ isMasterMuted: muted });
+    this.syncMasterVolume();
+  }
+
+  /**
+   * Toggles the master mute.
+   */
+  toggleMasterMute(): void {
+    this.setMasterMuted(!this.state.isMasterMuted);
+  }
+
+  /**
+   * Sets the grid mute, solo and music set switches snap to.
+   */
+  setQuantize(quantize: QuantizeMode): void {
+    this.update({ quantize });
+  }
+
+  /**
+   * Records whether another tab is playing.
+   */
+  setPlayingElsewhere(isPlayingElsewhere: boolean): void {
+    if (this.state.isPlayingElsewhere === isPlayingElsewhere) return;
+    this.update({ isPlayingElsewhere });
+  }
+
+  /**
+   * Resumes the current music set at its playhead position.
+   */
+  async play(): Promise<void> {
+    const musicSetData = this.getCurrentMusicSetData();
+    if (!musicSetData) return;
+
+    // Playing music brings the visuals back to it
+    if (this.externalInput) this.selectMusicInput();
+
+    // The context may still be suspended by the browser or visibility handling
+    await this.resumeContext();
+    playMusicSet(musicSetData);
+    this.update({
+      isPlaying: true,
+      playbackPosition: getMusicSetPosition(musicSetData),
+    });
+  }
+
+  /**
+   * Pauses the current music set at its playhead position.
+   * Only the set's sources are stopped; the audio context keeps running.
+   */
+  pause(): void {
+    const musicSetData = this.getCurrentMusicSetData();
+    if (musicSetData) {
+      pauseMusicSet(musicSetData);
+    }
+    this.update({
+      isPlaying: false,
+      playbackPosition: musicSetData
+        ? getMusicSetPosition(musicSetData)
+        : this.state.playbackPosition,
+    });
+  }
+
+  /**
+   * Pauses or resumes the current music set.
+   */
+  async togglePlayPause(): Promise<void> {
+    if (!this.getCurrentMusicSetData()) return;
+
+    if (this.state.isPlaying) {
+      this.pause();
+    } else {
+      await this.play();
+    }
+  }
+
+  /**
+   * Moves the playhead of the current music set.
+   *
+   * @param position - Target position in seconds
+   */
+  seek(position: number): void {
+    const musicSetData = this.getCurrentMusicSetData();
+    if (!musicSetData) return;
+
+    seekMusicSet(musicSetData, position);
+    this.update({ playbackPosition: getMusicSetPosition(musicSetData) });
+  }
+
+  /**
+   * Closes the microphone or file input, if one is open.
+   */
+  private closeExternalInput(): void {
+    this.externalInput?.close();
+    this.externalInput = null;
+  }
+
+  /**
+   * Gets audioError without a microphone or file error, which a new attempt
+   * clears. Audio context errors are kept.
+   */
+  private getAudioErrorWithoutInputError(): Error | null {
+    const { audioError } = this.state;
+    return audioError instanceof AudioInputError ? null : audioError;
+  }
+
+  /**
+   * Replaces the analysis input with a microphone or file. The music set is
+   * paused, so the visuals (and speakers) follow the new input alone.
+   * Failures are reported in audioError as AudioInputErrors, and leave the
+   * music as the input.
+   *
+   * @param analysisInput - Kind of input being opened
+   * @param open - Opens the input, connected to the analyzer input node;
+   * `onLost` is to be called if it stops working later
+   */
+  private async openExternalInput(
+    analysisInput: Exclude<AudioAnalysisInput, "music">,
+    open: (
+      audioCtx: AudioContext,
+      analyzerInput: AudioNode,
+      onLost: (error: AudioInputError) => void
+    ) => Promise<AudioInput>
+  ): Promise<void> {
+    if (!this.state.isInitialized) {
+      await this.initialize();
+    }
+    const audioCtx = getAudioContext();
+    const analyzerInput = getAnalysisInput();
+    if (!audioCtx || !analyzerInput) return;
+
+    const request = ++this.inputRequest;
+    this.closeExternalInput();
+    setMusicAnalysisEnabled(true);
+    this.update({
+      analysisInput: "music",
+      analysisInputLabel: null,
+      audioError: this.getAudioErrorWithoutInputError(),
+    });
+
+    let input: AudioInput;
+    try {
+      input = await open(audioCtx, analyzerInput, (error) => {
+        if (this.inputRequest === request) this.selectMusicInput(error);
+      });
+    } catch (error) {
+      if (this.inputRequest !== request) return;
+      console.warn(`Unable to open ${analysisInput} input:`, error);
+      this.update({
+        audioError:
+          error instanceof AudioInputError
+            ? error
+            : new AudioInputError(
+                "deviceUnavailable",
+                "The input could not be started.",
+                { cause: error }
+              ),
+      });
+      return;
+    }
+
+    // Another input (or the music) was picked while this one opened
+    if (this.inputRequest !== request) {
+      input.close();
+      return;
+    }
+
+    this.externalInput = input;
+    this.pause();
+    setMusicAnalysisEnabled(false);
+    await this.resumeContext();
+    this.update({ analysisInput, analysisInputLabel: input.label });
+  }
+
+  /**
+   * Makes the microphone the analysis input. It is analysed only, never
+   * played. Browsers ask for permission the first time.
+   */
+  async connectMicrophone(): Promise<void> {
+    await this.openExternalInput(
+      "microphone",
+      (audioCtx, analyzerInput, onLost) =>
+        openMicrophoneInput(audioCtx, analyzerInput, onLost)
+    );
+  }
+
+  /**
+   * Makes an audio file the analysis input, playing it on a loop through the
+   * master volume.
+   *
+   * @param file - File chosen or dropped by the visitor
+   */
+  async loadAudioFile(file: File): Promise<void> {
+    await this.openExternalInput("file", (audioCtx, analyzerInput) => {
+      const audioRoot = getAudioRoot();
+      return openFileInput(
+        audioCtx,
+        file,
+        audioRoot ? [analyzerInput, audioRoot] : [analyzerInput]
+      );
+    });
+  }
+
+  /**
+   * Makes the music sets the analysis input again, closing any microphone
+   * or file input (or cancelling one being opened).
+   *
+   * @param error - Why the previous input stopped, if it failed (kept in
+   * audioError); otherwise input errors are cleared
+   */
+  selectMusicInput(error?: AudioInputError): void {
+    this.inputRequest++;
+    this.closeExternalInput();
+    setMusicAnalysisEnabled(true);
+    this.update({
+      analysisInput: "music",
+      analysisInputLabel: null,
+      audioError: error ?? this.getAudioErrorWithoutInputError(),
+    });
+  }
+
+  /**
+   * Gets a music set from the configuration.
+   *
+   * @param musicSetId - Music set ID (default: the current set)
+   * @returns The music set, or null if there is none with that ID
+   */
+  getMusicSet(
+    musicSetId: number | null = this.state.currentSet
+  ): MusicSets | null {
+    return this.config.musicSets.find((ms) => ms.id === musicSetId) ?? null;
+  }
+
+  /**
+   * Gets the loaded data of the current music set, if any.
+   */
+  getCurrentMusicSetData(): MusicSetData | null {
+    const { currentSet, loadedSets } = this.state;
+    if (currentSet === null) return null;
+    return loadedSets.get(currentSet) ?? null;
+  }
+
+  /**
+   * Gets the node chain of a track of the current music set.
+   *
+   * @param trackId - Track ID
+   * @returns The track's nodes, or null if it is not in the current set
+   */
+  getTrackNodes(trackId: string): MusicTrackNodes | null {
+    return this.getCurrentMusicSetData()?.nodes.get(trackId) ?? null;
+  }
+
+  /**
+   * Stops and disconnects a music set and removes it from the loaded sets.
+   * Only analyzers still registered by this set are unregistered, so a newer
+   * set sharing track IDs keeps driving the effects.
+   */
+  private releaseMusicSet(musicSetData: MusicSetData): void {
+    musicSetData.trackAnalyzers.forEach((analyzer, trackId) => {
+      AudioDataProvider.unregisterTrackAnalyzer(trackId, analyzer);
+    });
+
+    disconnectMusicSetNodes(
+      musicSetData.musicSetNode,
+      [...musicSetData.nodes.values()],
+      musicSetData.effectBuses
+    );
+
+    // Remove from loaded music sets (unless it was reloaded in the meantime)
+    if (this.state.loadedSets.get(musicSetData.setId) === musicSetData) {
+      const loadedSets = new Map(this.state.loadedSets);
+      loadedSets.delete(musicSetData.setId);
+      this.update({ loadedSets });
+    }
+  }
+
+  /**
+   * Gets the context time a switch away from a playing set should land on.
+   *
+   * @param outgoingMusicSet - Set being switched away from
+   * @returns Time of its next beat or bar, or null to switch immediately
+   */
+  private getSwitchTime(outgoingMusicSet: MusicSetData): number | null {
+    const outgoing = this.getMusicSet(outgoingMusicSet.setId);
+    if (!outgoing) return null;
+
+    const interval = getQuantizeInterval(outgoing, this.state.quantize);
+    return interval === null
+      ? null
+      : getNextQuantizedTime(outgoingMusicSet, interval);
+  }
+
+  /**
+   * Gets the set a newly loaded set should crossfade from: the one playing
+   * now. A quick series of switches (A → B → C) can replace the set that was
+   * playing when the load began, so the requested set is only a fallback
+   * for when no other set is current.
+   *
+   * @param incoming - Set about to start
+   * @param requested - Set the load was asked to crossfade from, if any
+   * @returns Set to fade out, or null to fade the new set in from silence
+   */
+  private getOutgoingMusicSet(
+    incoming: MusicSetData,
+    requested?: MusicSetData
+  ): MusicSetData | null {
+    const current = this.getCurrentMusicSetData();
+    if (current && current !== incoming) return current;
+    if (requested && this.state.loadedSets.get(requested.setId) === requested) {
+      return requested;
+    }
+    return null;
+  }
+
+  /**
+   * Prefetches the music sets before and after the given one (wrapping around)
+   * into the buffer cache while the browser is idle, so switching to them
+   * skips the download and decode.
+   */
+  private prefetchAdjacentMusicSets(musicSetId: number): void {
+    const { musicSets } = this.config;
+    const index = musicSets.findIndex((ms) => ms.id === musicSetId);
+    if (index === -1 || musicSets.length < 2) return;
+
+    const next = musicSets[(index + 1) % musicSets.length];
+    const previous =
+      musicSets[(index - 1 + musicSets.length) % musicSets.length];
+    const adjacentSets = next === previous ? [next] : [next, previous];
+    const trackPaths = adjacentSets.flatMap((ms) =>
+      ms.tracks.map(getTrackSourceCandidates)
+    );
+
+    this.pendingPrefetch?.abort();
+    const controller = new AbortController();
+    this.pendingPrefetch = controller;
+
+    prefetchAudioBuffers(trackPaths, controller.signal).finally(() => {
+      if (this.pendingPrefetch === controller) {
+        this.pendingPrefetch = null;
+      }
+    });
+  }
+
+  /**
+   * Loads a music set's audio buffers and creates Web Audio nodes.
+   *
+   * Playback starts as soon as the first track is decoded; the remaining
+   * tracks join in sync as they arrive. Starting another load aborts this one.
+   *
+   * The set playing when the first buffer is decoded keeps playing until
+   * then, and the two sets are crossfaded; every set the new one replaces
+   * (including one an earlier, quicker switch left behind) is released once
+   * the crossfade finishes. With quantizing on, the new set starts and
+   * the crossfade begins on the outgoing set's next beat or bar.
+   *
+   * Tracks start from the given mix, else from a mix shared through the page
+   * URL for this set, else from the set's mix saved in the last session, else
+   * from the manifest and global defaults.
+   *
+   * @param musicSetId - ID of the music set to load
+   * @param outgoingMusicSet - Optional set to crossfade from if no set is
+   * current by the time playback starts
+   * @param mix - Optional mix (volume, pan, mute/solo, effects) to start with
+   */
+  async loadMusicSet(
+    musicSetId: number,
+    outgoingMusicSet?: MusicSetData,
+    mix?: MusicSetMix
+  ): Promise<void> {
+    const musicSet = this.getMusicSet(musicSetId);
+    if (!musicSet) {
+      console.error(`Music set ${musicSetId} not found`);
+      return;
+    }
+
+    // Picking a set brings the visuals back to the music
+    if (this.externalInput) this.selectMusicInput();
+
+    // Cancel any load still in progress (e.g. switching zones mid-load)
+    // and free the network from prefetching
+    this.pendingLoad?.abort();
+    this.pendingPrefetch?.abort();
+    this.pendingPrefetch = null;
+    const controller = new AbortController();
+    this.pendingLoad = controller;
+
+    // A new load replaces the outcome of the last one
+    const { audioError } = this.state;
+    this.update({
+      loadingSet: musicSetId,
+      loadingProgress: 0,
+      audioError: audioError instanceof MusicSetLoadError ? null : audioError,
+    });
+
+    const trackStates = createTrackStates(
+      musicSet,
+      this.config.defaultSettings,
+      mix ?? consumeSharedMix(musicSet) ?? getSavedMix(musicSetId) ?? undefined
+    );
+    let musicSetData: MusicSetData | null = null;
+    let playbackStarted: Promise<void> | null = null;
+
+    try {
+      // Create music set node
+      const musicSetNode = createMusicSetNode();
+
+      // Create the reverb and delay buses shared by the set's tracks
+      const effectBuses = createMusicSetEffectBuses(musicSetNode, musicSet.bpm);
+
+      // Create nodes for each track, set to its starting mix.
+      // Buffers are attached as tracks load.
+      const trackNodes = new Map<string, MusicTrackNodes>(
+        trackStates.map((state) => {
+          const nodes = createTrackNodes(
+            null,
+            musicSetNode,
+            state.volume,
+            state.pan,
+            true, // loop
+            effectBuses
+          );
+          applyTrackState(nodes, state);
+          return [state.id, nodes];
+        })
+      );
+
+      const loadingSetData: MusicSetData = {
+        setId: musicSetId,
+        buffers: new Map<string, AudioBuffer>(),
+        nodes: trackNodes,
+        musicSetNode: musicSetNode,
+        effectBuses: effectBuses,
+        trackAnalyzers: new Map<string, AnalyserNode>(),
+        transport: createMusicSetTransport([], musicSet.loop ?? null),
+      };
+      musicSetData = loadingSetData;
+
+      /**
+       * Starts the set once its first track is ready. Later tracks join the
+       * running transport in sync as they finish loading.
+       */
+      const startPlayback = async () => {
+        // Ensure audio context is resumed BEFORE starting tracks
+        // (in case it was suspended from previous music set)
+        await this.resumeContext();
+
+        // A newer load may have replaced this one while the context resumed
+        if (controller.signal.aborted) {
+          this.releaseMusicSet(loadingSetData);
+          return;
+        }
+
+        // Use the panning mode current now, in case it changed during the load
+        trackStates.forEach((state) => {
+          const nodes = trackNodes.get(state.id);
+          if (nodes) {
+            setTrackPanningMode(nodes, this.state.panningMode, state.position);
+          }
+        });
+
+        // Every set loaded before this one is replaced by it
+        const outgoing = this.getOutgoingMusicSet(
+          loadingSetData,
+          outgoingMusicSet
+        );
+        const supersededSets = [...this.state.loadedSets.values()].filter(
+          (musicSet) => musicSet !== loadingSetData
+        );
+        const releaseSupersededSets = () =>
+          supersededSets.forEach((musicSet) => this.releaseMusicSet(musicSet));
+
+        const loadedSets = new Map(this.state.loadedSets);
+        loadedSets.set(musicSetId, loadingSetData);
+        this.update({ loadedSets, tracks: trackStates });
+
+        // Start playback of all loaded tracks from the beginning, in lockstep,
+        // on the outgoing set's next grid line when switching quantized
+        const startedAt = playMusicSet(
+          loadingSetData,
+          0,
+          outgoing ? (this.getSwitchTime(outgoing) ?? undefined) : undefined
+        );
+
+        if (outgoing) {
+          // Crossfade from the outgoing set, then release it and any set an
+          // earlier switch left behind
+          const { crossfadeDuration, crossfadeCurve } =
+            this.config.defaultSettings;
+          crossfadeMusicSets(
+            outgoing.musicSetNode,
+            musicSetNode,
+            crossfadeDuration,
+            crossfadeCurve,
+            startedAt ?? undefined
+          );
+
+          const audioCtx = getAudioContext();
+          const switchDelay =
+            startedAt !== null && audioCtx
+              ? Math.max(0, startedAt - audioCtx.currentTime)
+              : 0;
+          setTimeout(
+            releaseSupersededSets,
+            (switchDelay + Math.max(0, crossfadeDuration)) * 1000
+          );
+        } else {
+          // Nothing is playing: fade in the music set from 0 to target volume
+          releaseSupersededSets();
+          fadeInMusicSet([...trackNodes.values()], MUSIC_SET_FADE_IN_TIME);
+        }
+
+        this.update({
+          isPlaying: true,
+          playbackDuration: loadingSetData.transport.duration,
+          playbackPosition: 0,
+          currentSet: musicSetId,
+        });
+      };
+
+      // Load all track buffers for this music set, playing each as it decodes.
+      // Each track is fetched in the best format this browser can decode.
+      const trackPaths = musicSet.tracks.map(getTrackSourceCandidates);
+      await loadMultipleAudioBuffers(trackPaths, {
+        signal: controller.signal,
+        onProgress: (progress) => {
+          this.update({ loadingProgress: progress.percent });
+        },
+        onBufferLoaded: (index, buffer) => {
+          if (controller.signal.aborted) return;
+
+          const trackId = musicSet.tracks[index].id;
+          joinMusicSetTrack(loadingSetData, trackId, buffer);
+
+          // Register the track analyzer with AudioDataProvider
+          const analyzer = trackNodes.get(trackId)?.analyzer;
+          if (analyzer) {
+            loadingSetData.trackAnalyzers.set(trackId, analyzer);
+            AudioDataProvider.registerTrackAnalyzer(trackId, analyzer);
+          }
+
+          if (!playbackStarted) {
+            playbackStarted = startPlayback();
+          } else {
+            this.update({
+              playbackDuration: loadingSetData.transport.duration,
+            });
+          }
+        },
+      });
+
+      await playbackStarted;
+
+      if (this.config.defaultSettings.prefetchAdjacentSets) {
+        this.prefetchAdjacentMusicSets(musicSetId);
+      }
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error(`Error loading music set ${musicSetId}:`, error);
+
+        // A failed track aborts the rest of the set, so say so rather than
+        // leave a partly loaded set looking healthy
+        if (this.pendingLoad === controller) {
+          this.update({
+            audioError: new MusicSetLoadError(
+              musicSetId,
+              playbackStarted
+                ? `Some tracks of ${musicSet.displayName} could not be loaded.`
+                : `${musicSet.displayName} could not be loaded.`,
+              { cause: error }
+            ),
+          });
+        }
+      }
+
+      // A set that never started playing was never handed to state
+      if (musicSetData && !playbackStarted) {
+        disconnectMusicSetNodes(
+          musicSetData.musicSetNode,
+          [...musicSetData.nodes.values()],
+          musicSetData.effectBuses
+        );
+      }
+    } finally {
+      // A newer load owns the loading state if this one was superseded
+      if (this.pendingLoad === controller) {
+        this.pendingLoad = null;
+        this.update({ loadingSet: null, loadingProgress: null });
+      }
+    }
+  }
+
+  /**
+   * Switches to a different music set.
+   * The current music set keeps playing while the new one loads, then the
+   * two are crossfaded (see loadMusicSet).
+   */
+  async switchMusicSet(musicSetId: number): Promise<void> {
+    const { currentSet, loadingSet } = this.state;
+
+    // Don't switch if already on (or loading) this music set
+    if (currentSet === musicSetId || loadingSet === musicSetId) return;
+
+    // Keep the old music set alive until the new one is ready to crossfade
+    await this.loadMusicSet(
+      musicSetId,
+      this.getCurrentMusicSetData() ?? undefined
+    );
+  }
+
+  /**
+   * Loads a music set again after it failed to load. The mix of a partly
+   * loaded set is kept, and its tracks that did load come from the buffer
+   * cache.
+   *
+   * @param musicSetId - ID of the music set to load
+   */
+  async retryMusicSet(musicSetId: number): Promise<void> {
+    const current = this.getCurrentMusicSetData();
+    const mix =
+      current?.setId === musicSetId ? captureMix(this.state.tracks) : undefined;
+    await this.loadMusicSet(musicSetId, current ?? undefined, mix);
+  }
+
+  /**
+   * Switches to the set before or after the current one, wrapping around.
+   * Starts the first set when none is playing.
+   *
+   * @param step - 1 for the next set, -1 for the previous one
+   */
+  async switchAdjacentMusicSet(step: 1 | -1): Promise<void> {
+    const { musicSets } = this.config;
+    if (musicSets.length === 0) return;
+
+    const index = musicSets.findIndex((ms) => ms.id === this.state.currentSet);
+    const nextIndex =
+      index === -1 ? 0 : (index + step + musicSets.length) % musicSets.length;
+    await this.switchMusicSet(musicSets[nextIndex].id);
+  }
+
+  /**
+   * Unloads the current music set and cleans up resources.
+   */
+  unloadCurrentMusicSet(): void {
+    const musicSetData = this.getCurrentMusicSetData();
+    if (!musicSetData) return;
+
+    this.releaseMusicSet(musicSetData);
+    this.update({
+      currentSet: null,
+      tracks: [],
+      isPlaying: false,
+      playbackPosition: 0,
+      playbackDuration: 0,
+    });
+  }
+
+  /**
+   * Gets the context time quantized mute/solo changes should land on.
+   *
+   * @returns Time of the next beat or bar, or null to apply immediately
+   */
+  private getQuantizedTime(): number | null {
+    const musicSet = this.getMusicSet();
+    const musicSetData = this.getCurrentMusicSetData();
+    if (!musicSet || !musicSetData) return null;
+
+    const interval = getQuantizeInterval(musicSet, this.state.quantize);
+    return interval === null
+      ? null
+      : getNextQuantizedTime(musicSetData, interval);
+  }
+
+  /**
+   * Toggles mute for a track.
+   * Updates both isMuted (user preference) and isEffectivelyMuted (actual audio state).
+   * The audio change lands on the next beat or bar when quantizing is on.
+   */
+  toggleMute(trackId: string): void {
+    const { tracks } = this.state;
+    const track = tracks.find((t) => t.id === trackId);
+    const nodes = this.getTrackNodes(trackId);
+    if (!track || !nodes) return;
+
+    const isMuted = !track.isMuted;
+
+    // Effective mute: user muted OR (solo active AND not soloed)
+    const anySoloActive = tracks.some((t) => t.isSolo);
+    const isEffectivelyMuted = isMuted || (anySoloActive && !track.isSolo);
+
+    scheduleTrackMute(
+      nodes,
+      { volume: track.volume, isEffectivelyMuted },
+      this.getQuantizedTime()
+    );
+    this.updateTrack(trackId, { isMuted, isEffectivelyMuted });
+  }
+
+  /**
+   * Toggles solo for a track.
+   *
+   * Preserves user mute states (isMuted) while computing effective mute (isEffectivelyMuted).
+   * Supports multiple tracks being soloed simultaneously.
+   * The audio change lands on the next beat or bar when quantizing is on.
+   */
+  toggleSolo(trackId: string): void {
+    const { tracks } = this.state;
+    const track = tracks.find((t) => t.id === trackId);
+    if (!track) return;
+
+    const isSolo = !track.isSolo;
+    const anySoloActive = tracks.some((t) =>
+      t.id === trackId ? isSolo : t.isSolo
+    );
+
+    // Every track switches on the same grid line
+    const when = this.getQuantizedTime();
+
+    this.update({
+      tracks: tracks.map((t) => {
+        const trackIsSolo = t.id === trackId ? isSolo : t.isSolo;
+        const isEffectivelyMuted = t.isMuted || (anySoloActive && !trackIsSolo);
+
+        const nodes = this.getTrackNodes(t.id);
+        if (nodes) {
+          scheduleTrackMute(
+            nodes,
+            { volume: t.volume, isEffectivelyMuted },
+            when
+          );
+        }
+
+        return { ...t, isSolo: trackIsSolo, isEffectivelyMuted };
+      }),
+    });
+  }
+
+  /**
+   * Sets the volume of a track.
+   * Only applies to audio nodes if the track is not effectively muted.
+   */
+  updateTrackVolume(trackId: string, volume: number): void {
+    const track = this.state.tracks.find((t) => t.id === trackId);
+    const nodes = this.getTrackNodes(trackId);
+    if (!track || !nodes) return;
+
+    if (!track.isEffectivelyMuted) {
+      setTrackVolume(nodes, volume);
+    }
+    this.updateTrack(trackId, { volume });
+  }
+
+  /**
+   * Sets the pan of a track.
+   */
+  updateTrackPan(trackId: string, pan: number): void {
+    const nodes = this.getTrackNodes(trackId);
+    if (!nodes) return;
+
+    setTrackPan(nodes, pan);
+    this.updateTrack(trackId, { pan });
+  }
+
+  /**
+   * Moves a track on the spatial stage. Heard in spatial mode only, but kept
+   * in state either way.
+   */
+  updateTrackPosition(trackId: string, position: MusicTrackPosition): void {
+    const nodes = this.getTrackNodes(trackId);
+    if (!nodes) return;
+
+    setTrackPosition(nodes, position);
+    this.updateTrack(trackId, { position });
+  }
+
+  /**
+   * Switches every loaded set between stereo panning and spatial placement
+   * of its tracks. Sets loaded later start in the same mode.
+   */
+  setPanningMode(panningMode: TrackPanningMode): void {
+    if (panningMode === this.state.panningMode) return;
+
+    this.state.loadedSets.forEach((musicSetData) => {
+      musicSetData.nodes.forEach((nodes, trackId) => {
+        const position =
+          this.state.tracks.find((t) => t.id === trackId)?.position ??
+          getDefaultTrackPosition(0);
+        setTrackPanningMode(nodes, panningMode, position);
+      });
+    });
+    this.update({ panningMode });
+  }
+
+  /**
+   * Sets one EQ, filter or send setting of a track.
+   */
+  updateTrackEffect(
+    trackId: string,
+    effect: keyof MusicTrackEffects,
+    value: number
+  ): void {
+    const track = this.state.tracks.find((t) => t.id === trackId);
+    const nodes = this.getTrackNodes(trackId);
+    if (!track || !nodes) return;
+
+    const effects = { ...track.effects, [effect]: value };
+    setTrackEffects(nodes, effects);
+    this.updateTrack(trackId, { effects });
+  }
+
+  /**
+   * Applies a mix to the current set, gliding so the playing mix changes
+   * without clicks. Passing null restores the manifest and global defaults.
+   */
+  applyMix(mix: MusicSetMix | null): void {
+    const musicSet = this.getMusicSet();
+    const musicSetData = this.getCurrentMusicSetData();
+    if (!musicSet || !musicSetData) return;
+
+    const tracks = mix
+      ? applyMixToTrackStates(this.state.tracks, mix)
+      : createTrackStates(musicSet, this.config.defaultSettings);
+
+    const { rampTime } = getAutomationSettings();
+    tracks.forEach((state) => {
+      const nodes = musicSetData.nodes.get(state.id);
+      if (nodes) applyTrackState(nodes, state, rampTime);
+    });
+
+    this.update({ tracks });
+  }
+}
+
+/** Engine shared by the site, created on first use */
+let sharedEngine: AudioEngine | null = null;
+
+/**
+ * Gets the audio engine shared by the site (the one AudioStateProvider
+ * exposes to components).
+ */
+export function getAudioEngine(): AudioEngine {
+  sharedEngine ??= new AudioEngine();
+  return sharedEngine;
+}
@@ -0,0 +1,140 @@
+import { MusicTrack } from "./types";
+
+/**
+ * Audio formats a track may be shipped in.
+ *
+ * Used by the audio-config route to discover sibling files, and by the
+ * client to pick which one to download. Not marked "use client" because the
+ * route imports it; browser-only helpers check for `document` first.
+ */
+
+/**
+ * A supported audio file format.
+ */
+export interface AudioFormat {
+  /** Lowercase file extension including the dot (e.g., ".opus") */
+  extension: string;
+  /** MIME type for canPlayType, with codecs where known */
+  mimeType: string;
+}
+
+/**
+ * Supported formats in order of preference: smallest lossy encodings first,
+ * lossless last so they are only fetched when nothing else plays.
+ */
+export const AUDIO_FORMATS: AudioFormat[] = [
+  { extension: ".opus", mimeType: 'audio/ogg; codecs="opus"' },
+  { extension: ".ogg", mimeType: 'audio/ogg; codecs="vorbis"' },
+  { extension: ".m4a", mimeType: 'audio/mp4; codecs="mp4a.40.2"' },
+  { extension: ".aac", mimeType: "audio/aac" },
+  { extension: ".mp3", mimeType: "audio/mpeg" },
+  { extension: ".flac", mimeType: "audio/flac" },
+  { extension: ".wav", mimeType: "audio/wav" },
+];
+
+/**
+ * Format used as a track's primary path when present, since every browser
+ * with Web Audio can decode it (notably Safari, which lacks Opus on older iOS).
+ */
+export const FALLBACK_AUDIO_FORMAT = ".mp3";
+
+/**
+ * Looks up the format of an audio file from its extension.
+ *
+ * @param file - File name or URL (e.g., "deactivator.opus")
+ * @returns The format, or null if the extension is not supported
+ */
+export function getAudioFormat(file: string): AudioFormat | null {
+  const extension = file.slice(file.lastIndexOf(".")).toLowerCase();
+  return AUDIO_FORMATS.find((format) => format.extension === extension) ?? null;
+}
+
+// canPlayType answers per MIME type; creating an element per query is wasteful
+const playableTypes = new Map<string, CanPlayTypeResult>();
+
+// Types the browser claimed to play but failed to decode
+const undecodableTypes = new Set<string>();
+
+// Files that failed to decode, by MIME type of their format
+const undecodableUrls = new Map<string, Set<string>>();
+
+/**
+ * Distinct files of one format that must fail to decode before the whole
+ * format is skipped, so a single corrupt file does not rule it out.
+ */
+const UNDECODABLE_FORMAT_THRESHOLD = 2;
+
+/**
+ * Asks the browser whether it can play a MIME type.
+ *
+ * @param type - MIME type, optionally with codecs
+ * @returns canPlayType result; "" outside the browser or after a decode failure
+ */
+function canPlayAudioType(type: string): CanPlayTypeResult {
+  if (undecodableTypes.has(type)) return "";
+
+  let result = playableTypes.get(type);
+  if (result === undefined) {
+    result =
+      typeof document === "undefined"
+        ? ""
+        : document.createElement("audio").canPlayType(type);
+    playableTypes.set(type, result);
+  }
+  return result;
+}
+
+/**
+ * Gets the URLs worth trying for a track, best first.
+ *
+ * Sources the browser reports "probably" come before "maybe", each group
+ * keeping the preference order from AUDIO_FORMATS. The track's primary path
+ * is always included last so loading can fall back to it.
+ *
+ * @param track - Track to load
+ * @returns Candidate URLs for loadAudioBuffer
+ */
+export function getTrackSourceCandidates(track: MusicTrack): string[] {
+  const rank = (type: string) =>
+    canPlayAudioType(type) === "probably" ? 2 : 1;
+
+  const urls = track.sources
+    .filter(
+      (source) =>
+        canPlayAudioType(source.type) !== "" &&
+        !undecodableUrls.get(source.type)?.has(source.path)
+    )
+    .sort((a, b) => rank(b.type) - rank(a.type))
+    .map((source) => source.path);
+
+  if (!urls.includes(track.path)) {
+    urls.push(track.path);
+  }
+  return urls;
+}
+
+/**
+ * Records that a file could not be decoded so later loads skip it. Once
+ * several files of the same format have failed, later tracks skip the whole
+ * format: canPlayType is only a hint; decodeAudioData is the real test.
+ *
+ * Only call this for decoder errors (EncodingError, NotSupportedError), not
+ * for failures unrelated to the file's contents.
+ *
+ * @param url - URL of the file that failed to decode
+ */
+export function markAudioSourceUndecodable(url: string): void {
+  const format = getAudioFormat(url);
+  if (!format) return;
+
+  let urls = undecodableUrls.get(format.mimeType);
+  if (!urls) {
+    urls = new Set();
+    undecodableUrls.set(format.mimeType, urls);
+  }
+  urls.add(url);
+
+  if (urls.size >= UNDECODABLE_FORMAT_THRESHOLD) {
+    undecodableTypes.add(format.mimeType);
+  }
+}
@@ -16,13 +16,28 @@ function getFallbackConfig(): AudioConfig {
  * starting volume and panning.
  *
  * @returns An object with default settings for the audio in the app. Controls
- * starting volume and panning.
+ * starting volume, panning, music set transitions, audio caching and master
+ * bus processing.
  */
 export function getAudioConfigDefaultSettings(): AudioConfigDefaultSettings {
   return {
     masterVolume: 0.5625, // 0.5625 is .75 applied linearly
     trackVolume: 0.25, // 0.25 is 0.5 applied linearly
     trackPan: 0,
+    panningMode: "stereo", // Spatial mode is opt-in; HRTF costs CPU per track
+    crossfadeDuration: 3,
+    crossfadeCurve: "equalPower",
+    quantize: "bar", // Only applies to sets with a BPM
+    parameterRampTime: 0.02, // Long enough to stop zipper noise on slider drags
+    muteFadeTime: 0.01,
+    bufferCacheSizeMB: 512, // Roughly two music sets of decoded stems
+    persistEncodedAudio: true,
+    prefetchAdjacentSets: false,
+    masterLimiterEnabled: true,
+    masterLimiterThreshold: -1, // dBFS, leaves headroom for inter-sample peaks
+    masterCompressorThreshold: -12,
+    masterCompressorRatio: 2, // Gentle glue; 1 turns the compressor off
+    masterEq: null,
   };
 }
 
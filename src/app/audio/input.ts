@@ -0,0 +1,192 @@
+"use client";
+
+import { decodeEncodedAudio } from "./loader";
+
+/**
+ * Inputs other than the music sets that the visuals can follow: a
+ * microphone, or an audio file from the visitor's device. Both feed the
+ * shared analyzer (see getAnalysisInput); a file is also played, a
+ * microphone never is.
+ */
+
+/**
+ * Why an input could not be used or stopped working.
+ * - permissionDenied: the visitor or browser refused microphone access
+ * - deviceUnavailable: no microphone, or it is busy or failed to start
+ * - deviceLost: the microphone was unplugged or its permission revoked
+ * - unsupported: the browser (or an insecure page) has no capture API
+ * - decodeFailed: the file is not audio the browser can decode
+ */
+export type AudioInputErrorReason =
+  | "permissionDenied"
+  | "deviceUnavailable"
+  | "deviceLost"
+  | "unsupported"
+  | "decodeFailed";
+
+/**
+ * Error from an analysis input. Unlike audio context errors these are
+ * recoverable: the visitor can fix the cause and retry, or go back to the
+ * music sets.
+ */
+export class AudioInputError extends Error {
+  constructor(
+    readonly reason: AudioInputErrorReason,
+    message: string,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = "AudioInputError";
+  }
+}
+
+/**
+ * An open input connected to the analyzer.
+ */
+export interface AudioInput {
+  /** Shown to the visitor (device label or file name) */
+  label: string;
+  /** Disconnects the input and releases the device or buffer */
+  close: () => void;
+}
+
+/**
+ * Maps a getUserMedia rejection to an input error.
+ */
+function getMicrophoneError(error: unknown): AudioInputError {
+  const name = error instanceof Error ? error.name : "";
+  switch (name) {
+    case "NotAllowedError":
+    case "SecurityError":
+      return new AudioInputError(
+        "permissionDenied",
+        "Microphone access was denied. Allow it in your browser's site settings and try again.",
+        { cause: error }
+      );
+    case "NotFoundError":
+    case "OverconstrainedError":
+      return new AudioInputError(
+        "deviceUnavailable",
+        "No microphone was found. Connect one and try again.",
+        { cause: error }
+      );
+    default:
+      return new AudioInputError(
+        "deviceUnavailable",
+        "The microphone could not be started. It may be in use by another application.",
+        { cause: error }
+      );
+  }
+}
+
+/**
+ * Opens the microphone and connects it to the analyzer input.
+ *
+ * Browser voice processing (echo cancellation, noise suppression, gain
+ * control) is turned off, as it distorts music.
+ *
+ * @param audioCtx - Shared audio context
+ * @param destination - Analyzer input to connect to (never the speakers)
+ * @param onLost - Called if the device goes away while open
+ * @returns The open input
+ * @throws AudioInputError if the microphone cannot be opened
+ */
+export async function openMicrophoneInput(
+  audioCtx: AudioContext,
+  destination: AudioNode,
+  onLost: (error: AudioInputError) => void
+): Promise<AudioInput> {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new AudioInputError(
+      "unsupported",
+      "This browser cannot capture audio here. Microphone input needs a secure (https) page."
+    );
+  }
+
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false,
+      },
+    });
+  } catch (error) {
+    throw getMicrophoneError(error);
+  }
+
+  const source = audioCtx.createMediaStreamSource(stream);
+  source.connect(destination);
+
+  const tracks = stream.getAudioTracks();
+  let isClosed = false;
+  const close = () => {
+    if (isClosed) return;
+    isClosed = true;
+    source.disconnect();
+    tracks.forEach((track) => {
+      track.removeEventListener("ended", handleEnded);
+      track.stop();
+    });
+  };
+
+  // Tracks end when the device is unplugged or permission is revoked
+  const handleEnded = () => {
+    close();
+    onLost(
+      new AudioInputError(
+        "deviceLost",
+        "The microphone was disconnected or its permission was revoked."
+      )
+    );
+  };
+  tracks.forEach((track) => track.addEventListener("ended", handleEnded));
+
+  return { label: tracks[0]?.label || "Microphone", close };
+}
+
+/**
+ * Decodes an audio file and plays it on a loop into the analyzer input and
+ * the speakers.
+ *
+ * @param audioCtx - Shared audio context
+ * @param file - File chosen or dropped by the visitor
+ * @param destinations - Analyzer input and output to connect to
+ * @returns The open input
+ * @throws AudioInputError if the file cannot be decoded
+ */
+export async function openFileInput(
+  audioCtx: AudioContext,
+  file: File,
+  destinations: AudioNode[]
+): Promise<AudioInput> {
+  let buffer: AudioBuffer;
+  try {
+    buffer = await decodeEncodedAudio(await file.arrayBuffer(), file.name);
+  } catch (error) {
+    throw new AudioInputError(
+      "decodeFailed",
+      `"${file.name}" could not be played. Try an MP3, WAV or Ogg file.`,
+      { cause: error }
+    );
+  }
+
+  const source = audioCtx.createBufferSource();
+  source.buffer = buffer;
+  source.loop = true;
+  destinations.forEach((destination) => source.connect(destination));
+  source.start();
+
+  return {
+    label: file.name,
+    close: () => {
+      try {
+        source.stop();
+      } catch (e) {
+        // Source may already be stopped
+      }
+      source.disconnect();
+    },
+  };
+}
@@ -1,37 +1,129 @@
 "use client";
 
 import { getAudioContext } from "./audio";
+import {
+  cacheAudioBuffer,
+  EncodedAudioVersion,
+  getAudioBufferCacheBudget,
+  getAudioBufferCacheUsage,
+  getCachedAudioBuffer,
+  persistEncodedAudio,
+  readPersistedAudio,
+} from "./bufferCache";
+import { markAudioSourceUndecodable } from "./formats";
+import { AudioLoadProgress } from "./types";
 
 /**
- * Loads an audio buffer from URL.
+ * Options for loading a single audio buffer.
+ */
+interface LoadAudioBufferOptions {
+  /** Signal that cancels the download (and skips decoding) when aborted */
+  signal?: AbortSignal;
+  /**
+   * Called as bytes arrive.
+   * @param loadedBytes - Bytes received so far
+   * @param totalBytes - Expected size in bytes, 0 if the server did not say
+   */
+  onProgress?: (loadedBytes: number, totalBytes: number) => void;
+}
+
+/**
+ * Options for loading several audio buffers at once.
+ */
+interface LoadMultipleAudioBuffersOptions {
+  /** Signal that cancels every download when aborted */
+  signal?: AbortSignal;
+  /** Called with per-track and aggregate progress whenever any track advances */
+  onProgress?: (progress: AudioLoadProgress) => void;
+  /**
+   * Called as soon as each buffer is decoded, in completion order, so
+   * playback can start before the slowest track finishes.
+   * @param index - Index of the URL the buffer was loaded from
+   * @param buffer - Decoded audio buffer
+   */
+  onBufferLoaded?: (index: number, buffer: AudioBuffer) => void;
+}
+
+/**
+ * Creates the error used to reject loads cancelled through an AbortSignal.
+ */
+const createAbortError = (url: string): DOMException =>
+  new DOMException(
+    `loadAudioBuffer - loading ${url} was aborted.`,
+    "AbortError"
+  );
+
+/**
+ * Checks whether an error came from a cancelled load.
  *
- * @param url URL pointing to audio files to load
- * @returns Promise that resolves to an AudioBuffer object
+ * @param error - Error thrown by loadAudioBuffer or loadMultipleAudioBuffers
+ * @returns true if the load was aborted rather than failed
+ */
+const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === "AbortError";
+
+/**
+ * Downloads encoded audio from URL.
+ *
+ * @param url URL pointing to the audio file
+ * @param options Optional abort signal and progress callback
+ * @returns Promise that resolves to the encoded bytes and the validators
+ * identifying their version
  */
-const loadAudioBuffer = (url: string): Promise<AudioBuffer> => {
+const requestEncodedAudio = (
+  url: string,
+  options: LoadAudioBufferOptions
+): Promise<{ data: ArrayBuffer; version: EncodedAudioVersion }> => {
+  const { signal, onProgress } = options;
+
   return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError(url));
+      return;
+    }
+
     const request = new XMLHttpRequest();
     request.open("GET", url, true);
     request.responseType = "arraybuffer";
 
+    const handleAbort = () => request.abort();
+    signal?.addEventListener("abort", handleAbort, { once: true });
+    const cleanup = () => signal?.removeEventListener("abort", handleAbort);
+
+    request.onprogress = (event) => {
+      onProgress?.(event.loaded, event.lengthComputable ? event.total : 0);
+    };
+
     request.onload = () => {
-      const audioCtx = getAudioContext();
-      if (!audioCtx) {
+      cleanup();
+
+      if (request.status < 200 || request.status >= 300) {
         reject(
           new Error(
-            "loadAudioBuffer - cannot complete loading audio buffer. No audio context exists to decode."
+            `loadAudioBuffer - Audio file loading failed. The url of ${url} responded with status ${request.status}.`
           )
         );
         return;
       }
-      audioCtx.decodeAudioData(
-        request.response,
-        (buffer) => resolve(buffer),
-        (error) => reject(new Error(`Error decoding audio data: ${error}`))
-      );
+
+      const data = request.response as ArrayBuffer;
+      onProgress?.(data.byteLength, data.byteLength);
+      resolve({
+        data,
+        version: {
+          etag: request.getResponseHeader("ETag"),
+          lastModified: request.getResponseHeader("Last-Modified"),
+        },
+      });
+    };
+
+    request.onabort = () => {
+      cleanup();
+      reject(createAbortError(url));
     };
 
     request.onerror = () => {
+      cleanup();
       reject(
         new Error(
           `loadAudioBuffer - Audio file loading failed. The url of ${url} could not be loaded.`
@@ -43,15 +135,318 @@ const loadAudioBuffer = (url: string): Promise<AudioBuffer> => {
   });
 };
 
+/**
+ * Decodes encoded audio with the shared audio context.
+ *
+ * @param data Encoded bytes (detached by the decoder)
+ * @param url URL the bytes came from, for error messages
+ * @param signal Optional signal; an abort during decoding rejects the result
+ * @returns Promise that resolves to the decoded AudioBuffer
+ */
+const decodeEncodedAudio = (
+  data: ArrayBuffer,
+  url: string,
+  signal?: AbortSignal
+): Promise<AudioBuffer> => {
+  return new Promise((resolve, reject) => {
+    const audioCtx = getAudioContext();
+    if (!audioCtx) {
+      reject(
+        new Error(
+          "loadAudioBuffer - cannot complete loading audio buffer. No audio context exists to decode."
+        )
+      );
+      return;
+    }
+
+    audioCtx.decodeAudioData(
+      data,
+      (buffer) => {
+        // The load may have been cancelled while decoding
+        if (signal?.aborted) {
+          reject(createAbortError(url));
+          return;
+        }
+        resolve(buffer);
+      },
+      (error) =>
+        reject(
+          new Error(`Error decoding audio data: ${error}`, { cause: error })
+        )
+    );
+  });
+};
+
+/**
+ * Checks whether a decode failure was the decoder rejecting the file's
+ * contents, as opposed to, e.g., there being no audio context to decode with.
+ *
+ * @param error Error thrown by decodeEncodedAudio
+ * @returns true for EncodingError and NotSupportedError from decodeAudioData
+ */
+const isUndecodableError = (error: unknown): boolean => {
+  const cause = error instanceof Error ? error.cause : undefined;
+  return (
+    cause instanceof DOMException &&
+    (cause.name === "EncodingError" || cause.name === "NotSupportedError")
+  );
+};
+
+/**
+ * Loads an audio buffer from a single URL.
+ *
+ * Decoded buffers are served from the in-memory cache when possible, and
+ * encoded bytes from Cache Storage before falling back to the network.
+ * Every buffer loaded here is added to the decoded buffer cache.
+ *
+ * @param url URL pointing to the audio file to load
+ * @param options Optional abort signal and progress callback
+ * @returns Promise that resolves to an AudioBuffer object
+ */
+const loadAudioBufferFromUrl = async (
+  url: string,
+  options: LoadAudioBufferOptions
+): Promise<AudioBuffer> => {
+  const { signal, onProgress } = options;
+
+  const cached = getCachedAudioBuffer(url);
+  if (cached) return cached;
+
+  if (signal?.aborted) throw createAbortError(url);
+
+  let data = await readPersistedAudio(url);
+  if (data) {
+    onProgress?.(data.byteLength, data.byteLength);
+  } else {
+    const response = await requestEncodedAudio(url, options);
+    data = response.data;
+    void persistEncodedAudio(url, data, response.version);
+  }
+
+  let buffer: AudioBuffer;
+  try {
+    buffer = await decodeEncodedAudio(data, url, signal);
+  } catch (error) {
+    if (isUndecodableError(error)) {
+      markAudioSourceUndecodable(url);
+    }
+    throw error;
+  }
+
+  cacheAudioBuffer(url, buffer);
+  return buffer;
+};
+
+/**
+ * Loads an audio buffer from URL, or from the first of several candidate
+ * URLs (e.g., the same track in different formats) that loads and decodes.
+ *
+ * A candidate already in the decoded buffer cache is used regardless of its
+ * position. Otherwise candidates are tried in order, moving on when one fails
+ * to download or decode. Aborting stops immediately.
+ *
+ * @param source URL, or candidate URLs in order of preference
+ * @param options Optional abort signal and progress callback
+ * @returns Promise that resolves to an AudioBuffer object
+ */
+const loadAudioBuffer = async (
+  source: string | string[],
+  options: LoadAudioBufferOptions = {}
+): Promise<AudioBuffer> => {
+  const urls = typeof source === "string" ? [source] : source;
+
+  for (const url of urls) {
+    const cached = getCachedAudioBuffer(url);
+    if (cached) return cached;
+  }
+
+  let lastError: unknown = new Error(
+    "loadAudioBuffer - cannot load audio buffer. No URLs were given."
+  );
+  for (const [index, url] of urls.entries()) {
+    try {
+      return await loadAudioBufferFromUrl(url, options);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+
+      lastError = error;
+      if (index < urls.length - 1) {
+        console.warn(
+          `loadAudioBuffer - unable to load ${url}, trying ${urls[index + 1]}:`,
+          error
+        );
+      }
+    }
+  }
+  throw lastError;
+};
+
 /**
  * Loads multiple audio buffers from an array of URLs.
+ * Each entry may also be a list of candidate URLs (see loadAudioBuffer).
  *
- * @param urls - Array of URLs pointing to audio files to load
+ * All downloads run in parallel. Progress is reported per track and in
+ * aggregate, and each buffer is handed to `onBufferLoaded` as soon as it is
+ * decoded. If any track fails, the remaining downloads are aborted.
+ *
+ * @param urls - Array of URLs (or candidate URL lists) pointing to audio files to load
+ * @param options - Optional abort signal and progress/loaded callbacks
  * @returns Promise that resolves to an array of AudioBuffer objects
  */
-const loadMultipleAudioBuffers = (urls: string[]): Promise<AudioBuffer[]> => {
-  const bufferPromises = urls.map((url) => loadAudioBuffer(url));
-  return Promise.all(bufferPromises);
+const loadMultipleAudioBuffers = (
+  urls: (string | string[])[],
+  options: LoadMultipleAudioBuffersOptions = {}
+): Promise<AudioBuffer[]> => {
+  const { signal, onProgress, onBufferLoaded } = options;
+
+  // Abort sibling downloads if one track fails or the caller cancels
+  const controller = new AbortController();
+  const handleAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal?.addEventListener("abort", handleAbort, { once: true });
+  }
+
+  const progress: AudioLoadProgress = {
+    tracks: urls.map(() => ({ loadedBytes: 0, totalBytes: 0, decoded: false })),
+    loadedBytes: 0,
+    totalBytes: 0,
+    percent: 0,
+  };
+
+  const reportProgress = () => {
+    progress.loadedBytes = progress.tracks.reduce(
+      (sum, track) => sum + track.loadedBytes,
+      0
+    );
+    progress.totalBytes = progress.tracks.reduce(
+      (sum, track) => sum + track.totalBytes,
+      0
+    );
+
+    // Average per-track fractions so tracks without a known size still count
+    const fractionSum = progress.tracks.reduce((sum, track) => {
+      if (track.decoded) return sum + 1;
+      if (track.totalBytes <= 0) return sum;
+      return sum + Math.min(1, track.loadedBytes / track.totalBytes);
+    }, 0);
+    progress.percent =
+      urls.length > 0 ? (fractionSum / urls.length) * 100 : 100;
+
+    onProgress?.({ ...progress, tracks: [...progress.tracks] });
+  };
+
+  const bufferPromises = urls.map((url, index) =>
+    loadAudioBuffer(url, {
+      signal: controller.signal,
+      onProgress: (loadedBytes, totalBytes) => {
+        progress.tracks[index] = {
+          ...progress.tracks[index],
+          loadedBytes,
+          totalBytes,
+        };
+        reportProgress();
+      },
+    }).then((buffer) => {
+      progress.tracks[index] = { ...progress.tracks[index], decoded: true };
+      reportProgress();
+      onBufferLoaded?.(index, buffer);
+      return buffer;
+    })
+  );
+
+  return Promise.all(bufferPromises)
+    .catch((error) => {
+      controller.abort();
+      throw error;
+    })
+    .finally(() => {
+      signal?.removeEventListener("abort", handleAbort);
+    });
+};
+
+/**
+ * Share of the decoded buffer budget prefetching may fill. The rest is left
+ * for sets the user actually picks so prefetching never evicts them.
+ */
+const PREFETCH_BUDGET_SHARE = 0.75;
+
+/**
+ * Resolves when the browser is idle (or after a short delay where
+ * requestIdleCallback is not supported, e.g. Safari).
+ *
+ * @param signal Optional signal that rejects the wait when aborted
+ */
+const waitForIdle = (signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError("prefetch"));
+      return;
+    }
+
+    const handleAbort = () => {
+      if (typeof cancelIdleCallback === "function") {
+        cancelIdleCallback(handle);
+      } else {
+        clearTimeout(handle);
+      }
+      reject(createAbortError("prefetch"));
+    };
+    const handleIdle = () => {
+      signal?.removeEventListener("abort", handleAbort);
+      resolve();
+    };
+
+    const handle: number =
+      typeof requestIdleCallback === "function"
+        ? requestIdleCallback(handleIdle)
+        : window.setTimeout(handleIdle, 200);
+    signal?.addEventListener("abort", handleAbort, { once: true });
+  });
+};
+
+/**
+ * Loads audio buffers into the cache one at a time while the browser is idle.
+ *
+ * Stops early once the decoded buffer cache is mostly full, when a track
+ * fails, or when the signal is aborted. Failures are logged, never thrown.
+ *
+ * @param urls - URLs (or candidate URL lists) of the audio files to prefetch
+ * @param signal - Optional signal that cancels the remaining prefetches
+ */
+const prefetchAudioBuffers = async (
+  urls: (string | string[])[],
+  signal?: AbortSignal
+): Promise<void> => {
+  for (const url of urls) {
+    const candidates = typeof url === "string" ? [url] : url;
+    if (candidates.some((candidate) => getCachedAudioBuffer(candidate))) {
+      continue;
+    }
+
+    const budget = getAudioBufferCacheBudget() * PREFETCH_BUDGET_SHARE;
+    if (getAudioBufferCacheUsage() >= budget) return;
+
+    try {
+      await waitForIdle(signal);
+      await loadAudioBuffer(url, { signal });
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.warn(
+          `prefetchAudioBuffers - unable to prefetch ${candidates[0]}:`,
+          error
+        );
+      }
+      return;
+    }
+  }
 };
 
-export { loadAudioBuffer, loadMultipleAudioBuffers };
+export {
+  decodeEncodedAudio,
+  loadAudioBuffer,
+  loadMultipleAudioBuffers,
+  prefetchAudioBuffers,
+  isAbortError,
+};
@@ -0,0 +1,325 @@
+import { barsToSeconds } from "./tempo";
+import {
+  MusicSetCredit,
+  MusicSetLoopPoints,
+  MusicSetTimeSignature,
+  MusicTrackPosition,
+} from "./types";
+
+/**
+ * File name of the optional manifest inside each public/audio/<set>/ directory.
+ */
+export const MUSIC_SET_MANIFEST_FILENAME = "set.json";
+
+/**
+ * A track entry in a music set manifest.
+ */
+export interface MusicSetManifestTrack {
+  /**
+   * Audio file name within the set directory (e.g., "deactivator.mp3").
+   * Files with the same name in other formats become alternative sources.
+   */
+  file: string;
+  /** Optional stable track ID (default: file name without extension) */
+  id?: string;
+  /** Optional display name (default: capitalized ID) */
+  name?: string;
+  /** Optional accent colour (any CSS colour) */
+  color?: string;
+  /** Optional starting volume (0-1) */
+  volume?: number;
+  /** Optional starting pan (-1 to 1) */
+  pan?: number;
+  /**
+   * Optional starting position on the spatial stage, each axis -1 to 1
+   * (e.g., `{ "x": -0.5, "y": 1 }` is front left)
+   */
+  position?: MusicTrackPosition;
+}
+
+/**
+ * Loop region in a manifest. Positions are seconds unless `unit` is "bars",
+ * in which case they count bars from 0 at the start of the set (e.g.,
+ * `{ "start": 4, "end": 12, "unit": "bars" }` repeats bars 5 to 12) and the
+ * manifest must give a BPM.
+ */
+export interface MusicSetManifestLoop extends MusicSetLoopPoints {
+  /** Unit of start and end (default: "seconds") */
+  unit?: "seconds" | "bars";
+}
+
+/**
+ * Shape of a public/audio/<set>/set.json manifest.
+ *
+ * Every field except `id` is optional; anything omitted falls back to the
+ * values derived from the directory and file names.
+ */
+export interface MusicSetManifest {
+  /** Stable numeric ID, unique across all sets */
+  id: number;
+  /** Optional user-facing display name */
+  displayName?: string;
+  /** Optional accent colour (any CSS colour) */
+  color?: string;
+  /** Optional tempo in beats per minute */
+  bpm?: number;
+  /** Optional time signature (default: 4/4) */
+  timeSignature?: MusicSetTimeSignature;
+  /** Optional musical key (e.g., "A minor") */
+  key?: string;
+  /** Optional artist shown by OS media controls (default: first credit) */
+  artist?: string;
+  /**
+   * Optional cover image shown by OS media controls: a file name within the
+   * set directory, a site path ("/images/…") or an absolute URL
+   */
+  artwork?: string;
+  /** Optional loop region, in seconds or bars */
+  loop?: MusicSetManifestLoop;
+  /** Optional credits */
+  credits?: MusicSetCredit[];
+  /** Optional ordered track list; when omitted every audio file is used */
+  tracks?: MusicSetManifestTrack[];
+}
+
+/**
+ * Thrown when a manifest is not valid JSON or does not match MusicSetManifest.
+ * Carries every problem found so they can be fixed in one pass.
+ */
+export class MusicSetManifestError extends Error {
+  constructor(
+    readonly setName: string,
+    readonly issues: string[]
+  ) {
+    super(
+      `Invalid ${MUSIC_SET_MANIFEST_FILENAME} for music set "${setName}": ${issues.join("; ")}`
+    );
+    this.name = "MusicSetManifestError";
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Checks an optional string field, recording an issue if present but invalid.
+ */
+function checkOptionalString(
+  source: Record<string, unknown>,
+  field: string,
+  label: string,
+  issues: string[]
+): void {
+  const value = source[field];
+  if (value !== undefined && (typeof value !== "string" || value === "")) {
+    issues.push(`${label} must be a non-empty string`);
+  }
+}
+
+/**
+ * Checks an optional numeric field against an inclusive range.
+ */
+function checkOptionalNumber(
+  source: Record<string, unknown>,
+  field: string,
+  label: string,
+  min: number,
+  max: number,
+  issues: string[]
+): void {
+  const value = source[field];
+  if (value === undefined) return;
+  if (!isFiniteNumber(value) || value < min || value > max) {
+    issues.push(`${label} must be a number from ${min} to ${max}`);
+  }
+}
+
+/**
+ * Validates the parsed contents of a set.json manifest.
+ *
+ * @param raw - Parsed JSON value
+ * @param setName - Directory name of the set (for error messages)
+ * @param availableFiles - Audio files present in the set directory
+ * @returns The manifest, typed
+ * @throws MusicSetManifestError listing every problem found
+ */
+export function validateMusicSetManifest(
+  raw: unknown,
+  setName: string,
+  availableFiles: string[]
+): MusicSetManifest {
+  const issues: string[] = [];
+
+  if (!isObject(raw)) {
+    throw new MusicSetManifestError(setName, [
+      "manifest must be a JSON object",
+    ]);
+  }
+
+  if (!Number.isInteger(raw.id) || (raw.id as number) < 1) {
+    issues.push("id must be a positive integer");
+  }
+
+  checkOptionalString(raw, "displayName", "displayName", issues);
+  checkOptionalString(raw, "color", "color", issues);
+  checkOptionalString(raw, "key", "key", issues);
+  checkOptionalString(raw, "artist", "artist", issues);
+  checkOptionalString(raw, "artwork", "artwork", issues);
+  checkOptionalNumber(raw, "bpm", "bpm", 1, 999, issues);
+
+  if (raw.timeSignature !== undefined) {
+    const timeSignature = raw.timeSignature;
+    if (
+      !isObject(timeSignature) ||
+      !Number.isInteger(timeSignature.beatsPerBar) ||
+      (timeSignature.beatsPerBar as number) < 1 ||
+      (timeSignature.beatsPerBar as number) > 32 ||
+      ![1, 2, 4, 8, 16, 32].includes(timeSignature.beatUnit as number)
+    ) {
+      issues.push(
+        "timeSignature must be { beatsPerBar, beatUnit } with 1-32 beats per bar and a beat unit of 1, 2, 4, 8, 16 or 32"
+      );
+    }
+  }
+
+  if (raw.loop !== undefined) {
+    const loop = raw.loop;
+    if (
+      !isObject(loop) ||
+      !isFiniteNumber(loop.start) ||
+      !isFiniteNumber(loop.end) ||
+      loop.start < 0 ||
+      loop.end <= loop.start
+    ) {
+      issues.push("loop must be { start, end } with 0 <= start < end");
+    } else if (
+      loop.unit !== undefined &&
+      loop.unit !== "seconds" &&
+      loop.unit !== "bars"
+    ) {
+      issues.push('loop.unit must be "seconds" or "bars"');
+    } else if (loop.unit === "bars" && raw.bpm === undefined) {
+      issues.push("loop in bars requires a bpm");
+    }
+  }
+
+  if (raw.credits !== undefined) {
+    if (!Array.isArray(raw.credits)) {
+      issues.push("credits must be an array");
+    } else {
+      raw.credits.forEach((credit, index) => {
+        const label = `credits[${index}]`;
+        if (!isObject(credit) || typeof credit.name !== "string") {
+          issues.push(`${label}.name must be a string`);
+          return;
+        }
+        checkOptionalString(credit, "role", `${label}.role`, issues);
+        checkOptionalString(credit, "url", `${label}.url`, issues);
+      });
+    }
+  }
+
+  if (raw.tracks !== undefined) {
+    if (!Array.isArray(raw.tracks) || raw.tracks.length === 0) {
+      issues.push("tracks must be a non-empty array");
+    } else {
+      const seenIds = new Set<string>();
+      raw.tracks.forEach((track, index) => {
+        const label = `tracks[${index}]`;
+        if (!isObject(track)) {
+          issues.push(`${label} must be an object`);
+          return;
+        }
+
+        if (typeof track.file !== "string") {
+          issues.push(`${label}.file must be a string`);
+        } else if (!availableFiles.includes(track.file)) {
+          issues.push(`${label}.file "${track.file}" does not exist`);
+        }
+
+        checkOptionalString(track, "id", `${label}.id`, issues);
+        checkOptionalString(track, "name", `${label}.name`, issues);
+        checkOptionalString(track, "color", `${label}.color`, issues);
+        checkOptionalNumber(track, "volume", `${label}.volume`, 0, 1, issues);
+        checkOptionalNumber(track, "pan", `${label}.pan`, -1, 1, issues);
+        if (track.position !== undefined) {
+          const position = track.position;
+          if (
+            !isObject(position) ||
+            !isFiniteNumber(position.x) ||
+            !isFiniteNumber(position.y) ||
+            Math.abs(position.x) > 1 ||
+            Math.abs(position.y) > 1
+          ) {
+            issues.push(
+              `${label}.position must be { x, y } with each between -1 and 1`
+            );
+          }
+        }
+
+        const id =
+          typeof track.id === "string"
+            ? track.id
+            : typeof track.file === "string"
+              ? getTrackIdFromFile(track.file)
+              : null;
+        if (id !== null) {
+          if (seenIds.has(id)) {
+            issues.push(`${label} has duplicate track id "${id}"`);
+          }
+          seenIds.add(id);
+        }
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new MusicSetManifestError(setName, issues);
+  }
+
+  return raw as unknown as MusicSetManifest;
+}
+
+/**
+ * Resolves a manifest's loop region to seconds.
+ *
+ * @param manifest - Validated manifest
+ * @returns Loop region in seconds, or undefined if the manifest has none
+ */
+export function getManifestLoopPoints(
+  manifest: MusicSetManifest
+): MusicSetLoopPoints | undefined {
+  const { loop, bpm, timeSignature } = manifest;
+  if (!loop) return undefined;
+
+  if (loop.unit === "bars" && bpm) {
+    return {
+      start: barsToSeconds(loop.start, bpm, timeSignature),
+      end: barsToSeconds(loop.end, bpm, timeSignature),
+    };
+  }
+  return { start: loop.start, end: loop.end };
+}
+
+/**
+ * Derives a track ID from an audio file name by removing the extension.
+ *
+ * @param file - Audio file name (e.g., "deactivator.mp3")
+ * @returns Track ID (e.g., "deactivator")
+ */
+export function getTrackIdFromFile(file: string): string {
+  return file.replace(/\.[^.]+$/, "");
+}
+
+/**
+ * Capitalizes the first letter of a name for display.
+ *
+ * @param name - Directory or track ID
+ * @returns Name with its first letter capitalized
+ */
+export function capitalizeName(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
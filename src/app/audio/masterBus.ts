@@ -0,0 +1,171 @@
+"use client";
+
+import { AudioConfigDefaultSettings } from "./types";
+
+/** Corner frequency (Hz) of the master low shelf */
+const EQ_LOW_FREQUENCY = 120;
+/** Centre frequency (Hz) of the master mid band */
+const EQ_MID_FREQUENCY = 1000;
+/** Corner frequency (Hz) of the master high shelf */
+const EQ_HIGH_FREQUENCY = 8000;
+
+/** Limiter ratio; high enough to act as a ceiling */
+const LIMITER_RATIO = 20;
+/** Limiter attack in seconds; as fast as DynamicsCompressorNode allows */
+const LIMITER_ATTACK = 0.001;
+/** Limiter release in seconds */
+const LIMITER_RELEASE = 0.1;
+
+/** Compressor knee in dB; soft so the compression is unobtrusive */
+const COMPRESSOR_KNEE = 6;
+/** Compressor attack in seconds; slow enough to let transients through */
+const COMPRESSOR_ATTACK = 0.01;
+/** Compressor release in seconds */
+const COMPRESSOR_RELEASE = 0.25;
+
+/** FFT size of the meters; long enough to cover the time between meter reads */
+const METER_FFT_SIZE = 4096;
+
+/**
+ * Settings that control the master bus (see AudioConfigDefaultSettings).
+ */
+export type MasterBusSettings = Pick<
+  AudioConfigDefaultSettings,
+  | "masterLimiterEnabled"
+  | "masterLimiterThreshold"
+  | "masterCompressorThreshold"
+  | "masterCompressorRatio"
+  | "masterEq"
+>;
+
+/**
+ * Web Audio nodes of the master bus.
+ *
+ * Node graph:
+ * input → eqLow → eqMid → eqHigh → compressor → limiter → destination
+ * with the limiter output also feeding the meters:
+ * limiter → meter
+ * limiter → kWeightingShelf → kWeightingHighpass → loudnessMeter
+ */
+export interface MasterBusNodes {
+  /** BiquadFilterNode (lowshelf) - master EQ low band */
+  eqLow: BiquadFilterNode;
+  /** BiquadFilterNode (peaking) - master EQ mid band */
+  eqMid: BiquadFilterNode;
+  /** BiquadFilterNode (highshelf) - master EQ high band */
+  eqHigh: BiquadFilterNode;
+  /** DynamicsCompressorNode - gentle bus compression */
+  compressor: DynamicsCompressorNode;
+  /** DynamicsCompressorNode - fast, high-ratio limiter */
+  limiter: DynamicsCompressorNode;
+  /** AnalyserNode - output level for peak/RMS metering */
+  meter: AnalyserNode;
+  /** AnalyserNode - K-weighted output for loudness metering */
+  loudnessMeter: AnalyserNode;
+}
+
+/**
+ * Creates the master bus between the master gain and the destination.
+ *
+ * @param audioCtx - Audio context to create nodes in
+ * @param input - Node feeding the bus (the master gain)
+ * @param settings - Limiter, compressor and EQ settings
+ * @returns Master bus nodes
+ */
+export function createMasterBus(
+  audioCtx: BaseAudioContext,
+  input: AudioNode,
+  settings: MasterBusSettings
+): MasterBusNodes {
+  const eqLow = audioCtx.createBiquadFilter();
+  eqLow.type = "lowshelf";
+  eqLow.frequency.value = EQ_LOW_FREQUENCY;
+
+  const eqMid = audioCtx.createBiquadFilter();
+  eqMid.type = "peaking";
+  eqMid.frequency.value = EQ_MID_FREQUENCY;
+
+  const eqHigh = audioCtx.createBiquadFilter();
+  eqHigh.type = "highshelf";
+  eqHigh.frequency.value = EQ_HIGH_FREQUENCY;
+
+  const compressor = audioCtx.createDynamicsCompressor();
+  compressor.knee.value = COMPRESSOR_KNEE;
+  compressor.attack.value = COMPRESSOR_ATTACK;
+  compressor.release.value = COMPRESSOR_RELEASE;
+
+  const limiter = audioCtx.createDynamicsCompressor();
+  limiter.knee.value = 0;
+  limiter.attack.value = LIMITER_ATTACK;
+  limiter.release.value = LIMITER_RELEASE;
+
+  const meter = audioCtx.createAnalyser();
+  meter.fftSize = METER_FFT_SIZE;
+
+  // Two-stage approximation of the ITU-R BS.1770 K-weighting filter
+  const kWeightingShelf = audioCtx.createBiquadFilter();
+  kWeightingShelf.type = "highshelf";
+  kWeightingShelf.frequency.value = 1500;
+  kWeightingShelf.gain.value = 4;
+
+  const kWeightingHighpass = audioCtx.createBiquadFilter();
+  kWeightingHighpass.type = "highpass";
+  kWeightingHighpass.frequency.value = 38;
+  kWeightingHighpass.Q.value = 0.5;
+
+  const loudnessMeter = audioCtx.createAnalyser();
+  loudnessMeter.fftSize = METER_FFT_SIZE;
+
+  // Connect the chain: input → EQ → compressor → limiter → destination
+  input.connect(eqLow);
+  eqLow.connect(eqMid);
+  eqMid.connect(eqHigh);
+  eqHigh.connect(compressor);
+  compressor.connect(limiter);
+  limiter.connect(audioCtx.destination);
+
+  // Tap the output for metering
+  limiter.connect(meter);
+  limiter.connect(kWeightingShelf);
+  kWeightingShelf.connect(kWeightingHighpass);
+  kWeightingHighpass.connect(loudnessMeter);
+
+  const nodes: MasterBusNodes = {
+    eqLow,
+    eqMid,
+    eqHigh,
+    compressor,
+    limiter,
+    meter,
+    loudnessMeter,
+  };
+  configureMasterBus(nodes, settings);
+
+  return nodes;
+}
+
+/**
+ * Applies limiter, compressor and EQ settings to the master bus.
+ * Disabled stages are left in the graph but made transparent.
+ *
+ * @param nodes - Master bus nodes
+ * @param settings - Settings to apply
+ */
+export function configureMasterBus(
+  nodes: MasterBusNodes,
+  settings: MasterBusSettings
+): void {
+  const { masterEq } = settings;
+  nodes.eqLow.gain.value = masterEq?.low ?? 0;
+  nodes.eqMid.gain.value = masterEq?.mid ?? 0;
+  nodes.eqHigh.gain.value = masterEq?.high ?? 0;
+
+  nodes.compressor.threshold.value = settings.masterCompressorThreshold;
+  nodes.compressor.ratio.value = Math.max(1, settings.masterCompressorRatio);
+
+  // A 1:1 ratio at 0 dBFS leaves the signal untouched
+  nodes.limiter.threshold.value = settings.masterLimiterEnabled
+    ? settings.masterLimiterThreshold
+    : 0;
+  nodes.limiter.ratio.value = settings.masterLimiterEnabled ? LIMITER_RATIO : 1;
+}
@@ -0,0 +1,78 @@
+/**
+ * Level calculations for the master meter. Pure functions over sample
+ * blocks so they can be used with any AnalyserNode (or without one).
+ */
+
+/** Lowest level the meters report, in dB; silence is clamped to this */
+export const METER_FLOOR_DB = -96;
+
+/** Offset from mean square power to LUFS defined by ITU-R BS.1770 */
+const LOUDNESS_OFFSET = -0.691;
+
+/**
+ * Peak and power of a block of samples.
+ */
+export interface SampleBlockLevels {
+  /** Largest absolute sample value (linear) */
+  peak: number;
+  /** Mean of the squared samples (linear power) */
+  meanSquare: number;
+}
+
+/**
+ * Measures the peak and mean square of a block of samples.
+ *
+ * @param samples - Time-domain samples (-1 to 1)
+ * @returns Linear peak and mean square
+ */
+export function measureSampleBlock(samples: Float32Array): SampleBlockLevels {
+  let peak = 0;
+  let sumOfSquares = 0;
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = samples[i];
+    peak = Math.max(peak, Math.abs(sample));
+    sumOfSquares += sample * sample;
+  }
+
+  return {
+    peak,
+    meanSquare: samples.length > 0 ? sumOfSquares / samples.length : 0,
+  };
+}
+
+/**
+ * Converts a linear amplitude to decibels relative to full scale.
+ *
+ * @param amplitude - Linear amplitude (1 = 0 dBFS)
+ * @returns Level in dBFS, never below METER_FLOOR_DB
+ */
+export function amplitudeToDecibels(amplitude: number): number {
+  if (amplitude <= 0) return METER_FLOOR_DB;
+  return Math.max(METER_FLOOR_DB, 20 * Math.log10(amplitude));
+}
+
+/**
+ * Converts a linear mean square power to decibels relative to full scale.
+ *
+ * @param meanSquare - Mean square power
+ * @returns Level in dBFS, never below METER_FLOOR_DB
+ */
+export function powerToDecibels(meanSquare: number): number {
+  if (meanSquare <= 0) return METER_FLOOR_DB;
+  return Math.max(METER_FLOOR_DB, 10 * Math.log10(meanSquare));
+}
+
+/**
+ * Converts the mean square power of K-weighted samples to loudness.
+ *
+ * @param meanSquare - Mean square power of K-weighted samples
+ * @returns Loudness in LUFS, never below METER_FLOOR_DB
+ */
+export function powerToLoudness(meanSquare: number): number {
+  if (meanSquare <= 0) return METER_FLOOR_DB;
+  return Math.max(
+    METER_FLOOR_DB,
+    LOUDNESS_OFFSET + 10 * Math.log10(meanSquare)
+  );
+}
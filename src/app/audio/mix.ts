@@ -0,0 +1,575 @@
+"use client";
+
+import {
+  DEFAULT_TRACK_EFFECTS,
+  getDefaultTrackPosition,
+  TRACK_EQ_RANGE_DB,
+} from "./tracks";
+import {
+  AudioConfigDefaultSettings,
+  MusicSets,
+  MusicTrackEffects,
+  MusicTrackPosition,
+  MusicTrackState,
+} from "./types";
+
+/**
+ * Mixes are the user-adjustable part of MusicTrackState: volume, pan, stage
+ * position, mute/solo and effects. They can be saved as named snapshots per
+ * music set in localStorage, and encoded into a URL hash to share.
+ */
+
+/** localStorage key holding every saved snapshot. Bump the version on format changes. */
+const MIX_SNAPSHOTS_STORAGE_KEY = "norstep-mix-snapshots-v1";
+
+/** URL hash parameter carrying a shared mix (e.g. "#mix=2.AYCA...") */
+const MIX_HASH_PARAM = "mix";
+
+/** Version byte at the start of an encoded mix */
+const MIX_ENCODING_VERSION = 2;
+
+/**
+ * Bytes per track in an encoded mix, by version. Version 1 links predate
+ * stage positions and are still accepted.
+ */
+const MIX_ENCODING_TRACK_BYTES: Record<number, number> = { 1: 9, 2: 11 };
+
+/**
+ * Mix settings for a single track. position is optional: mixes saved before
+ * stage positions existed have none.
+ */
+export type TrackMix = Pick<
+  MusicTrackState,
+  "volume" | "pan" | "isMuted" | "isSolo" | "effects"
+> & {
+  position?: MusicTrackPosition;
+};
+
+/**
+ * Mix settings for every track in a set, keyed by track ID.
+ */
+export type MusicSetMix = Record<string, TrackMix>;
+
+/**
+ * A named, saved mix of a music set.
+ */
+export interface MixSnapshot {
+  /** User-chosen name, unique within the set */
+  name: string;
+  /** When the snapshot was saved (ms since epoch) */
+  savedAt: number;
+  /** Mix settings by track ID */
+  mix: MusicSetMix;
+}
+
+/**
+ * Captures the mix from the current track states.
+ *
+ * @param tracks - Current track states
+ * @returns Mix settings by track ID
+ */
+export function captureMix(tracks: MusicTrackState[]): MusicSetMix {
+  return Object.fromEntries(
+    tracks.map((track) => [
+      track.id,
+      {
+        volume: track.volume,
+        pan: track.pan,
+        position: { ...track.position },
+        isMuted: track.isMuted,
+        isSolo: track.isSolo,
+        effects: { ...track.effects },
+      },
+    ])
+  );
+}
+
+/**
+ * Creates track states for a music set, using the manifest and global
+ * defaults for anything the mix does not cover.
+ *
+ * @param musicSet - Music set to create states for
+ * @param defaultSettings - Global defaults (track volume and pan)
+ * @param mix - Optional mix to apply
+ * @returns Track states in set order, with isEffectivelyMuted computed
+ */
+export function createTrackStates(
+  musicSet: MusicSets,
+  defaultSettings: AudioConfigDefaultSettings,
+  mix: MusicSetMix = {}
+): MusicTrackState[] {
+  const tracks: MusicTrackState[] = musicSet.tracks.map((track) => {
+    const trackMix = mix[track.id];
+    const pan = trackMix?.pan ?? track.defaultPan ?? defaultSettings.trackPan;
+    return {
+      id: track.id,
+      name: track.name,
+      isMuted: trackMix?.isMuted ?? false,
+      isSolo: trackMix?.isSolo ?? false,
+      isEffectivelyMuted: false,
+      volume:
+        trackMix?.volume ?? track.defaultVolume ?? defaultSettings.trackVolume,
+      pan,
+      // Mixes saved before stage positions existed have none
+      position:
+        trackMix?.position ??
+        track.defaultPosition ??
+        getDefaultTrackPosition(pan),
+      effects: { ...DEFAULT_TRACK_EFFECTS, ...trackMix?.effects },
+    };
+  });
+
+  return updateEffectiveMutes(tracks);
+}
+
+/**
+ * Applies a mix to existing track states. Tracks missing from the mix keep
+ * their current settings.
+ *
+ * @param tracks - Current track states
+ * @param mix - Mix to apply
+ * @returns New track states with isEffectivelyMuted recomputed
+ */
+export function applyMixToTrackStates(
+  tracks: MusicTrackState[],
+  mix: MusicSetMix
+): MusicTrackState[] {
+  return updateEffectiveMutes(
+    tracks.map((track) => {
+      const trackMix = mix[track.id];
+      return trackMix
+        ? { ...track, ...trackMix, effects: { ...trackMix.effects } }
+        : track;
+    })
+  );
+}
+
+/**
+ * Recomputes isEffectivelyMuted (muted, or another track is soloed).
+ *
+ * @param tracks - Track states
+ * @returns New track states
+ */
+function updateEffectiveMutes(tracks: MusicTrackState[]): MusicTrackState[] {
+  const anySoloActive = tracks.some((track) => track.isSolo);
+  return tracks.map((track) => ({
+    ...track,
+    isEffectivelyMuted: track.isMuted || (anySoloActive && !track.isSolo),
+  }));
+}
+
+/**
+ * Clamps a stored number to a range.
+ *
+ * @returns The clamped number, or undefined if the value is not a number
+ */
+const parseNumber = (
+  value: unknown,
+  min: number,
+  max: number
+): number | undefined =>
+  typeof value === "number" && Number.isFinite(value)
+    ? Math.max(min, Math.min(max, value))
+    : undefined;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Validates a stored track mix.
+ *
+ * @param value - Parsed JSON
+ * @returns The mix with values clamped to their ranges and missing effects
+ * defaulted, or null if the required fields are missing. position is left
+ * out when absent or invalid, so the track's default applies.
+ */
+function parseTrackMix(value: unknown): TrackMix | null {
+  if (!isRecord(value)) return null;
+
+  const volume = parseNumber(value.volume, 0, 1);
+  const pan = parseNumber(value.pan, -1, 1);
+  if (
+    volume === undefined ||
+    pan === undefined ||
+    typeof value.isMuted !== "boolean" ||
+    typeof value.isSolo !== "boolean"
+  ) {
+    return null;
+  }
+
+  const effects = isRecord(value.effects) ? value.effects : {};
+  const range = (key: keyof MusicTrackEffects, min: number, max: number) =>
+    parseNumber(effects[key], min, max) ?? DEFAULT_TRACK_EFFECTS[key];
+
+  const position = isRecord(value.position) ? value.position : {};
+  const x = parseNumber(position.x, -1, 1);
+  const y = parseNumber(position.y, -1, 1);
+
+  // Like mixes saved before stage positions existed, a mix without a valid
+  // position omits it so applying the mix keeps the track's position
+  return {
+    volume,
+    pan,
+    isMuted: value.isMuted,
+    isSolo: value.isSolo,
+    ...(x !== undefined && y !== undefined && { position: { x, y } }),
+    effects: {
+      eqLow: range("eqLow", -TRACK_EQ_RANGE_DB, TRACK_EQ_RANGE_DB),
+      eqMid: range("eqMid", -TRACK_EQ_RANGE_DB, TRACK_EQ_RANGE_DB),
+      eqHigh: range("eqHigh", -TRACK_EQ_RANGE_DB, TRACK_EQ_RANGE_DB),
+      filter: range("filter", -1, 1),
+      reverbSend: range("reverbSend", 0, 1),
+      delaySend: range("delaySend", 0, 1),
+    },
+  };
+}
+
+/**
+ * Validates a stored mix, e.g. one read from localStorage.
+ *
+ * @param value - Parsed JSON
+ * @returns The mix, without malformed tracks; empty if the value is not an
+ * object
+ */
+export function parseMusicSetMix(value: unknown): MusicSetMix {
+  const mix: MusicSetMix = {};
+  if (!isRecord(value)) return mix;
+
+  for (const [trackId, trackMix] of Object.entries(value)) {
+    const parsed = parseTrackMix(trackMix);
+    if (parsed) mix[trackId] = parsed;
+  }
+  return mix;
+}
+
+/**
+ * Validates stored snapshots, dropping any that are malformed.
+ *
+ * @param value - Parsed JSON
+ * @returns Snapshots by music set ID
+ */
+function parseAllMixSnapshots(value: unknown): Record<string, MixSnapshot[]> {
+  if (!isRecord(value)) return {};
+
+  const all: Record<string, MixSnapshot[]> = {};
+  for (const [setId, snapshots] of Object.entries(value)) {
+    if (!Array.isArray(snapshots)) continue;
+
+    all[setId] = snapshots.flatMap((snapshot): MixSnapshot[] => {
+      if (
+        !isRecord(snapshot) ||
+        typeof snapshot.name !== "string" ||
+        typeof snapshot.savedAt !== "number" ||
+        !isRecord(snapshot.mix)
+      ) {
+        return [];
+      }
+
+      const mix = parseMusicSetMix(snapshot.mix);
+      return [{ name: snapshot.name, savedAt: snapshot.savedAt, mix }];
+    });
+  }
+  return all;
+}
+
+/**
+ * Keeps the parts of a set's snapshots that still match its tracks.
+ * Sets without an ID in their manifest are numbered in folder order, so the
+ * snapshots stored under an ID may have been saved for a different set.
+ *
+ * @param musicSet - Music set the snapshots are stored under
+ * @param snapshots - Stored snapshots
+ * @returns Snapshots with unknown tracks removed; snapshots left with no
+ * tracks are dropped
+ */
+function matchMixSnapshots(
+  musicSet: MusicSets,
+  snapshots: MixSnapshot[]
+): MixSnapshot[] {
+  const trackIds = new Set(musicSet.tracks.map((track) => track.id));
+  return snapshots.flatMap((snapshot) => {
+    const mix = Object.fromEntries(
+      Object.entries(snapshot.mix).filter(([trackId]) => trackIds.has(trackId))
+    );
+    return Object.keys(mix).length > 0 ? [{ ...snapshot, mix }] : [];
+  });
+}
+
+/**
+ * Gets a set's snapshots from every stored snapshot, matched to its tracks.
+ */
+const getSetSnapshots = (
+  all: Record<string, MixSnapshot[]>,
+  musicSet: MusicSets
+): MixSnapshot[] => matchMixSnapshots(musicSet, all[musicSet.id] ?? []);
+
+/**
+ * Reads every saved snapshot from localStorage.
+ *
+ * @returns Snapshots by music set ID; empty if storage is unavailable or
+ * corrupt. Malformed snapshots are dropped.
+ */
+function readAllMixSnapshots(): Record<string, MixSnapshot[]> {
+  if (typeof window === "undefined") return {};
+
+  try {
+    const stored = window.localStorage.getItem(MIX_SNAPSHOTS_STORAGE_KEY);
+    return stored ? parseAllMixSnapshots(JSON.parse(stored)) : {};
+  } catch (error) {
+    console.warn("readAllMixSnapshots - unable to read snapshots:", error);
+    return {};
+  }
+}
+
+/**
+ * Writes every saved snapshot to localStorage.
+ *
+ * @param snapshots - Snapshots by music set ID
+ */
+function writeAllMixSnapshots(snapshots: Record<string, MixSnapshot[]>): void {
+  try {
+    window.localStorage.setItem(
+      MIX_SNAPSHOTS_STORAGE_KEY,
+      JSON.stringify(snapshots)
+    );
+  } catch (error) {
+    // Quota errors and private browsing modes are expected; snapshots are optional
+    console.warn("writeAllMixSnapshots - unable to save snapshots:", error);
+  }
+}
+
+/**
+ * Gets the saved snapshots of a music set.
+ *
+ * @param musicSet - Music set
+ * @returns Snapshots, oldest first, limited to the set's current tracks
+ */
+export function getMixSnapshots(musicSet: MusicSets): MixSnapshot[] {
+  return getSetSnapshots(readAllMixSnapshots(), musicSet);
+}
+
+/**
+ * Saves a snapshot of a music set, replacing any snapshot with the same name.
+ * Snapshots that no longer match the set's tracks are dropped.
+ *
+ * @param musicSet - Music set
+ * @param name - Snapshot name
+ * @param mix - Mix to save
+ * @returns The set's snapshots after saving
+ */
+export function saveMixSnapshot(
+  musicSet: MusicSets,
+  name: string,
+  mix: MusicSetMix
+): MixSnapshot[] {
+  const all = readAllMixSnapshots();
+  const snapshots = getSetSnapshots(all, musicSet).filter(
+    (s) => s.name !== name
+  );
+  snapshots.push({ name, savedAt: Date.now(), mix });
+  all[musicSet.id] = snapshots;
+  writeAllMixSnapshots(all);
+  return snapshots;
+}
+
+/**
+ * Deletes a snapshot of a music set. Snapshots that no longer match the
+ * set's tracks are dropped.
+ *
+ * @param musicSet - Music set
+ * @param name - Snapshot name
+ * @returns The set's snapshots after deleting
+ */
+export function deleteMixSnapshot(
+  musicSet: MusicSets,
+  name: string
+): MixSnapshot[] {
+  const all = readAllMixSnapshots();
+  const snapshots = getSetSnapshots(all, musicSet).filter(
+    (s) => s.name !== name
+  );
+  all[musicSet.id] = snapshots;
+  writeAllMixSnapshots(all);
+  return snapshots;
+}
+
+/**
+ * Largest quantized value. Even, so the middle of a range (e.g. centre pan or
+ * flat EQ) survives the round trip exactly.
+ */
+const MIX_BYTE_MAX = 254;
+
+/**
+ * Quantizes a value in [min, max] to a byte.
+ */
+const toByte = (value: number, min: number, max: number): number =>
+  Math.round(
+    ((Math.max(min, Math.min(max, value)) - min) / (max - min)) * MIX_BYTE_MAX
+  );
+
+/**
+ * Expands a byte back to a value in [min, max].
+ */
+const fromByte = (byte: number, min: number, max: number): number =>
+  min + (Math.min(byte, MIX_BYTE_MAX) / MIX_BYTE_MAX) * (max - min);
+
+/**
+ * Encodes a mix as a compact URL-safe string.
+ *
+ * Each track takes 11 bytes in set order (volume, pan, mute/solo flags, EQ
+ * low/mid/high, filter, reverb send, delay send, stage x, stage y),
+ * quantized to 8 bits and base64url encoded. Six tracks encode to 90
+ * characters.
+ *
+ * @param musicSet - Music set the mix belongs to (defines track order)
+ * @param mix - Mix to encode
+ * @returns Encoded mix
+ */
+export function encodeMix(musicSet: MusicSets, mix: MusicSetMix): string {
+  const trackBytes = MIX_ENCODING_TRACK_BYTES[MIX_ENCODING_VERSION];
+  const bytes = new Uint8Array(1 + musicSet.tracks.length * trackBytes);
+  bytes[0] = MIX_ENCODING_VERSION;
+
+  musicSet.tracks.forEach((track, index) => {
+    const trackMix = mix[track.id];
+    const effects: MusicTrackEffects =
+      trackMix?.effects ?? DEFAULT_TRACK_EFFECTS;
+    const position: MusicTrackPosition =
+      trackMix?.position ?? getDefaultTrackPosition(trackMix?.pan ?? 0);
+    const offset = 1 + index * trackBytes;
+
+    bytes.set(
+      [
+        toByte(trackMix?.volume ?? 0, 0, 1),
+        toByte(trackMix?.pan ?? 0, -1, 1),
+        (trackMix?.isMuted ? 1 : 0) | (trackMix?.isSolo ? 2 : 0),
+        toByte(effects.eqLow, -TRACK_EQ_RANGE_DB, TRACK_EQ_RANGE_DB),
+        toByte(effects.eqMid, -TRACK_EQ_RANGE_DB, TRACK_EQ_RANGE_DB),
+        toByte(effects.eqHigh, -TRACK_EQ_RANGE_DB, TRACK_EQ_RANGE_DB),
+        toByte(effects.filter, -1, 1),
+        toByte(effects.reverbSend, 0, 1),
+        toByte(effects.delaySend, 0, 1),
+        toByte(position.x, -1, 1),
+        toByte(position.y, -1, 1),
+      ],
+      offset
+    );
+  });
+
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Decodes a mix produced by encodeMix.
+ *
+ * @param musicSet - Music set the mix belongs to (defines track order)
+ * @param encoded - Encoded mix (any version)
+ * @returns The mix, or null if the string is malformed or for another track
+ * layout. Version 1 mixes get the tracks' default stage positions.
+ */
+export function decodeMix(
+  musicSet: MusicSets,
+  encoded: string
+): MusicSetMix | null {
+  let bytes: Uint8Array;
+  try {
+    const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+    bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+
+  const version = bytes[0];
+  const trackBytes = MIX_ENCODING_TRACK_BYTES[version];
+  if (
+    trackBytes === undefined ||
+    bytes.length !== 1 + musicSet.tracks.length * trackBytes
+  ) {
+    return null;
+  }
+
+  return Object.fromEntries(
+    musicSet.tracks.map((track, index) => {
+      const b = bytes.subarray(1 + index * trackBytes);
+      const pan = fromByte(b[1], -1, 1);
+      return [
+        track.id,
+        {
+          volume: fromByte(b[0], 0, 1),
+          pan,
+          position:
+            version >= 2
+              ? { x: fromByte(b[9], -1, 1), y: fromByte(b[10], -1, 1) }
+              : (track.defaultPosition ?? getDefaultTrackPosition(pan)),
+          isMuted: (b[2] & 1) !== 0,
+          isSolo: (b[2] & 2) !== 0,
+          effects: {
+            eqLow: fromByte(b[3], -TRACK_EQ_RANGE_DB, TRACK_EQ_RANGE_DB),
+            eqMid: fromByte(b[4], -TRACK_EQ_RANGE_DB, TRACK_EQ_RANGE_DB),
+            eqHigh: fromByte(b[5], -TRACK_EQ_RANGE_DB, TRACK_EQ_RANGE_DB),
+            filter: fromByte(b[6], -1, 1),
+            reverbSend: fromByte(b[7], 0, 1),
+            delaySend: fromByte(b[8], 0, 1),
+          },
+        },
+      ];
+    })
+  );
+}
+
+/**
+ * Builds a link to the current page that carries a mix in its hash.
+ *
+ * @param musicSet - Music set the mix belongs to
+ * @param mix - Mix to share
+ * @returns Absolute URL
+ */
+export function createMixShareUrl(
+  musicSet: MusicSets,
+  mix: MusicSetMix
+): string {
+  const url = new URL(window.location.href);
+  const params = new URLSearchParams(url.hash.slice(1));
+  params.set(MIX_HASH_PARAM, `${musicSet.id}.${encodeMix(musicSet, mix)}`);
+  url.hash = params.toString();
+  return url.toString();
+}
+
+/**
+ * Reads a shared mix for a music set from the page URL and removes it from
+ * the URL, so it is applied once rather than on every later load.
+ *
+ * @param musicSet - Music set being loaded
+ * @returns The mix, or null if the URL has none for this set (or it is invalid)
+ */
+export function consumeSharedMix(musicSet: MusicSets): MusicSetMix | null {
+  if (typeof window === "undefined") return null;
+
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  const value = params.get(MIX_HASH_PARAM);
+  if (!value) return null;
+
+  const separator = value.indexOf(".");
+  if (separator === -1) return null;
+  if (parseInt(value.slice(0, separator), 10) !== musicSet.id) return null;
+
+  const mix = decodeMix(musicSet, value.slice(separator + 1));
+  if (!mix) {
+    console.warn(
+      `consumeSharedMix - ignoring invalid shared mix for music set ${musicSet.id}.`
+    );
+  }
+
+  params.delete(MIX_HASH_PARAM);
+  const hash = params.toString();
+  window.history.replaceState(
+    window.history.state,
+    "",
+    `${window.location.pathname}${window.location.search}${hash ? `#${hash}` : ""}`
+  );
+
+  return mix;
+}
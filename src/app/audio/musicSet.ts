@@ -1,16 +1,29 @@
-import { MusicTrackNodes } from "./types";
+import { CrossfadeCurve, MusicSetEffectBuses, MusicTrackNodes } from "./types";
 import { disconnectTrackNodes, stopTrack } from "./tracks";
-import { getAudioAnalyzer, getAudioContext } from "./audio";
+import { getAudioContext, getMusicOutput } from "./audio";
+
+/** Length of the generated reverb impulse response in seconds */
+const REVERB_DURATION = 2.5;
+/** Exponent of the reverb tail's decay; higher dies away faster */
+const REVERB_DECAY = 3;
+/** Delay time in seconds for sets without a BPM */
+const DEFAULT_DELAY_TIME = 0.375;
+/** Share of each echo fed back into the delay */
+const DELAY_FEEDBACK = 0.35;
+/** Longest delay time the delay bus supports, in seconds */
+const MAX_DELAY_TIME = 2;
 
 /**
  * Disconnects and cleans up a music set node and all its connected tracks.
  *
  * @param musicSetGainNode - GainNode for the music set
  * @param trackNodes - Array of TrackNodes connected to this music set
+ * @param effectBuses - Optional reverb/delay buses of the music set
  */
 export function disconnectMusicSetNodes(
   musicSetGainNode: GainNode,
-  trackNodes: MusicTrackNodes[]
+  trackNodes: MusicTrackNodes[],
+  effectBuses?: MusicSetEffectBuses
 ): void {
   // Stop all tracks first
   trackNodes.forEach((nodes) => stopTrack(nodes));
@@ -18,6 +31,15 @@ export function disconnectMusicSetNodes(
   // Cleanup all track nodes
   trackNodes.forEach((nodes) => disconnectTrackNodes(nodes));
 
+  // Cleanup the effect buses (the delay feedback loop would otherwise keep them alive)
+  if (effectBuses) {
+    effectBuses.reverb.disconnect();
+    effectBuses.reverbReturn.disconnect();
+    effectBuses.delay.disconnect();
+    effectBuses.delayFeedback.disconnect();
+    effectBuses.delayReturn.disconnect();
+  }
+
   // Disconnect music set node
   musicSetGainNode.disconnect();
 }
@@ -30,9 +52,9 @@ export function disconnectMusicSetNodes(
  */
 export function createMusicSetNode(): GainNode {
   const audioCtx = getAudioContext();
-  const audioAnalyzer = getAudioAnalyzer();
+  const musicOutput = getMusicOutput();
 
-  if (!audioCtx || !audioAnalyzer) {
+  if (!audioCtx || !musicOutput) {
     throw new Error(
       "createMusicSetNode - unable to create nodes. Audio context not initialized."
     );
@@ -43,12 +65,78 @@ export function createMusicSetNode(): GainNode {
   const musicSetGainNode = audioCtx.createGain();
   musicSetGainNode.gain.value = 1.0;
 
-  // Connect music set node to analyzer (for animations) and root (for output)
-  musicSetGainNode.connect(audioAnalyzer);
+  // Connect music set node to the music output (speakers and analyzer)
+  musicSetGainNode.connect(musicOutput);
 
   return musicSetGainNode;
 }
 
+/**
+ * Generates a stereo reverb impulse response: exponentially decaying noise,
+ * decorrelated between channels for width.
+ *
+ * @param audioCtx - Context the impulse response is used in
+ * @returns Impulse response buffer
+ */
+function createReverbImpulseResponse(audioCtx: BaseAudioContext): AudioBuffer {
+  const length = Math.round(audioCtx.sampleRate * REVERB_DURATION);
+  const impulse = audioCtx.createBuffer(2, length, audioCtx.sampleRate);
+
+  for (let channel = 0; channel < impulse.numberOfChannels; channel++) {
+    const data = impulse.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      data[i] =
+        (Math.random() * 2 - 1) * Math.pow(1 - i / length, REVERB_DECAY);
+    }
+  }
+
+  return impulse;
+}
+
+/**
+ * Creates the shared reverb and delay buses for a music set.
+ * Both return into the music set node at full level; tracks control how
+ * much they send.
+ *
+ * @param musicSetNode - Music set gain node the bus returns connect to
+ * @param bpm - Optional tempo; the delay is set to a dotted eighth note when given
+ * @param audioCtx - Context to create the nodes in (default: the shared audio context)
+ * @returns Effect buses for createTrackNodes
+ */
+export function createMusicSetEffectBuses(
+  musicSetNode: GainNode,
+  bpm?: number,
+  audioCtx: BaseAudioContext | null = getAudioContext()
+): MusicSetEffectBuses {
+  if (!audioCtx) {
+    throw new Error(
+      "createMusicSetEffectBuses - unable to create nodes. Audio context not initialized."
+    );
+  }
+
+  // Reverb: convolver → return → music set
+  const reverb = audioCtx.createConvolver();
+  reverb.buffer = createReverbImpulseResponse(audioCtx);
+  const reverbReturn = audioCtx.createGain();
+  reverb.connect(reverbReturn);
+  reverbReturn.connect(musicSetNode);
+
+  // Delay: delay ⇄ feedback, delay → return → music set
+  const delay = audioCtx.createDelay(MAX_DELAY_TIME);
+  delay.delayTime.value = bpm
+    ? Math.min(MAX_DELAY_TIME, (60 / bpm) * 0.75)
+    : DEFAULT_DELAY_TIME;
+  const delayFeedback = audioCtx.createGain();
+  delayFeedback.gain.value = DELAY_FEEDBACK;
+  delay.connect(delayFeedback);
+  delayFeedback.connect(delay);
+  const delayReturn = audioCtx.createGain();
+  delay.connect(delayReturn);
+  delayReturn.connect(musicSetNode);
+
+  return { reverb, reverbReturn, delay, delayFeedback, delayReturn };
+}
+
 /**
  * Fades in all tracks in a music set from 0 to their target volume.
  *
@@ -80,3 +168,89 @@ export function fadeInMusicSet(
     nodes.gain.gain.linearRampToValueAtTime(targetVolume, now + duration);
   });
 }
+
+/** Number of points used to describe a crossfade gain curve */
+const CROSSFADE_CURVE_RESOLUTION = 64;
+
+/**
+ * Builds the gain curve for one side of a crossfade.
+ *
+ * @param curve - Curve shape
+ * @param direction - "in" ramps 0 → 1, "out" ramps 1 → 0
+ * @param startValue - Gain the curve begins at (scales a fade out that starts mid-fade)
+ * @returns Gain values evenly spaced over the crossfade duration
+ */
+function createCrossfadeCurve(
+  curve: CrossfadeCurve,
+  direction: "in" | "out",
+  startValue: number = 1
+): Float32Array {
+  const values = new Float32Array(CROSSFADE_CURVE_RESOLUTION);
+  const lastIndex = CROSSFADE_CURVE_RESOLUTION - 1;
+
+  for (let i = 0; i <= lastIndex; i++) {
+    // Progress through the fade, reversed for fade outs
+    const t = direction === "in" ? i / lastIndex : 1 - i / lastIndex;
+    const gain = curve === "equalPower" ? Math.sin((t * Math.PI) / 2) : t;
+    values[i] = direction === "in" ? gain : gain * startValue;
+  }
+
+  return values;
+}
+
+/**
+ * Crossfades from one music set node to another.
+ *
+ * The outgoing node fades from its current gain to silence while the incoming
+ * node fades from silence to full volume. Any automation still pending on
+ * either node (e.g. an unfinished crossfade) is cancelled first.
+ *
+ * @param outgoingNode - Music set gain node to fade out
+ * @param incomingNode - Music set gain node to fade in
+ * @param duration - Duration of the crossfade in seconds
+ * @param curve - Shape of the gain curves (default: equal power)
+ * @param startTime - Optional context time to begin at, e.g. the bar line a
+ * quantized switch lands on (default: now)
+ */
+export function crossfadeMusicSets(
+  outgoingNode: GainNode,
+  incomingNode: GainNode,
+  duration: number,
+  curve: CrossfadeCurve = "equalPower",
+  startTime?: number
+): void {
+  const audioCtx = getAudioContext();
+  if (!audioCtx) {
+    console.warn(
+      "crossfadeMusicSets - unable to crossfade. Audio context not initialized."
+    );
+    return;
+  }
+
+  const now = audioCtx.currentTime;
+  const start = Math.max(now, startTime ?? now);
+
+  // A zero length fade is a hard cut
+  if (duration <= 0) {
+    outgoingNode.gain.cancelScheduledValues(now);
+    outgoingNode.gain.setValueAtTime(0, start);
+    incomingNode.gain.cancelScheduledValues(now);
+    incomingNode.gain.setValueAtTime(1, start);
+    return;
+  }
+
+  const outgoingStart = outgoingNode.gain.value;
+  outgoingNode.gain.cancelScheduledValues(now);
+  outgoingNode.gain.setValueCurveAtTime(
+    createCrossfadeCurve(curve, "out", outgoingStart),
+    start,
+    duration
+  );
+
+  incomingNode.gain.cancelScheduledValues(now);
+  incomingNode.gain.setValueCurveAtTime(
+    createCrossfadeCurve(curve, "in"),
+    start,
+    duration
+  );
+}
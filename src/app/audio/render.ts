@@ -0,0 +1,253 @@
+"use client";
+
+import {
+  applyTrackState,
+  createTrackNodes,
+  setTrackLoopRegion,
+  setTrackPanningMode,
+} from "./tracks";
+import { createMusicSetEffectBuses } from "./musicSet";
+import { createMasterBus, MasterBusSettings } from "./masterBus";
+import { encodeWav, WavBitDepth } from "./wav";
+import { createZip, ZipEntry } from "./zip";
+import {
+  MusicSetData,
+  MusicSets,
+  MusicTrackState,
+  TrackPanningMode,
+} from "./types";
+
+/** Rendered audio is stereo, like the live output */
+const RENDER_CHANNELS = 2;
+
+/** How often (seconds of rendered audio) progress is reported */
+const RENDER_PROGRESS_INTERVAL = 1;
+
+/**
+ * Options for exporting a mix.
+ */
+export interface ExportMixOptions {
+  /** PCM sample size of the WAV files (default: 16) */
+  bitDepth?: WavBitDepth;
+  /** Whether to add one WAV per track, packaged with the mix in a zip */
+  includeStems?: boolean;
+  /** Master bus settings applied to the full mix (stems are left unprocessed) */
+  masterBusSettings: MasterBusSettings;
+  /** Panning mode to render with, as heard live (default: "stereo") */
+  panningMode?: TrackPanningMode;
+  /** Called with overall progress from 0 to 1 */
+  onProgress?: (progress: number) => void;
+}
+
+/**
+ * A finished export, ready to download.
+ */
+export interface ExportedMix {
+  /** Suggested file name (e.g., "zone2-mix.wav" or "zone2-mix.zip") */
+  filename: string;
+  /** File contents with the matching MIME type */
+  blob: Blob;
+}
+
+/**
+ * Renders a music set offline, with the same node graph as live playback:
+ * each track's chain (see createTrackNodes) into a music set gain node with
+ * its reverb/delay buses, optionally through the master bus.
+ *
+ * One pass of the set is rendered: up to the end of its loop region, else
+ * the longest track's length. Shorter tracks loop as they do live. Master
+ * volume is not applied.
+ *
+ * @param musicSet - Music set being rendered
+ * @param musicSetData - Loaded music set (buffers and transport)
+ * @param trackStates - Mix to render, in set order
+ * @param masterBusSettings - Master bus to apply, or null to leave the output raw
+ * @param panningMode - Whether tracks are panned in stereo or placed spatially
+ * @param onProgress - Optional progress callback (0 to 1)
+ * @returns Rendered stereo audio
+ */
+async function renderMusicSet(
+  musicSet: MusicSets,
+  musicSetData: MusicSetData,
+  trackStates: MusicTrackState[],
+  masterBusSettings: MasterBusSettings | null,
+  panningMode: TrackPanningMode,
+  onProgress?: (progress: number) => void
+): Promise<AudioBuffer> {
+  const loadedBuffers = [...musicSetData.buffers.values()];
+  if (loadedBuffers.length === 0) {
+    throw new Error(
+      "renderMusicSet - unable to render. No tracks of the music set are loaded."
+    );
+  }
+
+  const sampleRate = loadedBuffers[0].sampleRate;
+  const { loop } = musicSetData.transport;
+  const duration = loop
+    ? Math.min(loop.end, musicSetData.transport.duration)
+    : musicSetData.transport.duration;
+  const length = Math.ceil(duration * sampleRate);
+  const offlineCtx = new OfflineAudioContext(
+    RENDER_CHANNELS,
+    length,
+    sampleRate
+  );
+
+  // Music set node → master bus (or straight to the output)
+  const musicSetNode = offlineCtx.createGain();
+  if (masterBusSettings) {
+    createMasterBus(offlineCtx, musicSetNode, masterBusSettings);
+  } else {
+    musicSetNode.connect(offlineCtx.destination);
+  }
+  const effectBuses = createMusicSetEffectBuses(
+    musicSetNode,
+    musicSet.bpm,
+    offlineCtx
+  );
+
+  trackStates.forEach((state) => {
+    const buffer = musicSetData.buffers.get(state.id);
+
+    // Muted tracks (and their sends) are silent, so skip their processing
+    if (!buffer || state.isEffectivelyMuted) return;
+
+    const nodes = createTrackNodes(
+      buffer,
+      musicSetNode,
+      state.volume,
+      state.pan,
+      true, // loop
+      effectBuses,
+      offlineCtx
+    );
+    setTrackPanningMode(nodes, panningMode, state.position);
+    applyTrackState(nodes, state);
+    setTrackLoopRegion(nodes, loop);
+    nodes.source.start(0);
+  });
+
+  // Offline contexts have no progress event; pause at intervals to report it.
+  // Not every browser supports suspending offline contexts.
+  if (onProgress && typeof offlineCtx.suspend === "function") {
+    for (
+      let time = RENDER_PROGRESS_INTERVAL;
+      time < duration;
+      time += RENDER_PROGRESS_INTERVAL
+    ) {
+      offlineCtx
+        .suspend(time)
+        .then(() => {
+          onProgress(time / duration);
+          return offlineCtx.resume();
+        })
+        .catch(() => {
+          // Suspend times are quantized; a collision just skips one report
+        });
+    }
+  }
+
+  const rendered = await offlineCtx.startRendering();
+  onProgress?.(1);
+  return rendered;
+}
+
+/**
+ * Encodes rendered audio as a WAV file.
+ *
+ * @param buffer - Rendered audio
+ * @param bitDepth - PCM sample size
+ * @returns WAV file contents
+ */
+function audioBufferToWav(
+  buffer: AudioBuffer,
+  bitDepth: WavBitDepth
+): ArrayBuffer {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) =>
+    buffer.getChannelData(i)
+  );
+  return encodeWav(channels, buffer.sampleRate, bitDepth);
+}
+
+/**
+ * Exports the current mix of a music set as a WAV file, or as a zip with
+ * the mix and one stem per track.
+ *
+ * The mix honours each track's volume, pan, mute/solo and effects. Stems keep
+ * each track's volume, pan and effects but ignore mute/solo, so every track
+ * is exported, and skip the master bus.
+ *
+ * @param musicSet - Music set being exported
+ * @param musicSetData - Loaded music set
+ * @param trackStates - Current mix, in set order
+ * @param options - Format, stems, master bus and progress options
+ * @returns File to download
+ */
+export async function exportMix(
+  musicSet: MusicSets,
+  musicSetData: MusicSetData,
+  trackStates: MusicTrackState[],
+  options: ExportMixOptions
+): Promise<ExportedMix> {
+  const {
+    bitDepth = 16,
+    includeStems = false,
+    panningMode = "stereo",
+    onProgress,
+  } = options;
+  const stemCount = includeStems ? trackStates.length : 0;
+  const renderCount = 1 + stemCount;
+
+  // Scale each render's progress into its share of the whole export
+  const reportRender = (index: number) => (progress: number) =>
+    onProgress?.((index + progress) / renderCount);
+
+  const mix = await renderMusicSet(
+    musicSet,
+    musicSetData,
+    trackStates,
+    options.masterBusSettings,
+    panningMode,
+    reportRender(0)
+  );
+  const mixWav = audioBufferToWav(mix, bitDepth);
+
+  if (!includeStems) {
+    return {
+      filename: `${musicSet.name}-mix.wav`,
+      blob: new Blob([mixWav], { type: "audio/wav" }),
+    };
+  }
+
+  const entries: ZipEntry[] = [
+    { name: `${musicSet.name}-mix.wav`, data: new Uint8Array(mixWav) },
+  ];
+
+  // Render stems one at a time to keep memory use down
+  for (const [index, state] of trackStates.entries()) {
+    if (!musicSetData.buffers.has(state.id)) continue;
+
+    // Silence every other track, and unmute this one
+    const stemStates = trackStates.map((other) => ({
+      ...other,
+      isEffectivelyMuted: other.id !== state.id,
+    }));
+    const stem = await renderMusicSet(
+      musicSet,
+      musicSetData,
+      stemStates,
+      null,
+      panningMode,
+      reportRender(1 + index)
+    );
+    entries.push({
+      name: `stems/${state.id}.wav`,
+      data: new Uint8Array(audioBufferToWav(stem, bitDepth)),
+    });
+  }
+
+  return {
+    filename: `${musicSet.name}-mix.zip`,
+    blob: new Blob([createZip(entries)], { type: "application/zip" }),
+  };
+}
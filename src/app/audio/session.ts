@@ -0,0 +1,239 @@
+"use client";
+
+import { MusicSetMix, parseMusicSetMix } from "./mix";
+import { TrackPanningMode } from "./types";
+
+/**
+ * The audio session is what a visitor would expect to survive a reload: the
+ * selected set, master volume and mute, the panning mode, and the last mix of
+ * every set they played. It is saved in localStorage, so every tab shares it.
+ *
+ * Tabs also coordinate over a BroadcastChannel so only one plays at a time:
+ * a tab that starts playing claims playback, and every other tab pauses.
+ */
+
+/** localStorage key holding the saved session. Bump the version on format changes. */
+const AUDIO_SESSION_STORAGE_KEY = "norstep-audio-session-v1";
+
+/** BroadcastChannel tabs coordinate playback on */
+const TAB_PLAYBACK_CHANNEL = "norstep-audio-playback-v1";
+
+/**
+ * Audio state saved between visits.
+ */
+export interface SavedAudioSession {
+  /** Set that was selected, or null if none was */
+  musicSetId: number | null;
+  /** Master volume (0-1) */
+  masterVolume: number;
+  /** Whether the master output was muted */
+  isMasterMuted: boolean;
+  /** Panning mode (missing from sessions saved before spatial mode existed) */
+  panningMode?: TrackPanningMode;
+  /** Last mix of each set played, by set ID */
+  mixes: Record<string, MusicSetMix>;
+  /** When the session was saved (ms since epoch) */
+  savedAt: number;
+}
+
+/**
+ * Validates a stored session.
+ *
+ * @param value - Parsed JSON
+ * @returns The session with the master volume clamped to 0-1 and malformed
+ * mixes dropped, or null if the value is not a session
+ */
+function parseSavedAudioSession(value: unknown): SavedAudioSession | null {
+  if (typeof value !== "object" || value === null) return null;
+  const session = value as Record<string, unknown>;
+
+  const { musicSetId, masterVolume, isMasterMuted, panningMode, savedAt } =
+    session;
+  if (
+    (musicSetId !== null && !Number.isInteger(musicSetId)) ||
+    typeof masterVolume !== "number" ||
+    !Number.isFinite(masterVolume) ||
+    typeof isMasterMuted !== "boolean"
+  ) {
+    return null;
+  }
+
+  const mixes: Record<string, MusicSetMix> = {};
+  if (typeof session.mixes === "object" && session.mixes !== null) {
+    for (const [setId, mix] of Object.entries(session.mixes)) {
+      mixes[setId] = parseMusicSetMix(mix);
+    }
+  }
+
+  return {
+    musicSetId: musicSetId as number | null,
+    masterVolume: Math.max(0, Math.min(1, masterVolume)),
+    isMasterMuted,
+    panningMode:
+      panningMode === "stereo" || panningMode === "spatial"
+        ? panningMode
+        : undefined,
+    mixes,
+    savedAt: typeof savedAt === "number" ? savedAt : 0,
+  };
+}
+
+/**
+ * Reads the saved session from localStorage.
+ *
+ * @returns Saved session, or null if none is saved or storage is unavailable
+ * or corrupt
+ */
+export function getSavedAudioSession(): SavedAudioSession | null {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const stored = window.localStorage.getItem(AUDIO_SESSION_STORAGE_KEY);
+    return stored ? parseSavedAudioSession(JSON.parse(stored)) : null;
+  } catch (error) {
+    console.warn("getSavedAudioSession - unable to read session:", error);
+    return null;
+  }
+}
+
+/**
+ * Saves the session to localStorage. Mixes of sets not in the update are
+ * kept, so each set remembers its own mix.
+ *
+ * @param session - Current set, master settings, and the current set's mix
+ * (if a set is loaded)
+ */
+export function saveAudioSession(
+  session: Omit<SavedAudioSession, "mixes" | "savedAt"> & {
+    mix: MusicSetMix | null;
+  }
+): void {
+  const { mix, ...rest } = session;
+  const mixes = { ...getSavedAudioSession()?.mixes };
+  if (mix && session.musicSetId !== null) {
+    mixes[session.musicSetId] = mix;
+  }
+
+  try {
+    window.localStorage.setItem(
+      AUDIO_SESSION_STORAGE_KEY,
+      JSON.stringify({ ...rest, mixes, savedAt: Date.now() })
+    );
+  } catch (error) {
+    // Quota errors and private browsing modes are expected; the session just isn't restored
+    console.warn("saveAudioSession - unable to save session:", error);
+  }
+}
+
+/**
+ * Gets the saved mix of a set.
+ *
+ * @param setId - Music set ID
+ * @returns The set's last mix, or null if it has none
+ */
+export function getSavedMix(setId: number): MusicSetMix | null {
+  return getSavedAudioSession()?.mixes[setId] ?? null;
+}
+
+/**
+ * Messages tabs exchange over the playback channel.
+ * - claim: the sender started playing; everyone else pauses
+ * - release: the sender stopped playing
+ * - query: the sender just opened and asks whether any tab is playing
+ */
+type TabPlaybackMessage =
+  | { type: "claim"; tabId: string }
+  | { type: "release"; tabId: string }
+  | { type: "query"; tabId: string };
+
+/**
+ * Callbacks a tab reacts to playback in other tabs with.
+ */
+export interface TabPlaybackHandlers {
+  /** Another tab started playing (this tab should stop) */
+  onPlayingElsewhere: () => void;
+  /** The tab that was playing stopped or closed */
+  onStoppedElsewhere: () => void;
+  /** Whether this tab is playing, to answer other tabs' queries */
+  isPlaying: () => boolean;
+}
+
+/**
+ * This tab's connection to the playback channel.
+ */
+export interface TabPlayback {
+  /** Announces that this tab is playing, pausing every other tab */
+  claim: () => void;
+  /** Announces that this tab stopped playing */
+  release: () => void;
+  /** Releases playback and leaves the channel */
+  close: () => void;
+}
+
+/**
+ * Joins the channel tabs coordinate playback on. The last tab to start
+ * playing wins; the rest pause and show that audio plays elsewhere.
+ *
+ * @param handlers - Reactions to other tabs
+ * @returns Connection, or null if the browser has no BroadcastChannel
+ */
+export function joinTabPlayback(
+  handlers: TabPlaybackHandlers
+): TabPlayback | null {
+  if (typeof BroadcastChannel === "undefined") return null;
+
+  const channel = new BroadcastChannel(TAB_PLAYBACK_CHANNEL);
+  const tabId =
+    typeof crypto.randomUUID === "function"
+      ? crypto.randomUUID()
+      : Math.random().toString(36).slice(2);
+
+  /** Tab known to be playing: this one, another one, or none */
+  let leaderId: string | null = null;
+
+  const post = (type: TabPlaybackMessage["type"]) =>
+    channel.postMessage({ type, tabId } satisfies TabPlaybackMessage);
+
+  channel.onmessage = (event: MessageEvent<TabPlaybackMessage>) => {
+    const message = event.data;
+    switch (message.type) {
+      case "claim":
+        leaderId = message.tabId;
+        handlers.onPlayingElsewhere();
+        break;
+      case "release":
+        if (leaderId === message.tabId) {
+          leaderId = null;
+          handlers.onStoppedElsewhere();
+        }
+        break;
+      case "query":
+        if (handlers.isPlaying()) post("claim");
+        break;
+    }
+  };
+
+  const release = () => {
+    if (leaderId !== tabId) return;
+    leaderId = null;
+    post("release");
+  };
+
+  // Closing or navigating away stops this tab's playback
+  window.addEventListener("pagehide", release);
+
+  post("query");
+
+  return {
+    claim: () => {
+      leaderId = tabId;
+      post("claim");
+    },
+    release,
+    close: () => {
+      release();
+      window.removeEventListener("pagehide", release);
+      channel.close();
+    },
+  };
+}
@@ -0,0 +1,128 @@
+import {
+  MusicSetLoopPoints,
+  MusicSets,
+  MusicSetTimeSignature,
+  QuantizeMode,
+} from "./types";
+
+/**
+ * Musical timing helpers: beat and bar lengths, loop regions and the grid
+ * quantized actions snap to. Pure functions, so they run on the server (to
+ * resolve manifests) as well as in the browser.
+ */
+
+/** Time signature assumed for sets that give a BPM but no time signature */
+export const DEFAULT_TIME_SIGNATURE: MusicSetTimeSignature = {
+  beatsPerBar: 4,
+  beatUnit: 4,
+};
+
+/**
+ * Gets the length of one beat.
+ *
+ * @param bpm - Tempo in beats per minute
+ * @returns Beat length in seconds
+ */
+export function getBeatDuration(bpm: number): number {
+  return 60 / bpm;
+}
+
+/**
+ * Gets the length of one bar.
+ *
+ * @param bpm - Tempo in beats per minute
+ * @param timeSignature - Time signature (default: 4/4)
+ * @returns Bar length in seconds
+ */
+export function getBarDuration(
+  bpm: number,
+  timeSignature: MusicSetTimeSignature = DEFAULT_TIME_SIGNATURE
+): number {
+  return getBeatDuration(bpm) * timeSignature.beatsPerBar;
+}
+
+/**
+ * Converts a position in bars (counted from 0 at the start of the set) to
+ * seconds.
+ *
+ * @param bars - Position in bars (fractions are allowed)
+ * @param bpm - Tempo in beats per minute
+ * @param timeSignature - Time signature (default: 4/4)
+ * @returns Position in seconds
+ */
+export function barsToSeconds(
+  bars: number,
+  bpm: number,
+  timeSignature: MusicSetTimeSignature = DEFAULT_TIME_SIGNATURE
+): number {
+  return bars * getBarDuration(bpm, timeSignature);
+}
+
+/**
+ * Gets the spacing of the grid that quantized actions snap to.
+ *
+ * @param musicSet - Music set whose tempo defines the grid
+ * @param mode - Quantize mode
+ * @returns Grid spacing in seconds, or null if actions should not wait
+ * (quantizing is off or the set has no BPM)
+ */
+export function getQuantizeInterval(
+  musicSet: MusicSets,
+  mode: QuantizeMode
+): number | null {
+  if (mode === "off" || !musicSet.bpm) return null;
+
+  return mode === "beat"
+    ? getBeatDuration(musicSet.bpm)
+    : getBarDuration(musicSet.bpm, musicSet.timeSignature);
+}
+
+/**
+ * Fits a set's loop region to one track, aligned to whole sample frames so
+ * every track loops on exactly the same frame.
+ *
+ * @param loop - Loop region of the set, or null
+ * @param buffer - Decoded track (its length and sample rate are used)
+ * @returns Loop region within the buffer, or null if the whole buffer should
+ * loop (no region, or the region starts after the track ends)
+ */
+export function getTrackLoopRegion(
+  loop: MusicSetLoopPoints | null,
+  buffer: Pick<AudioBuffer, "duration" | "sampleRate">
+): MusicSetLoopPoints | null {
+  if (!loop) return null;
+
+  const toFrame = (seconds: number) =>
+    Math.round(seconds * buffer.sampleRate) / buffer.sampleRate;
+  const start = toFrame(loop.start);
+  const end = toFrame(Math.min(loop.end, buffer.duration));
+
+  return start < end ? { start, end } : null;
+}
+
+/**
+ * Wraps a playhead position the way a looping source moves: positions before
+ * the end of the loop region play as-is, later positions repeat the region.
+ * Without a region (or for negative positions) the whole duration repeats.
+ *
+ * @param position - Position in seconds (may exceed duration or be negative)
+ * @param duration - Length of the audio in seconds
+ * @param loop - Loop region, or null
+ * @returns Position within the audio
+ */
+export function wrapLoopPosition(
+  position: number,
+  duration: number,
+  loop: MusicSetLoopPoints | null = null
+): number {
+  if (duration <= 0) return 0;
+
+  const end = loop ? Math.min(loop.end, duration) : duration;
+  if (loop && loop.start < end && position >= 0) {
+    if (position < end) return position;
+    return loop.start + ((position - loop.start) % (end - loop.start));
+  }
+
+  const wrapped = position % duration;
+  return wrapped < 0 ? wrapped + duration : wrapped;
+}
@@ -1,29 +1,90 @@
 "use client";
 
 import { getAudioContext, linearToGain } from "./audio";
-import { MusicTrackNodes } from "./types";
+import { getAutomationSettings, rampParam } from "./automation";
+import { getTrackLoopRegion } from "./tempo";
+import {
+  MusicSetEffectBuses,
+  MusicSetLoopPoints,
+  MusicTrackEffects,
+  MusicTrackNodes,
+  MusicTrackPosition,
+  MusicTrackState,
+  TrackPanningMode,
+} from "./types";
+
+/** Corner frequency (Hz) of the low shelf EQ band */
+const EQ_LOW_FREQUENCY = 250;
+/** Centre frequency (Hz) of the mid peaking EQ band */
+const EQ_MID_FREQUENCY = 1000;
+/** Corner frequency (Hz) of the high shelf EQ band */
+const EQ_HIGH_FREQUENCY = 4000;
+/** EQ gain range in dB, either side of flat */
+export const TRACK_EQ_RANGE_DB = 12;
+
+/** Lowest low-pass cutoff (Hz), reached with the filter at -1 */
+const FILTER_LOWPASS_MIN_FREQUENCY = 200;
+/** Highest high-pass cutoff (Hz), reached with the filter at 1 */
+const FILTER_HIGHPASS_MAX_FREQUENCY = 5000;
+/** Cutoff (Hz) that leaves the high-pass filter transparent */
+const FILTER_HIGHPASS_OPEN_FREQUENCY = 10;
+/** Resonance of the sweep filters in dB; a slight peak makes the sweep audible */
+const FILTER_Q = 1.5;
+
+/** Distance (metres) from the listener to the edge of the spatial stage */
+const SPATIAL_STAGE_RADIUS = 3;
+/** Distance (metres) within which spatial tracks play at full level */
+const SPATIAL_REF_DISTANCE = 1;
+/** How quickly spatial tracks get quieter with distance; gentle, so no stem gets lost */
+const SPATIAL_ROLLOFF_FACTOR = 0.5;
+/** Stage depth of tracks placed from their pan: half way out, in front */
+const DEFAULT_POSITION_DEPTH = 0.5;
+
+/**
+ * Neutral effect settings: flat EQ, filter bypassed, no sends.
+ */
+export const DEFAULT_TRACK_EFFECTS: MusicTrackEffects = {
+  eqLow: 0,
+  eqMid: 0,
+  eqHigh: 0,
+  filter: 0,
+  reverbSend: 0,
+  delaySend: 0,
+};
 
 /**
  * Creates a complete set of Web Audio nodes for a single track.
  *
  * Node graph for each track:
- * AudioBufferSourceNode → GainNode (volume/mute) → StereoPannerNode (pan) → AnalyserNode → parent
+ * AudioBufferSourceNode → GainNode (volume/mute) → 3-band EQ → low-pass →
+ * high-pass → StereoPannerNode (pan) → AnalyserNode → parent
+ *
+ * When effect buses are given, post-fader send GainNodes are tapped after
+ * the panner and connected to the set's reverb and delay.
  *
- * @param buffer - The AudioBuffer containing the track's audio data
+ * Tracks start in stereo; see setTrackPanningMode to place them around the
+ * listener instead.
+ *
+ * @param buffer - The AudioBuffer containing the track's audio data, or null
+ * if the track is still loading (see replaceTrackSource)
  * @param parent - The parent node to connect to (typically the music set gain node)
  * @param initialVolume - Initial volume level (0-1)
  * @param initialPan - Initial pan position (-1 to 1)
  * @param loop - Whether the track should loop
+ * @param effectBuses - Optional shared reverb/delay buses of the music set
+ * @param audioCtx - Context to create the nodes in (default: the shared
+ * audio context; pass an OfflineAudioContext to render)
  * @returns TrackNodes object containing references to all nodes
  */
 export function createTrackNodes(
-  buffer: AudioBuffer,
+  buffer: AudioBuffer | null,
   parent: AudioNode,
   initialVolume: number,
   initialPan: number = 0,
-  loop: boolean = true
+  loop: boolean = true,
+  effectBuses?: MusicSetEffectBuses,
+  audioCtx: BaseAudioContext | null = getAudioContext()
 ): MusicTrackNodes {
-  const audioCtx = getAudioContext();
   if (!audioCtx) {
     throw new Error(
       "createTrackNodes - unable to create nodes. Audio context not initialized."
@@ -39,6 +100,28 @@ export function createTrackNodes(
   const gain = audioCtx.createGain();
   gain.gain.value = linearToGain(initialVolume);
 
+  // Create the 3-band EQ, flat until adjusted
+  const eqLow = audioCtx.createBiquadFilter();
+  eqLow.type = "lowshelf";
+  eqLow.frequency.value = EQ_LOW_FREQUENCY;
+
+  const eqMid = audioCtx.createBiquadFilter();
+  eqMid.type = "peaking";
+  eqMid.frequency.value = EQ_MID_FREQUENCY;
+
+  const eqHigh = audioCtx.createBiquadFilter();
+  eqHigh.type = "highshelf";
+  eqHigh.frequency.value = EQ_HIGH_FREQUENCY;
+
+  // Create the sweep filters, both open until the filter is moved
+  const lowpass = audioCtx.createBiquadFilter();
+  lowpass.type = "lowpass";
+  lowpass.Q.value = FILTER_Q;
+
+  const highpass = audioCtx.createBiquadFilter();
+  highpass.type = "highpass";
+  highpass.Q.value = FILTER_Q;
+
   // Create stereo panner for left/right positioning
   const pan = audioCtx.createStereoPanner();
   pan.pan.value = initialPan;
@@ -47,13 +130,49 @@ export function createTrackNodes(
   const analyzer = audioCtx.createAnalyser();
   analyzer.fftSize = 1024;
 
-  // Connect the chain: source → gain → pan → analyzer → parent
+  // Connect the chain: source → gain → EQ → filters → pan → analyzer → parent
   source.connect(gain);
-  gain.connect(pan);
+  gain.connect(eqLow);
+  eqLow.connect(eqMid);
+  eqMid.connect(eqHigh);
+  eqHigh.connect(lowpass);
+  lowpass.connect(highpass);
+  highpass.connect(pan);
   pan.connect(analyzer);
   analyzer.connect(parent);
 
-  return { source, gain, pan, analyzer };
+  // Create post-fader sends into the set's effect buses, silent by default
+  let reverbSend: GainNode | null = null;
+  let delaySend: GainNode | null = null;
+  if (effectBuses) {
+    reverbSend = audioCtx.createGain();
+    reverbSend.gain.value = 0;
+    pan.connect(reverbSend);
+    reverbSend.connect(effectBuses.reverb);
+
+    delaySend = audioCtx.createGain();
+    delaySend.gain.value = 0;
+    pan.connect(delaySend);
+    delaySend.connect(effectBuses.delay);
+  }
+
+  const nodes: MusicTrackNodes = {
+    source,
+    gain,
+    eqLow,
+    eqMid,
+    eqHigh,
+    lowpass,
+    highpass,
+    pan,
+    spatialPanner: null,
+    analyzer,
+    reverbSend,
+    delaySend,
+  };
+  setTrackEffects(nodes, DEFAULT_TRACK_EFFECTS);
+
+  return nodes;
 }
 
 /**
@@ -70,8 +189,33 @@ export function disconnectTrackNodes(nodes: MusicTrackNodes): void {
 
   nodes.source.disconnect();
   nodes.gain.disconnect();
+  nodes.eqLow.disconnect();
+  nodes.eqMid.disconnect();
+  nodes.eqHigh.disconnect();
+  nodes.lowpass.disconnect();
+  nodes.highpass.disconnect();
   nodes.pan.disconnect();
+  nodes.spatialPanner?.disconnect();
   nodes.analyzer.disconnect();
+  nodes.reverbSend?.disconnect();
+  nodes.delaySend?.disconnect();
+}
+
+/**
+ * Glides a param of one of a track's nodes to a new value.
+ *
+ * @param node - Node owning the param (supplies the context time)
+ * @param param - Param to change
+ * @param target - Value to reach
+ * @param rampTime - Seconds to reach it (default: the configured ramp time)
+ */
+function rampTrackParam(
+  node: AudioNode,
+  param: AudioParam,
+  target: number,
+  rampTime?: number
+): void {
+  rampParam(param, target, node.context.currentTime, { rampTime });
 }
 
 /**
@@ -79,13 +223,16 @@ export function disconnectTrackNodes(nodes: MusicTrackNodes): void {
  *
  * @param trackNodes - TrackNodes for the track
  * @param volume - Linear volume level (0-1)
+ * @param rampTime - Seconds to glide to the new volume (default: the
+ * configured ramp time)
  */
 export function setTrackVolume(
   trackNodes: MusicTrackNodes,
-  volume: number
+  volume: number,
+  rampTime?: number
 ): void {
   const gain = linearToGain(Math.max(0, Math.min(1, volume)));
-  trackNodes.gain.gain.value = gain;
+  rampTrackParam(trackNodes.gain, trackNodes.gain.gain, gain, rampTime);
 }
 
 /**
@@ -93,22 +240,276 @@ export function setTrackVolume(
  *
  * @param trackNodes - MusicTrackNodes for the track
  * @param pan - Pan position (-1 = left, 0 = center, 1 = right)
+ * @param rampTime - Seconds to glide to the new position (default: the
+ * configured ramp time)
+ */
+export function setTrackPan(
+  trackNodes: MusicTrackNodes,
+  pan: number,
+  rampTime?: number
+): void {
+  rampTrackParam(
+    trackNodes.pan,
+    trackNodes.pan.pan,
+    Math.max(-1, Math.min(1, pan)),
+    rampTime
+  );
+}
+
+/**
+ * Gets the stage position of a track that has none set: in front of the
+ * listener, across the stage as far as its pan.
+ *
+ * @param pan - Track pan (-1 to 1)
  */
-export function setTrackPan(trackNodes: MusicTrackNodes, pan: number): void {
-  trackNodes.pan.pan.value = Math.max(-1, Math.min(1, pan));
+export function getDefaultTrackPosition(pan: number): MusicTrackPosition {
+  return { x: Math.max(-1, Math.min(1, pan)), y: DEFAULT_POSITION_DEPTH };
+}
+
+/**
+ * Switches a track between stereo panning and spatial placement.
+ *
+ * Spatial mode inserts an HRTF PannerNode in place of the StereoPannerNode,
+ * feeding the analyzer and sends the same way. The PannerNode is only
+ * created while needed, as HRTF processing is costly for every track.
+ *
+ * @param trackNodes - MusicTrackNodes for the track (updated in place)
+ * @param mode - Panning mode to switch to
+ * @param position - Track position, used when switching to spatial
+ */
+export function setTrackPanningMode(
+  trackNodes: MusicTrackNodes,
+  mode: TrackPanningMode,
+  position: MusicTrackPosition
+): void {
+  const { highpass, pan, analyzer, reverbSend, delaySend } = trackNodes;
+  if ((mode === "spatial") === (trackNodes.spatialPanner !== null)) return;
+
+  highpass.disconnect();
+
+  if (mode === "spatial") {
+    const spatialPanner = highpass.context.createPanner();
+    spatialPanner.panningModel = "HRTF";
+    spatialPanner.distanceModel = "inverse";
+    spatialPanner.refDistance = SPATIAL_REF_DISTANCE;
+    spatialPanner.rolloffFactor = SPATIAL_ROLLOFF_FACTOR;
+
+    spatialPanner.connect(analyzer);
+    if (reverbSend) spatialPanner.connect(reverbSend);
+    if (delaySend) spatialPanner.connect(delaySend);
+
+    trackNodes.spatialPanner = spatialPanner;
+    setTrackPosition(trackNodes, position, 0);
+    highpass.connect(spatialPanner);
+  } else {
+    highpass.connect(pan);
+    trackNodes.spatialPanner?.disconnect();
+    trackNodes.spatialPanner = null;
+  }
 }
 
 /**
- * Mutes or unmutes a track.
+ * Moves a track on the spatial stage. Has no effect in stereo mode.
+ *
+ * The listener sits at the centre facing forward (-z in Web Audio space),
+ * so x maps to left/right and y to in front/behind.
  *
  * @param trackNodes - MusicTrackNodes for the track
- * @param muted - Whether to mute the track
+ * @param position - Stage position, each axis -1 to 1
+ * @param rampTime - Seconds to glide to the new position (default: the
+ * configured ramp time)
  */
-export function setTrackMute(
+export function setTrackPosition(
   trackNodes: MusicTrackNodes,
-  muted: boolean
+  position: MusicTrackPosition,
+  rampTime?: number
 ): void {
-  trackNodes.gain.gain.value = muted ? 0 : trackNodes.gain.gain.value;
+  const { spatialPanner } = trackNodes;
+  if (!spatialPanner) return;
+
+  const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+  rampTrackParam(
+    spatialPanner,
+    spatialPanner.positionX,
+    clamp(position.x) * SPATIAL_STAGE_RADIUS,
+    rampTime
+  );
+  rampTrackParam(
+    spatialPanner,
+    spatialPanner.positionZ,
+    -clamp(position.y) * SPATIAL_STAGE_RADIUS,
+    rampTime
+  );
+}
+
+/**
+ * Applies EQ, filter and send settings to a track.
+ *
+ * The filter sweeps exponentially so equal slider movements sound like equal
+ * steps: below 0 the low-pass cutoff falls from the top of the audible range
+ * to 200 Hz, above 0 the high-pass cutoff rises to 5 kHz.
+ *
+ * @param trackNodes - MusicTrackNodes for the track
+ * @param effects - Effect settings to apply
+ * @param rampTime - Seconds to glide to the new settings (default: the
+ * configured ramp time)
+ */
+export function setTrackEffects(
+  trackNodes: MusicTrackNodes,
+  effects: MusicTrackEffects,
+  rampTime?: number
+): void {
+  const clampDb = (db: number) =>
+    Math.max(-TRACK_EQ_RANGE_DB, Math.min(TRACK_EQ_RANGE_DB, db));
+  const clampLevel = (level: number) => Math.max(0, Math.min(1, level));
+  const ramp = (node: AudioNode, param: AudioParam, target: number) =>
+    rampTrackParam(node, param, target, rampTime);
+
+  ramp(trackNodes.eqLow, trackNodes.eqLow.gain, clampDb(effects.eqLow));
+  ramp(trackNodes.eqMid, trackNodes.eqMid.gain, clampDb(effects.eqMid));
+  ramp(trackNodes.eqHigh, trackNodes.eqHigh.gain, clampDb(effects.eqHigh));
+
+  const filter = Math.max(-1, Math.min(1, effects.filter));
+  const lowpassOpen = trackNodes.lowpass.context.sampleRate / 2;
+  ramp(
+    trackNodes.lowpass,
+    trackNodes.lowpass.frequency,
+    filter < 0
+      ? lowpassOpen *
+          Math.pow(FILTER_LOWPASS_MIN_FREQUENCY / lowpassOpen, -filter)
+      : lowpassOpen
+  );
+  ramp(
+    trackNodes.highpass,
+    trackNodes.highpass.frequency,
+    filter > 0
+      ? FILTER_HIGHPASS_OPEN_FREQUENCY *
+          Math.pow(
+            FILTER_HIGHPASS_MAX_FREQUENCY / FILTER_HIGHPASS_OPEN_FREQUENCY,
+            filter
+          )
+      : FILTER_HIGHPASS_OPEN_FREQUENCY
+  );
+
+  if (trackNodes.reverbSend) {
+    ramp(
+      trackNodes.reverbSend,
+      trackNodes.reverbSend.gain,
+      linearToGain(clampLevel(effects.reverbSend))
+    );
+  }
+  if (trackNodes.delaySend) {
+    ramp(
+      trackNodes.delaySend,
+      trackNodes.delaySend.gain,
+      linearToGain(clampLevel(effects.delaySend))
+    );
+  }
+}
+
+/**
+ * Applies a track's whole mix state (volume/mute, pan, position and effects)
+ * to its nodes.
+ *
+ * @param trackNodes - MusicTrackNodes for the track
+ * @param state - Track state to apply
+ * @param rampTime - Seconds to glide to the new state (default: 0, an
+ * instant change for setting up new nodes; pass a ramp time when applying
+ * to a playing track, e.g. restoring a mix snapshot)
+ */
+export function applyTrackState(
+  trackNodes: MusicTrackNodes,
+  state: MusicTrackState,
+  rampTime: number = 0
+): void {
+  setTrackVolume(
+    trackNodes,
+    state.isEffectivelyMuted ? 0 : state.volume,
+    rampTime
+  );
+  setTrackPan(trackNodes, state.pan, rampTime);
+  setTrackPosition(trackNodes, state.position, rampTime);
+  setTrackEffects(trackNodes, state.effects, rampTime);
+}
+
+/**
+ * Fades a track's gain to match its volume and effective mute state, now or
+ * at a scheduled context time (e.g., the next bar of a quantized mute or
+ * solo). Changes already scheduled from that time on are replaced, so
+ * toggling twice before the grid line leaves only the latest state.
+ *
+ * @param trackNodes - MusicTrackNodes for the track
+ * @param state - Volume and effective mute state to apply
+ * @param when - Context time to apply the change at (default: now)
+ */
+export function scheduleTrackMute(
+  trackNodes: MusicTrackNodes,
+  state: Pick<MusicTrackState, "volume" | "isEffectivelyMuted">,
+  when: number | null = null
+): void {
+  const target = state.isEffectivelyMuted ? 0 : linearToGain(state.volume);
+
+  // Linear so muting reaches true silence
+  rampParam(trackNodes.gain.gain, target, trackNodes.gain.context.currentTime, {
+    startTime: when,
+    rampTime: getAutomationSettings().muteFadeTime,
+    shape: "linear",
+  });
+}
+
+/**
+ * Applies a set's loop region to a track's current source.
+ *
+ * @param trackNodes - MusicTrackNodes for the track (its source must have a buffer)
+ * @param loop - Loop region of the set, or null to loop the whole buffer
+ * @returns The region applied, fitted to the track, or null for the whole buffer
+ */
+export function setTrackLoopRegion(
+  trackNodes: MusicTrackNodes,
+  loop: MusicSetLoopPoints | null
+): MusicSetLoopPoints | null {
+  const { source } = trackNodes;
+  const region = source.buffer ? getTrackLoopRegion(loop, source.buffer) : null;
+
+  // loopEnd 0 (the default) loops the whole buffer
+  source.loopStart = region?.start ?? 0;
+  source.loopEnd = region?.end ?? 0;
+  return region;
+}
+
+/**
+ * Replaces the track's source node with a fresh one.
+ *
+ * AudioBufferSourceNodes can only be started once, so pausing, resuming or
+ * seeking requires a new source. The old source is stopped and disconnected,
+ * and the new one keeps its loop setting.
+ *
+ * @param trackNodes - MusicTrackNodes for the track (source is replaced in place)
+ * @param buffer - Buffer for the new source (default: the old source's buffer)
+ * @returns The new, unstarted source node
+ */
+export function replaceTrackSource(
+  trackNodes: MusicTrackNodes,
+  buffer: AudioBuffer | null = trackNodes.source.buffer
+): AudioBufferSourceNode {
+  const audioCtx = getAudioContext();
+  if (!audioCtx) {
+    throw new Error(
+      "replaceTrackSource - unable to create source. Audio context not initialized."
+    );
+  }
+
+  const previous = trackNodes.source;
+  stopTrack(trackNodes);
+  previous.disconnect();
+
+  const source = audioCtx.createBufferSource();
+  source.buffer = buffer;
+  source.loop = previous.loop;
+  source.connect(trackNodes.gain);
+
+  trackNodes.source = source;
+  return source;
 }
 
 /**
@@ -116,12 +517,14 @@ export function setTrackMute(
  *
  * @param trackNodes - MusicTrackNodes for the track
  * @param when - When to start (in seconds, default = now)
+ * @param offset - Position within the buffer to start from (in seconds, default = 0)
  */
 export function startTrack(
   trackNodes: MusicTrackNodes,
-  when: number = 0
+  when: number = 0,
+  offset: number = 0
 ): void {
-  trackNodes.source.start(when);
+  trackNodes.source.start(when, offset);
 }
 
 /**
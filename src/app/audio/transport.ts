@@ -0,0 +1,244 @@
+"use client";
+
+import { getAudioContext } from "./audio";
+import {
+  replaceTrackSource,
+  setTrackLoopRegion,
+  startTrack,
+  stopTrack,
+} from "./tracks";
+import { wrapLoopPosition } from "./tempo";
+import {
+  MusicSetData,
+  MusicSetLoopPoints,
+  MusicSetTransport,
+  MusicTrackNodes,
+} from "./types";
+
+/**
+ * Delay (in seconds) between scheduling and starting sources. Scheduling every
+ * track against the same future context time keeps them sample-aligned even
+ * if creating the sources takes a few milliseconds.
+ */
+const SCHEDULE_AHEAD_TIME = 0.05;
+
+/**
+ * Creates the transport for a newly loaded music set.
+ * The transport starts paused at the beginning of the set.
+ *
+ * @param buffers - Decoded buffers of the set's tracks loaded so far
+ * @param loop - Loop region of the set (default: loop each whole buffer)
+ * @returns Transport sized to the longest track
+ */
+export function createMusicSetTransport(
+  buffers: AudioBuffer[],
+  loop: MusicSetLoopPoints | null = null
+): MusicSetTransport {
+  const duration = buffers.reduce(
+    (longest, buffer) => Math.max(longest, buffer.duration),
+    0
+  );
+
+  return {
+    duration,
+    isPlaying: false,
+    startedAt: 0,
+    offset: 0,
+    loop,
+  };
+}
+
+/**
+ * Gets the current playhead position of a music set.
+ *
+ * @param musicSetData - Loaded music set
+ * @returns Position in seconds within the set's duration
+ */
+export function getMusicSetPosition(musicSetData: MusicSetData): number {
+  const { transport } = musicSetData;
+  if (!transport.isPlaying) return transport.offset;
+
+  const audioCtx = getAudioContext();
+  if (!audioCtx) return transport.offset;
+
+  // Sources are scheduled slightly ahead, so clamp the pre-roll to zero
+  const elapsed = Math.max(0, audioCtx.currentTime - transport.startedAt);
+  return wrapLoopPosition(
+    transport.offset + elapsed,
+    transport.duration,
+    transport.loop
+  );
+}
+
+/**
+ * Gets the context time of the next grid line (beat or bar) of a playing
+ * music set, for scheduling quantized actions. The grid starts at the
+ * beginning of the set; the end of the loop region also counts as a line,
+ * so loop regions should span whole bars.
+ *
+ * @param musicSetData - Loaded music set
+ * @param interval - Grid spacing in seconds (see getQuantizeInterval)
+ * @returns AudioContext time of the next grid line, or null if the set is
+ * not playing (actions should then take effect immediately)
+ */
+export function getNextQuantizedTime(
+  musicSetData: MusicSetData,
+  interval: number
+): number | null {
+  const { transport } = musicSetData;
+  if (!transport.isPlaying || interval <= 0) return null;
+
+  const audioCtx = getAudioContext();
+  if (!audioCtx) return null;
+
+  // During the scheduling pre-roll the playhead sits at the start offset
+  const now = Math.max(audioCtx.currentTime, transport.startedAt);
+  const position = getMusicSetPosition(musicSetData);
+
+  const untilGridLine = Math.ceil(position / interval) * interval - position;
+  const loopEnd = transport.loop
+    ? Math.min(transport.loop.end, transport.duration)
+    : transport.duration;
+  const untilLoopEnd = loopEnd - position;
+
+  return now + Math.max(0, Math.min(untilGridLine, untilLoopEnd));
+}
+
+/**
+ * Starts a track's new source at a playhead position of its set, applying
+ * the set's loop region to the source.
+ */
+function startTrackAt(
+  nodes: MusicTrackNodes,
+  buffer: AudioBuffer,
+  loop: MusicSetLoopPoints | null,
+  when: number,
+  position: number
+): void {
+  replaceTrackSource(nodes, buffer);
+  const region = setTrackLoopRegion(nodes, loop);
+
+  // Shorter tracks loop on their own length, so wrap per buffer
+  startTrack(nodes, when, wrapLoopPosition(position, buffer.duration, region));
+}
+
+/**
+ * Starts (or restarts) every track in a music set from the given position.
+ *
+ * New sources are created for each track and scheduled against the same
+ * context time so all tracks stay in lockstep.
+ *
+ * @param musicSetData - Loaded music set
+ * @param position - Position in seconds to play from (default: current playhead)
+ * @param startAt - Optional context time to start at (e.g., the next bar of
+ * an outgoing set); never earlier than the scheduling delay allows
+ * @returns Context time the tracks start at, or null if audio is not initialized
+ */
+export function playMusicSet(
+  musicSetData: MusicSetData,
+  position: number = getMusicSetPosition(musicSetData),
+  startAt?: number
+): number | null {
+  const audioCtx = getAudioContext();
+  if (!audioCtx) {
+    console.warn(
+      "playMusicSet - unable to play. Audio context not initialized."
+    );
+    return null;
+  }
+
+  const { transport } = musicSetData;
+  const offset = wrapLoopPosition(position, transport.duration, transport.loop);
+  const when = Math.max(
+    audioCtx.currentTime + SCHEDULE_AHEAD_TIME,
+    startAt ?? 0
+  );
+
+  musicSetData.nodes.forEach((nodes, trackId) => {
+    const buffer = musicSetData.buffers.get(trackId);
+
+    // Tracks that are still loading join later (see joinMusicSetTrack)
+    if (!buffer) return;
+
+    startTrackAt(nodes, buffer, transport.loop, when, offset);
+  });
+
+  transport.isPlaying = true;
+  transport.startedAt = when;
+  transport.offset = offset;
+  return when;
+}
+
+/**
+ * Adds a track that finished loading after its music set was created.
+ *
+ * If the set is already playing, the track is started at the playhead
+ * position it will have when the new source begins, so it joins the other
+ * tracks in sync. Otherwise it simply starts with the set next time it plays.
+ *
+ * @param musicSetData - Loaded (or partially loaded) music set
+ * @param trackId - ID of the track
+ * @param buffer - Decoded buffer for the track
+ */
+export function joinMusicSetTrack(
+  musicSetData: MusicSetData,
+  trackId: string,
+  buffer: AudioBuffer
+): void {
+  const { transport } = musicSetData;
+  const nodes = musicSetData.nodes.get(trackId);
+  if (!nodes) return;
+
+  musicSetData.buffers.set(trackId, buffer);
+  transport.duration = Math.max(transport.duration, buffer.duration);
+
+  if (!transport.isPlaying) return;
+
+  const audioCtx = getAudioContext();
+  if (!audioCtx) return;
+
+  const when = audioCtx.currentTime + SCHEDULE_AHEAD_TIME;
+  const elapsed = Math.max(0, when - transport.startedAt);
+
+  startTrackAt(nodes, buffer, transport.loop, when, transport.offset + elapsed);
+}
+
+/**
+ * Pauses every track in a music set and remembers the playhead position.
+ *
+ * @param musicSetData - Loaded music set
+ */
+export function pauseMusicSet(musicSetData: MusicSetData): void {
+  const { transport } = musicSetData;
+  if (!transport.isPlaying) return;
+
+  const position = getMusicSetPosition(musicSetData);
+  musicSetData.nodes.forEach((nodes) => stopTrack(nodes));
+
+  transport.isPlaying = false;
+  transport.offset = position;
+}
+
+/**
+ * Moves the playhead of a music set.
+ * If the set is playing, all tracks restart at the new position together.
+ *
+ * @param musicSetData - Loaded music set
+ * @param position - Target position in seconds
+ */
+export function seekMusicSet(
+  musicSetData: MusicSetData,
+  position: number
+): void {
+  const { transport } = musicSetData;
+
+  if (transport.isPlaying) {
+    playMusicSet(musicSetData, position);
+  } else {
+    transport.offset = wrapLoopPosition(
+      position,
+      transport.duration,
+      transport.loop
+    );
+  }
+}
@@ -1,14 +1,89 @@
+/**
+ * One encoded file of a track in a specific audio format.
+ */
+export interface MusicTrackSource {
+  /** Path to the audio file relative to public directory (e.g., "/audio/zone1/deactivator.opus") */
+  path: string;
+  /** MIME type for canPlayType, with codecs where known (e.g., 'audio/ogg; codecs="opus"') */
+  type: string;
+}
+
 /**
  * Represents a single audio track within a music set.
- * Each track is a separate audio file (e.g., deactivator.mp3, elasticity.mp3).
+ * Each track is a separate audio file (e.g., deactivator.mp3, elasticity.mp3),
+ * optionally available in several formats (e.g., deactivator.opus alongside it).
  */
 export interface MusicTrack {
   /** Unique identifier for the track (e.g., "deactivator") */
   id: string;
   /** Display name for the track (e.g., "Deactivator") */
   name: string;
-  /** Path to the audio file relative to public directory (e.g., "/audio/zone1/deactivator.mp3") */
+  /**
+   * Path to the primary audio file relative to public directory
+   * (e.g., "/audio/zone1/deactivator.mp3"). This is the MP3 when one exists,
+   * and is loaded when no other source is playable.
+   */
   path: string;
+  /** Every available format of the track, most preferred first */
+  sources: MusicTrackSource[];
+  /** Optional accent colour for the track (any CSS colour) */
+  color?: string;
+  /** Optional starting volume (0-1), overrides AudioConfigDefaultSettings.trackVolume */
+  defaultVolume?: number;
+  /** Optional starting pan (-1 to 1), overrides AudioConfigDefaultSettings.trackPan */
+  defaultPan?: number;
+  /** Optional starting position on the spatial stage (default: derived from the pan) */
+  defaultPosition?: MusicTrackPosition;
+}
+
+/**
+ * Position of a track on the spatial stage, seen from above with the
+ * listener at the centre facing up.
+ */
+export interface MusicTrackPosition {
+  /** Left (-1) to right (1) */
+  x: number;
+  /** Behind (-1) to in front (1) of the listener */
+  y: number;
+}
+
+/**
+ * How tracks are placed around the listener.
+ * - stereo: left/right only, with a StereoPannerNode per track
+ * - spatial: anywhere around the listener, with an HRTF PannerNode per track
+ */
+export type TrackPanningMode = "stereo" | "spatial";
+
+/**
+ * Loop region of a music set in seconds.
+ */
+export interface MusicSetLoopPoints {
+  /** Start of the loop region in seconds */
+  start: number;
+  /** End of the loop region in seconds */
+  end: number;
+}
+
+/**
+ * Time signature of a music set, used to find bar lines.
+ */
+export interface MusicSetTimeSignature {
+  /** Beats in each bar (the top number, e.g., 3 for 3/4) */
+  beatsPerBar: number;
+  /** Note value of one beat (the bottom number, e.g., 4 for 3/4) */
+  beatUnit: number;
+}
+
+/**
+ * Credit line for a music set (e.g., composer, performer).
+ */
+export interface MusicSetCredit {
+  /** Person or group being credited */
+  name: string;
+  /** Optional role (e.g., "Composer") */
+  role?: string;
+  /** Optional link to the credited person or work */
+  url?: string;
 }
 
 /**
@@ -24,6 +99,47 @@ export interface MusicSets {
   displayName: string;
   /** Array of tracks belonging to this music set */
   tracks: MusicTrack[];
+  /** Optional accent colour for the set (any CSS colour) */
+  color?: string;
+  /** Optional tempo in beats per minute; enables bar/beat quantized actions */
+  bpm?: number;
+  /** Optional time signature (default: 4/4 when a BPM is given) */
+  timeSignature?: MusicSetTimeSignature;
+  /** Optional musical key (e.g., "A minor") */
+  key?: string;
+  /**
+   * Optional loop region; playback runs from the start of the set into the
+   * region and then repeats it. The whole buffer loops when omitted.
+   */
+  loop?: MusicSetLoopPoints;
+  /** Optional credits for the set */
+  credits?: MusicSetCredit[];
+  /** Optional artist name for OS media controls */
+  artist?: string;
+  /** Optional URL of a cover image for OS media controls */
+  artwork?: string;
+}
+
+/**
+ * Per-track insert effects and send levels, as set in the track's mixer strip.
+ * All values are neutral at 0, so a fresh track sounds unprocessed.
+ */
+export interface MusicTrackEffects {
+  /** Low shelf EQ gain in dB (-12 to 12) */
+  eqLow: number;
+  /** Mid peaking EQ gain in dB (-12 to 12) */
+  eqMid: number;
+  /** High shelf EQ gain in dB (-12 to 12) */
+  eqHigh: number;
+  /**
+   * DJ-style filter sweep from -1 (low-pass, darkest) to 1 (high-pass,
+   * thinnest). 0 bypasses both filters.
+   */
+  filter: number; // -1 to 1
+  /** Level sent to the music set's shared reverb bus (0-1) */
+  reverbSend: number;
+  /** Level sent to the music set's shared delay bus (0-1) */
+  delaySend: number;
 }
 
 /**
@@ -46,21 +162,84 @@ export interface MusicTrackState {
   volume: number; // 0-1
   /** Stereo pan position from -1 (full left) to 1 (full right), 0 is center */
   pan: number; // -1 to 1
+  /** Position on the spatial stage, used instead of pan in spatial mode */
+  position: MusicTrackPosition;
+  /** EQ, filter and send settings */
+  effects: MusicTrackEffects;
 }
 
 /**
  * Contains the Web Audio API nodes for a single track.
- * These nodes form a chain: source → gain → pan → analyzer → music set output
+ * These nodes form a chain:
+ * source → gain → eqLow → eqMid → eqHigh → lowpass → highpass → pan → analyzer → music set output
+ * with post-fader sends tapped after pan into the set's effect buses. In
+ * spatial mode, spatialPanner takes the place of pan.
  */
 export interface MusicTrackNodes {
   /** AudioBufferSourceNode - plays the audio buffer (one-time use, recreated on each play) */
   source: AudioBufferSourceNode;
   /** GainNode - controls volume and mute */
   gain: GainNode;
+  /** BiquadFilterNode (lowshelf) - low band of the 3-band EQ */
+  eqLow: BiquadFilterNode;
+  /** BiquadFilterNode (peaking) - mid band of the 3-band EQ */
+  eqMid: BiquadFilterNode;
+  /** BiquadFilterNode (highshelf) - high band of the 3-band EQ */
+  eqHigh: BiquadFilterNode;
+  /** BiquadFilterNode (lowpass) - negative half of the filter sweep */
+  lowpass: BiquadFilterNode;
+  /** BiquadFilterNode (highpass) - positive half of the filter sweep */
+  highpass: BiquadFilterNode;
   /** StereoPannerNode - controls left/right positioning */
   pan: StereoPannerNode;
+  /** PannerNode (HRTF) - positions the track around the listener (null outside spatial mode) */
+  spatialPanner: PannerNode | null;
   /** AnalyserNode - provides per-track frequency analysis */
   analyzer: AnalyserNode;
+  /** GainNode - level sent to the set's reverb bus (null if the set has no buses) */
+  reverbSend: GainNode | null;
+  /** GainNode - level sent to the set's delay bus (null if the set has no buses) */
+  delaySend: GainNode | null;
+}
+
+/**
+ * Shared send-effect buses for a music set. Every track in the set can send
+ * to them; their returns feed the music set node so they crossfade with it.
+ *
+ * Reverb: sends → reverb → reverbReturn → music set node
+ * Delay: sends → delay ⇄ delayFeedback, delay → delayReturn → music set node
+ */
+export interface MusicSetEffectBuses {
+  /** ConvolverNode - reverb with a generated impulse response */
+  reverb: ConvolverNode;
+  /** GainNode - reverb return level */
+  reverbReturn: GainNode;
+  /** DelayNode - echo, tempo-synced when the set has a BPM */
+  delay: DelayNode;
+  /** GainNode - amount of each echo fed back into the delay */
+  delayFeedback: GainNode;
+  /** GainNode - delay return level */
+  delayReturn: GainNode;
+}
+
+/**
+ * Playhead bookkeeping for a music set. All tracks in a set share a single
+ * transport so they can be paused, resumed and seeked in lockstep.
+ *
+ * While playing, the playhead position is `offset + (currentTime - startedAt)`
+ * wrapped to the duration. While paused, the playhead position is `offset`.
+ */
+export interface MusicSetTransport {
+  /** Length of the longest track in the set, in seconds */
+  duration: number;
+  /** Whether the set's sources are currently scheduled and playing */
+  isPlaying: boolean;
+  /** AudioContext time (seconds) at which the current sources started */
+  startedAt: number;
+  /** Playhead position (seconds) the current sources started from, or the paused position */
+  offset: number;
+  /** Loop region of the set, or null to loop each whole buffer */
+  loop: MusicSetLoopPoints | null;
 }
 
 /**
@@ -70,24 +249,79 @@ export interface MusicTrackNodes {
 export interface MusicSetData {
   /** The music set ID this data belongs to */
   setId: number;
-  /** Decoded audio buffers for all tracks in the music set */
-  buffers: AudioBuffer[];
-  /** Web Audio node chains for all tracks in the music set */
-  nodes: MusicTrackNodes[];
+  /** Decoded audio buffers by track ID (a track is missing until it finishes loading) */
+  buffers: Map<string, AudioBuffer>;
+  /** Web Audio node chains by track ID, in set order */
+  nodes: Map<string, MusicTrackNodes>;
   /** The master gain node for this music set (parent node for all tracks) */
   musicSetNode: GainNode;
+  /** Reverb and delay buses shared by the set's tracks */
+  effectBuses: MusicSetEffectBuses;
   /** Map of track IDs to their analyzer nodes for per-track audio analysis */
   trackAnalyzers: Map<string, AnalyserNode>;
+  /** Shared playhead for all tracks in the music set */
+  transport: MusicSetTransport;
+}
+
+/**
+ * Download progress for a single track.
+ */
+export interface AudioTrackLoadProgress {
+  /** Bytes received so far */
+  loadedBytes: number;
+  /** Expected size in bytes, 0 if not known yet */
+  totalBytes: number;
+  /** Whether the track has been downloaded and decoded */
+  decoded: boolean;
 }
 
 /**
- * Global audio system state managed by AudioContext.
+ * Download progress for a group of tracks loaded together (e.g. a music set).
+ */
+export interface AudioLoadProgress {
+  /** Progress of each track, in request order */
+  tracks: AudioTrackLoadProgress[];
+  /** Total bytes received across all tracks */
+  loadedBytes: number;
+  /** Total expected bytes across tracks with a known size */
+  totalBytes: number;
+  /** Aggregate progress from 0 to 100 (decoded tracks count as complete) */
+  percent: number;
+}
+
+/**
+ * Whether the browser lets the audio context make sound.
+ * - uninitialized: no context yet (or it was closed)
+ * - locked: suspended by the autoplay policy (or after device sleep) until a
+ *   user gesture resumes it
+ * - interrupted: the OS took the audio session (iOS calls, Siri, route
+ *   changes); it resumes when allowed, or on the next gesture
+ * - unlocked: running, or deliberately paused by the page
+ */
+export type AudioUnlockState =
+  "uninitialized" | "locked" | "interrupted" | "unlocked";
+
+/**
+ * What the audio-reactive visuals follow.
+ * - music: the site's music sets
+ * - microphone: the visitor's microphone (analysed only, never played)
+ * - file: an audio file from the visitor's device, played on a loop
+ */
+export type AudioAnalysisInput = "music" | "microphone" | "file";
+
+/**
+ * Global audio system state managed by AudioEngine.
  * This represents the entire state of the audio system at any given time.
  */
 export interface AudioState {
   /** Whether the audio system has been initialized (user interaction required) */
   isInitialized: boolean;
-  /** Error that occurred during audio initialization, null if no error */
+  /** Whether the browser currently lets the audio context make sound */
+  unlockState: AudioUnlockState;
+  /**
+   * Error that occurred during audio initialization, or an AudioInputError
+   * from the microphone or file input (recoverable), null if no error
+   */
   audioError: Error | null;
   /** Whether the master output is muted */
   isMasterMuted: boolean;
@@ -97,17 +331,34 @@ export interface AudioState {
   currentSet: number | null;
   /** ID of the music set currently being loaded, null if none (used for loading UI) */
   loadingSet: number | null;
+  /** Download progress (0-100) of the music set in loadingSet, null if nothing is loading */
+  loadingProgress: number | null;
   /** Map of music set IDs to their loaded data (typically only contains current music set) */
   loadedSets: Map<number, MusicSetData>;
   /** Array of track states for the current music set */
   tracks: MusicTrackState[];
   /** Whether audio is currently playing */
   isPlaying: boolean;
+  /** Playhead position of the current music set in seconds (refreshed periodically while playing) */
+  playbackPosition: number;
+  /** Duration of the current music set in seconds, 0 if none is loaded */
+  playbackDuration: number;
+  /** Grid that mute, solo and music set switches currently snap to */
+  quantize: QuantizeMode;
+  /** Whether another tab of the site is playing (this tab then stays paused) */
+  isPlayingElsewhere: boolean;
+  /** Whether tracks are panned in stereo or placed around the listener */
+  panningMode: TrackPanningMode;
+  /** What the visuals follow */
+  analysisInput: AudioAnalysisInput;
+  /** Microphone label or file name of the analysis input, null for music */
+  analysisInputLabel: string | null;
 }
 
 /**
  * Configuration for the audio system including available music sets and default settings.
- * This is generated by scanning the public/audio/ directory structure.
+ * This is generated from the set.json manifests (or a scan of the audio files)
+ * in the public/audio/ directory structure.
  */
 export interface AudioConfig {
   /** Array of all available music sets discovered from the file system */
@@ -116,6 +367,23 @@ export interface AudioConfig {
   defaultSettings: AudioConfigDefaultSettings;
 }
 
+/**
+ * Gain curve shapes used when crossfading between music sets.
+ * - equalPower: sine/cosine curves that keep perceived loudness constant
+ * - linear: straight ramps (dips in loudness at the midpoint)
+ */
+export type CrossfadeCurve = "equalPower" | "linear";
+
+/**
+ * Musical grid that mute, solo and music set switches snap to.
+ * - off: take effect immediately
+ * - beat: wait for the next beat
+ * - bar: wait for the next bar line
+ *
+ * Only sets with a BPM are quantized; others always take effect immediately.
+ */
+export type QuantizeMode = "off" | "beat" | "bar";
+
 /**
  * Configuration of default settings for handling audio in the app.
  */
@@ -126,4 +394,60 @@ export interface AudioConfigDefaultSettings {
   trackVolume: number;
   /** Default pan position for tracks (0 = center) */
   trackPan: number;
+  /** Whether tracks start panned in stereo or placed around the listener */
+  panningMode: TrackPanningMode;
+  /** Duration in seconds of the crossfade when switching music sets */
+  crossfadeDuration: number;
+  /** Gain curve used for the crossfade when switching music sets */
+  crossfadeCurve: CrossfadeCurve;
+  /** Grid that mute, solo and music set switches snap to */
+  quantize: QuantizeMode;
+  /** Seconds volume, pan and effect changes glide over (0 jumps instantly) */
+  parameterRampTime: number;
+  /** Seconds mute and solo fade over (0 cuts instantly) */
+  muteFadeTime: number;
+  /** Memory ceiling in megabytes for decoded track buffers kept between set switches */
+  bufferCacheSizeMB: number;
+  /** Whether encoded track audio is persisted with Cache Storage to skip downloads on repeat visits */
+  persistEncodedAudio: boolean;
+  /** Whether the next/previous music sets are prefetched while the browser is idle */
+  prefetchAdjacentSets: boolean;
+  /** Whether the master limiter protects the output from clipping */
+  masterLimiterEnabled: boolean;
+  /** Master limiter ceiling in dBFS */
+  masterLimiterThreshold: number;
+  /** Master bus compressor threshold in dBFS */
+  masterCompressorThreshold: number;
+  /** Master bus compressor ratio (1 disables compression) */
+  masterCompressorRatio: number;
+  /** Optional master EQ; null leaves the master bus flat */
+  masterEq: MasterEqSettings | null;
+}
+
+/**
+ * Gains for the optional 3-band master EQ.
+ */
+export interface MasterEqSettings {
+  /** Low shelf gain in dB */
+  low: number;
+  /** Mid peaking gain in dB */
+  mid: number;
+  /** High shelf gain in dB */
+  high: number;
+}
+
+/**
+ * Output levels of the master bus, as shown by the master meter.
+ */
+export interface MasterMeterReading {
+  /** Sample peak of the latest block in dBFS */
+  peak: number;
+  /** RMS level of the latest block in dBFS */
+  rms: number;
+  /** Short-term (3 s) K-weighted loudness in LUFS */
+  loudness: number;
+  /** Current gain reduction of the compressor and limiter combined, in dB (0 or negative) */
+  gainReduction: number;
+  /** Whether the output hit the clip threshold recently (held briefly so it is visible) */
+  isClipping: boolean;
 }
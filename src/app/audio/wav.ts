@@ -0,0 +1,102 @@
+/**
+ * WAV (RIFF PCM) encoding. Pure TypeScript with no Web Audio dependency, so it
+ * runs in the browser and under Node alike.
+ */
+
+/** Supported PCM sample sizes */
+export type WavBitDepth = 16 | 24;
+
+/** Size of the RIFF/fmt/data headers in bytes */
+const WAV_HEADER_BYTES = 44;
+
+/** WAVE_FORMAT_PCM */
+const WAV_FORMAT_PCM = 1;
+
+/**
+ * Writes an ASCII string (chunk IDs) into a DataView.
+ */
+function writeAscii(view: DataView, offset: number, text: string): void {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i));
+  }
+}
+
+/**
+ * Encodes planar float samples as an interleaved PCM WAV file.
+ *
+ * Samples are clamped to [-1, 1] and scaled asymmetrically so -1 maps to the
+ * most negative integer and 1 to the most positive, without overflow.
+ *
+ * @param channels - One array of samples (-1 to 1) per channel, equal lengths
+ * @param sampleRate - Sample rate in Hz
+ * @param bitDepth - Bits per sample (default: 16)
+ * @returns WAV file contents
+ * @throws Error if there are no channels or their lengths differ
+ */
+export function encodeWav(
+  channels: Float32Array[],
+  sampleRate: number,
+  bitDepth: WavBitDepth = 16
+): ArrayBuffer {
+  if (channels.length === 0) {
+    throw new Error("encodeWav - unable to encode. No channels were given.");
+  }
+
+  const frameCount = channels[0].length;
+  if (channels.some((channel) => channel.length !== frameCount)) {
+    throw new Error(
+      "encodeWav - unable to encode. Channels must have the same length."
+    );
+  }
+
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = channels.length * bytesPerSample;
+  const dataBytes = frameCount * blockAlign;
+
+  const buffer = new ArrayBuffer(WAV_HEADER_BYTES + dataBytes);
+  const view = new DataView(buffer);
+
+  // RIFF header
+  writeAscii(view, 0, "RIFF");
+  view.setUint32(4, WAV_HEADER_BYTES - 8 + dataBytes, true);
+  writeAscii(view, 8, "WAVE");
+
+  // fmt chunk
+  writeAscii(view, 12, "fmt ");
+  view.setUint32(16, 16, true); // Chunk size
+  view.setUint16(20, WAV_FORMAT_PCM, true);
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true); // Byte rate
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+
+  // data chunk
+  writeAscii(view, 36, "data");
+  view.setUint32(40, dataBytes, true);
+
+  const maxPositive = 2 ** (bitDepth - 1) - 1;
+  const maxNegative = 2 ** (bitDepth - 1);
+  let offset = WAV_HEADER_BYTES;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (const channel of channels) {
+      const sample = Math.max(-1, Math.min(1, channel[frame] || 0));
+      const value = Math.round(
+        sample < 0 ? sample * maxNegative : sample * maxPositive
+      );
+
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        // 24-bit little-endian; the two's complement low bytes come from the mask
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return buffer;
+}
@@ -0,0 +1,148 @@
+/**
+ * Minimal ZIP archive writer. Files are stored uncompressed, which suits
+ * audio (PCM compresses poorly) and keeps this pure TypeScript with no
+ * dependencies, so it runs in the browser and under Node alike.
+ */
+
+/**
+ * A file to add to an archive.
+ */
+export interface ZipEntry {
+  /** Path inside the archive, using "/" separators (e.g., "stems/bass.wav") */
+  name: string;
+  /** File contents */
+  data: Uint8Array;
+}
+
+/** General purpose flag: file names are UTF-8 */
+const ZIP_FLAG_UTF8 = 0x0800;
+
+/** "Version needed to extract" for stored files */
+const ZIP_VERSION = 20;
+
+// CRC-32 (IEEE) lookup table, built on first use
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Computes the CRC-32 checksum ZIP requires for each file.
+ *
+ * @param data - Bytes to checksum
+ * @returns Unsigned CRC-32
+ */
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Converts a date to the MS-DOS time and date fields used by ZIP.
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+/**
+ * Creates a ZIP archive containing the given files, stored uncompressed.
+ *
+ * @param entries - Files to include, in order
+ * @param modified - Modification time recorded for every file (default: now)
+ * @returns Archive contents
+ */
+export function createZip(
+  entries: ZipEntry[],
+  modified: Date = new Date()
+): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modified);
+
+  const files = entries.map((entry) => ({
+    name: encoder.encode(entry.name),
+    data: entry.data,
+    crc: crc32(entry.data),
+    offset: 0,
+  }));
+
+  const localSize = files.reduce(
+    (sum, file) => sum + 30 + file.name.length + file.data.length,
+    0
+  );
+  const centralSize = files.reduce(
+    (sum, file) => sum + 46 + file.name.length,
+    0
+  );
+
+  const archive = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(archive.buffer);
+  let offset = 0;
+
+  // Local file headers followed by file data
+  for (const file of files) {
+    file.offset = offset;
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    view.setUint16(offset + 6, ZIP_FLAG_UTF8, true);
+    view.setUint16(offset + 8, 0, true); // Stored
+    view.setUint16(offset + 10, time, true);
+    view.setUint16(offset + 12, date, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.name.length, true);
+    view.setUint16(offset + 28, 0, true); // Extra field length
+    archive.set(file.name, offset + 30);
+    archive.set(file.data, offset + 30 + file.name.length);
+    offset += 30 + file.name.length + file.data.length;
+  }
+
+  // Central directory
+  const centralOffset = offset;
+  for (const file of files) {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true); // Version made by
+    view.setUint16(offset + 6, ZIP_VERSION, true);
+    view.setUint16(offset + 8, ZIP_FLAG_UTF8, true);
+    view.setUint16(offset + 10, 0, true); // Stored
+    view.setUint16(offset + 12, time, true);
+    view.setUint16(offset + 14, date, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.name.length, true);
+    // Extra field, comment, disk number, attributes: all zero
+    view.setUint32(offset + 42, file.offset, true);
+    archive.set(file.name, offset + 46);
+    offset += 46 + file.name.length;
+  }
+
+  // End of central directory record
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralOffset, true);
+
+  return archive;
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import React, { useCallback, useState } from "react";
+import { Button, Flex, SegmentedControl, Text } from "@/once-ui/components";
+import classNames from "classnames";
+import { useAnalysisInput } from "@/hooks/audio/useAnalysisInput";
+import { AudioAnalysisInput } from "@/app/audio/types";
+import styles from "./AnalysisInputControls.module.scss";
+
+/** Options for the input selector */
+const INPUT_OPTIONS: { label: string; value: AudioAnalysisInput }[] = [
+  { label: "Music", value: "music" },
+  { label: "Microphone", value: "microphone" },
+  { label: "File", value: "file" },
+];
+
+/**
+ * Analysis input selector.
+ *
+ * Lets the visitor point the audio-reactive visuals at the site's music, at
+ * their microphone (to follow whatever is playing in the room), or at an
+ * audio file dropped on (or picked in) the drop zone. Microphone and file
+ * errors are shown here with a way to retry.
+ */
+export const AnalysisInputControls: React.FC = () => {
+  const {
+    analysisInput,
+    analysisInputLabel,
+    inputError,
+    connectMicrophone,
+    loadAudioFile,
+    selectMusicInput,
+  } = useAnalysisInput();
+
+  /** Whether the drop zone is shown before a file is chosen */
+  const [isChoosingFile, setIsChoosingFile] = useState(false);
+
+  /** Whether a file is being dragged over the drop zone */
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const handleToggle = useCallback(
+    (value: string) => {
+      setIsChoosingFile(value === "file");
+      if (value === "music") {
+        selectMusicInput();
+      } else if (value === "microphone") {
+        connectMicrophone();
+      }
+    },
+    [selectMusicInput, connectMicrophone]
+  );
+
+  const handleFile = useCallback(
+    (file: File | undefined) => {
+      if (!file) return;
+      loadAudioFile(file);
+    },
+    [loadAudioFile]
+  );
+
+  const handleDrop = useCallback(
+    (event: React.DragEvent) => {
+      event.preventDefault();
+      setIsDragOver(false);
+      handleFile(event.dataTransfer.files[0]);
+    },
+    [handleFile]
+  );
+
+  const showFilePicker = isChoosingFile || analysisInput === "file";
+
+  return (
+    <Flex direction="column" gap="8">
+      <Flex gap="12" vertical="center">
+        <Text variant="label-default-m" onBackground="neutral-strong">
+          Visuals follow
+        </Text>
+        <SegmentedControl
+          buttons={INPUT_OPTIONS}
+          selected={showFilePicker ? "file" : analysisInput}
+          onToggle={handleToggle}
+          fillWidth={false}
+        />
+      </Flex>
+
+      {analysisInput === "microphone" && (
+        <Text variant="body-default-xs" onBackground="neutral-medium">
+          Listening to {analysisInputLabel}. It is not played back.
+        </Text>
+      )}
+
+      {showFilePicker && (
+        <label
+          className={classNames(styles.dropZone, {
+            [styles.dragOver]: isDragOver,
+          })}
+          onDragOver={(event) => {
+            event.preventDefault();
+            setIsDragOver(true);
+          }}
+          onDragLeave={() => setIsDragOver(false)}
+          onDrop={handleDrop}
+        >
+          <input
+            type="file"
+            accept="audio/*"
+            className={styles.fileInput}
+            onChange={(event) => {
+              handleFile(event.target.files?.[0]);
+              // Let the same file be picked again
+              event.target.value = "";
+            }}
+          />
+          <Text variant="body-default-s" onBackground="neutral-medium">
+            {analysisInput === "file"
+              ? `Playing ${analysisInputLabel}. Drop or choose another file to replace it.`
+              : "Drop an audio file here, or click to choose one."}
+          </Text>
+        </label>
+      )}
+
+      {inputError && (
+        <Flex gap="8" vertical="center" wrap role="alert">
+          <Text variant="body-default-s" onBackground="danger-weak">
+            {inputError.message}
+          </Text>
+          {inputError.reason !== "decodeFailed" &&
+            inputError.reason !== "unsupported" && (
+              <Button size="s" variant="secondary" onClick={connectMicrophone}>
+                Try again
+              </Button>
+            )}
+        </Flex>
+      )}
+    </Flex>
+  );
+};
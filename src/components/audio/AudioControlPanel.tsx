@@ -5,9 +5,19 @@ import { Flex, IconButton, SmartLink, Text } from "@/once-ui/components";
 import { AudioPanelToggle } from "./AudioPanelToggle";
 import { AudioControls } from "./AudioControls";
 import { TrackControlsGrid } from "./TrackControlsGrid";
+import { MixSnapshotControls } from "./MixSnapshotControls";
+import { MixExportControls } from "./MixExportControls";
+import { ControlSurfaceSettings } from "./ControlSurfaceSettings";
+import { SpatialStage } from "./SpatialStage";
+import { AnalysisInputControls } from "./AnalysisInputControls";
+import { ResumeSessionPrompt } from "./ResumeSessionPrompt";
 import styles from "./AudioControlPanel.module.scss";
 import classNames from "classnames";
 import { useAudioState } from "@/context/AudioStateContext";
+import { AudioInputError } from "@/app/audio/input";
+import { MusicSetLoadError } from "@/app/audio/engine";
+import { useControlSurface } from "@/hooks/audio/useControlSurface";
+import { useMediaSession } from "@/hooks/audio/useMediaSession";
 import { getEffectVariant } from "@/effect/config/loader";
 import type { MaskRadiusAnimatorParams } from "@/effect/animators";
 
@@ -42,6 +52,15 @@ export const AudioControlPanel: React.FC = () => {
   /** Reference to the scrollable panel element */
   const panelRef = useRef<HTMLDivElement>(null);
 
+  /**
+   * Keyboard and MIDI control of the mixer. Owned here because the panel
+   * stays mounted, so shortcuts work while it is collapsed.
+   */
+  const controlSurface = useControlSurface();
+
+  /** Lock screen, OS media overlay and hardware media key integration */
+  useMediaSession();
+
   /** Get effect config initialization state */
   const { isEffectConfigInitialized } = useAudioState();
 
@@ -166,7 +185,12 @@ export const AudioControlPanel: React.FC = () => {
   const { audioError, configError, effectConfigError, config } = useAudioState();
   // Show error only if audio initialization was attempted and failed (audioError is set)
   // Don't show error if audio simply hasn't been initialized yet (lazy initialization)
-  const hasAudioSupport = audioError === null;
+  // Microphone and file errors are recoverable and shown with the input selector,
+  // music set load errors with the set selector
+  const hasAudioSupport =
+    audioError === null ||
+    audioError instanceof AudioInputError ||
+    audioError instanceof MusicSetLoadError;
   const hasConfigError = configError !== null || effectConfigError !== null;
   const hasNoMusicSets = config.musicSets.length === 0;
 
@@ -190,6 +214,9 @@ export const AudioControlPanel: React.FC = () => {
           margin: "0 auto",
         }}
       >
+        {/* Offer to restart the last session's set */}
+        <ResumeSessionPrompt />
+
         {!isExpanded ? (
           <AudioPanelToggle onClick={toggleExpanded} />
         ) : (
@@ -324,6 +351,21 @@ export const AudioControlPanel: React.FC = () => {
                   </Text>
                   <AudioControls />
 
+                  {/* Music, microphone or file as the source for the visuals */}
+                  <AnalysisInputControls />
+
+                  {/* Mix snapshots and sharing */}
+                  <MixSnapshotControls />
+
+                  {/* Offline render and WAV download */}
+                  <MixExportControls />
+
+                  {/* Keyboard and MIDI mappings */}
+                  <ControlSurfaceSettings controlSurface={controlSurface} />
+
+                  {/* Stereo or spatial panning, and the stage */}
+                  <SpatialStage />
+
                   {/* Track controls */}
                   <TrackControlsGrid visualizerConfig={trackVisualizerConfig} />
                 </>
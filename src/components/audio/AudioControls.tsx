@@ -2,6 +2,7 @@
 
 import React, { useCallback, useState } from "react";
 import {
+  Button,
   Flex,
   IconButton,
   SegmentedControl,
@@ -9,8 +10,10 @@ import {
   Text,
 } from "@/once-ui/components";
 import { Slider } from "./Slider";
+import { MasterMeter } from "./MasterMeter";
 import { useAudioManager } from "@/hooks/audio/useAudioManager";
 import { useAudioMusicSet } from "@/hooks/audio/useAudioMusicSet";
+import { QuantizeMode } from "@/app/audio/types";
 import styles from "./AudioControls.module.scss";
 
 /**
@@ -35,6 +38,26 @@ const volumeToSlider = (volume: number): number => Math.sqrt(volume);
  */
 const sliderToVolume = (slider: number): number => slider * slider;
 
+/** Options for the quantize selector */
+const QUANTIZE_OPTIONS: { label: string; value: QuantizeMode }[] = [
+  { label: "Off", value: "off" },
+  { label: "Beat", value: "beat" },
+  { label: "Bar", value: "bar" },
+];
+
+/**
+ * Formats a playhead time for display.
+ *
+ * @param seconds - Time in seconds
+ * @returns Time formatted as m:ss
+ */
+const formatPlaybackTime = (seconds: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(seconds));
+  const minutes = Math.floor(totalSeconds / 60);
+  const remainder = totalSeconds % 60;
+  return `${minutes}:${remainder.toString().padStart(2, "0")}`;
+};
+
 /**
  * Audio controls component.
  *
@@ -42,6 +65,12 @@ const sliderToVolume = (slider: number): number => slider * slider;
  * - Music set selector (segmented control)
  * - Master mute/unmute button
  * - Master volume slider affecting all tracks
+ * - Output meter with loudness readout and clip indicator
+ * - Playback position slider for seeking within the current music set
+ * - Quantize selector (sets with a BPM) snapping mute, solo and set switches
+ *   to the next beat or bar, or a note that it is unavailable without one
+ * - A notice while another tab is playing (only one tab plays at a time;
+ *   playing here pauses the other tab)
  *
  * This component handles audio initialization on first user interaction,
  * as browsers require user gestures before playing audio.
@@ -52,19 +81,34 @@ export const AudioControls: React.FC = () => {
     masterVolume,
     toggleMasterMute,
     togglePlayPause,
+    seek,
     updateMasterVolume,
     initializeAudio,
     isInitialized,
     isPlaying,
+    playbackPosition,
+    playbackDuration,
+    quantize,
+    setQuantize,
+    isPlayingElsewhere,
+    unlockState,
+    config,
   } = useAudioManager();
 
   const {
     currentMusicSet,
     loadingMusicSet,
+    loadingProgress,
+    loadError,
     switchMusicSet,
+    retryMusicSet,
     availableMusicSets,
   } = useAudioMusicSet();
 
+  /** Tempo of the current set; quantizing only applies when it is known */
+  const currentBpm =
+    config.musicSets.find((ms) => ms.id === currentMusicSet)?.bpm ?? null;
+
   /**
    * Tracks whether the user has interacted with any audio control.
    * Used to ensure audio context is initialized before playback.
@@ -74,13 +118,12 @@ export const AudioControls: React.FC = () => {
   /**
    * Convert available music sets to options for the SegmentedControl.
    * Maps music set objects to { label, value } format.
-   * Disable all buttons when a music set is loading.
+   * Buttons stay enabled while loading; picking another set cancels the
+   * load in progress.
    */
-  const isLoadingSet = loadingMusicSet !== null;
   const musicSetOptions = availableMusicSets.map((musicSet) => ({
     label: musicSet.displayName,
     value: musicSet.id.toString(),
-    disabled: isLoadingSet,
   }));
 
   /**
@@ -175,6 +218,18 @@ export const AudioControls: React.FC = () => {
     togglePlayPause();
   }, [togglePlayPause, isInitialized, initializeAudio, hasInteracted]);
 
+  /**
+   * Handle playback position slider changes.
+   *
+   * @param position - Target playhead position in seconds
+   */
+  const handleSeek = useCallback(
+    (position: number) => {
+      seek(position);
+    },
+    [seek]
+  );
+
   return (
     <Flex
       direction="column"
@@ -201,11 +256,64 @@ export const AudioControls: React.FC = () => {
             fillWidth
           />
           {loadingMusicSet !== null && (
-            <Spinner size="s" ariaLabel="Loading music set..." />
+            <Flex gap="4" vertical="center">
+              <Spinner size="s" ariaLabel="Loading music set..." />
+              {loadingProgress !== null && (
+                <Text variant="body-default-xs" onBackground="neutral-medium">
+                  {Math.round(loadingProgress)}%
+                </Text>
+              )}
+            </Flex>
           )}
         </Flex>
+        {loadError && (
+          <Flex gap="8" vertical="center" wrap role="alert">
+            <Text variant="body-default-s" onBackground="danger-weak">
+              {loadError.message}
+            </Text>
+            <Button
+              size="s"
+              variant="secondary"
+              onClick={() => retryMusicSet(loadError.musicSetId)}
+            >
+              Try again
+            </Button>
+          </Flex>
+        )}
       </Flex>
 
+      {/* Another tab has playback */}
+      {/* The set is "playing" but the browser or OS is holding the sound back */}
+      {isPlaying && unlockState === "locked" && (
+        <Text
+          variant="body-default-s"
+          onBackground="warning-weak"
+          role="status"
+        >
+          Your browser is blocking sound. Tap or press any key to start it.
+        </Text>
+      )}
+      {isPlaying && unlockState === "interrupted" && (
+        <Text
+          variant="body-default-s"
+          onBackground="warning-weak"
+          role="status"
+        >
+          Sound was interrupted by your device. It resumes when allowed, or tap
+          to resume now.
+        </Text>
+      )}
+
+      {isPlayingElsewhere && (
+        <Text
+          variant="body-default-s"
+          onBackground="neutral-medium"
+          role="status"
+        >
+          Playing in another tab. Press play or pick a set to play here instead.
+        </Text>
+      )}
+
       {/* Music Set Controls */}
       <Flex gap="12" vertical="center">
         {currentMusicSet !== null && (
@@ -234,7 +342,48 @@ export const AudioControls: React.FC = () => {
           disabled={isMasterMuted}
           style={{ width: "200px" }}
         />
+        {isInitialized && <MasterMeter />}
       </Flex>
+
+      {/* Playback Position */}
+      {currentMusicSet !== null && playbackDuration > 0 && (
+        <Flex gap="12" vertical="center">
+          <Text variant="body-default-s" onBackground="neutral-medium">
+            {formatPlaybackTime(playbackPosition)}
+          </Text>
+          <Slider
+            value={playbackPosition}
+            onChange={handleSeek}
+            min={0}
+            max={playbackDuration}
+            step={0.1}
+            style={{ flex: 1 }}
+          />
+          <Text variant="body-default-s" onBackground="neutral-medium">
+            {formatPlaybackTime(playbackDuration)}
+          </Text>
+        </Flex>
+      )}
+
+      {/* Quantize */}
+      {currentBpm !== null && (
+        <Flex gap="12" vertical="center">
+          <Text variant="label-default-s" onBackground="neutral-medium">
+            Sync to {currentBpm} BPM
+          </Text>
+          <SegmentedControl
+            buttons={QUANTIZE_OPTIONS}
+            selected={quantize}
+            onToggle={(value) => setQuantize(value as QuantizeMode)}
+            fillWidth={false}
+          />
+        </Flex>
+      )}
+      {currentMusicSet !== null && currentBpm === null && (
+        <Text variant="body-default-s" onBackground="neutral-weak">
+          Sync to beat is unavailable: this set has no BPM in its set.json.
+        </Text>
+      )}
     </Flex>
   );
 };
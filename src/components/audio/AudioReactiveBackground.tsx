@@ -4,6 +4,7 @@ import React, { useMemo } from "react";
 import { Background } from "@/once-ui/components";
 import { useAudioState } from "@/context/AudioStateContext";
 import { getEffectDefaults } from "@/effect/config/loader";
+import { useCssPropertyEffects } from "@/hooks/effect";
 import type { BackgroundProps } from "@/once-ui/components/Background";
 
 /**
@@ -13,12 +14,17 @@ import type { BackgroundProps } from "@/once-ui/components/Background";
  * allowing Background to create audio-reactive effects with config values.
  */
 export const AudioReactiveBackground: React.FC<BackgroundProps> = (props) => {
-  const { isEffectConfigInitialized, currentSet } = useAudioState();
+  const { isEffectConfigInitialized, currentSet, analysisInput } =
+    useAudioState();
 
   // Only enable audio-reactive effects when a music set is currently selected
   // (regardless of whether it's loading or loaded - this prevents effects from
-  // being disabled during music set transitions)
-  const haveTracksLoaded = currentSet !== null;
+  // being disabled during music set transitions), or when the visitor's
+  // microphone or a local file is the input
+  const hasAudioInput = currentSet !== null || analysisInput !== "music";
+
+  // CSS custom properties defined only in the effect config
+  useCssPropertyEffects(isEffectConfigInitialized && hasAudioInput);
 
   // Load effect configs - only when initialized
   const maskConfig = useMemo(() => {
@@ -51,32 +57,32 @@ export const AudioReactiveBackground: React.FC<BackgroundProps> = (props) => {
     if (!props.audioReactiveMask?.enabled || !maskConfig) {
       return props.audioReactiveMask;
     }
-    // Disable effect if no tracks are loaded
-    if (!haveTracksLoaded) {
+    // Disable effect if there is no audio to follow
+    if (!hasAudioInput) {
       return { ...props.audioReactiveMask, enabled: false };
     }
     return { ...maskConfig, ...props.audioReactiveMask };
-  }, [props.audioReactiveMask, maskConfig, haveTracksLoaded]);
+  }, [props.audioReactiveMask, maskConfig, hasAudioInput]);
 
   const audioReactiveGradientTiltWithConfig = useMemo(() => {
     if (!props.audioReactiveGradientTilt?.enabled || !gradientTiltConfig) {
       return props.audioReactiveGradientTilt;
     }
-    if (!haveTracksLoaded) {
+    if (!hasAudioInput) {
       return { ...props.audioReactiveGradientTilt, enabled: false };
     }
     return { ...gradientTiltConfig, ...props.audioReactiveGradientTilt };
-  }, [props.audioReactiveGradientTilt, gradientTiltConfig, haveTracksLoaded]);
+  }, [props.audioReactiveGradientTilt, gradientTiltConfig, hasAudioInput]);
 
   const audioReactiveGradientScaleWithConfig = useMemo(() => {
     if (!props.audioReactiveGradientScale?.enabled || !gradientScaleConfig) {
       return props.audioReactiveGradientScale;
     }
-    if (!haveTracksLoaded) {
+    if (!hasAudioInput) {
       return { ...props.audioReactiveGradientScale, enabled: false };
     }
     return { ...gradientScaleConfig, ...props.audioReactiveGradientScale };
-  }, [props.audioReactiveGradientScale, gradientScaleConfig, haveTracksLoaded]);
+  }, [props.audioReactiveGradientScale, gradientScaleConfig, hasAudioInput]);
 
   const audioReactiveGradientPositionWithConfig = useMemo(() => {
     if (
@@ -85,7 +91,7 @@ export const AudioReactiveBackground: React.FC<BackgroundProps> = (props) => {
     ) {
       return props.audioReactiveGradientPosition;
     }
-    if (!haveTracksLoaded) {
+    if (!hasAudioInput) {
       return { ...props.audioReactiveGradientPosition, enabled: false };
     }
     return {
@@ -95,18 +101,18 @@ export const AudioReactiveBackground: React.FC<BackgroundProps> = (props) => {
   }, [
     props.audioReactiveGradientPosition,
     gradientPositionConfig,
-    haveTracksLoaded,
+    hasAudioInput,
   ]);
 
   const audioReactiveElementOpacityWithConfig = useMemo(() => {
     if (!props.audioReactiveElementOpacity?.enabled || !elementOpacityConfig) {
       return props.audioReactiveElementOpacity;
     }
-    if (!haveTracksLoaded) {
+    if (!hasAudioInput) {
       return { ...props.audioReactiveElementOpacity, enabled: false };
     }
     return { ...elementOpacityConfig, ...props.audioReactiveElementOpacity };
-  }, [props.audioReactiveElementOpacity, elementOpacityConfig, haveTracksLoaded]);
+  }, [props.audioReactiveElementOpacity, elementOpacityConfig, hasAudioInput]);
 
   return (
     <Background
@@ -0,0 +1,166 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Button, Flex, Kbd, Text } from "@/once-ui/components";
+import type { useControlSurface } from "@/hooks/audio/useControlSurface";
+import {
+  ControlAction,
+  describeControlBinding,
+  getActionBindings,
+  isSameAction,
+} from "@/app/audio/controlMapping";
+import { useTrackControls } from "@/hooks/audio/useTrackControls";
+
+interface ControlSurfaceSettingsProps {
+  /** Control surface state from useControlSurface (owned by the panel) */
+  controlSurface: ReturnType<typeof useControlSurface>;
+}
+
+/** Actions that do not belong to a track, in display order */
+const GLOBAL_ACTIONS: { label: string; action: ControlAction }[] = [
+  { label: "Play / pause", action: { type: "togglePlay" } },
+  { label: "Previous set", action: { type: "previousSet" } },
+  { label: "Next set", action: { type: "nextSet" } },
+];
+
+/** Per-track actions, in display order */
+const TRACK_ACTIONS: {
+  label: string;
+  type: "toggleMute" | "toggleSolo" | "trackVolume" | "trackPan";
+}[] = [
+  { label: "Mute", type: "toggleMute" },
+  { label: "Solo", type: "toggleSolo" },
+  { label: "Volume", type: "trackVolume" },
+  { label: "Pan", type: "trackPan" },
+];
+
+/**
+ * Keyboard and MIDI control settings.
+ *
+ * Shows what each key and MIDI control does, lets visitors connect MIDI
+ * controllers, and re-bind any action with learn mode: press "Learn", then
+ * the key, pad, fader or knob to use (Escape cancels).
+ */
+export const ControlSurfaceSettings: React.FC<ControlSurfaceSettingsProps> = ({
+  controlSurface,
+}) => {
+  const {
+    mappings,
+    learnAction,
+    startLearning,
+    cancelLearning,
+    resetMappings,
+    midiStatus,
+    midiInputCount,
+    enableMidi,
+  } = controlSurface;
+  const { tracks } = useTrackControls();
+
+  /** Whether the mapping list is expanded */
+  const [showMappings, setShowMappings] = useState(false);
+
+  /** Rows of the mapping list: global actions, then each track's actions */
+  const rows = useMemo(
+    () => [
+      ...GLOBAL_ACTIONS,
+      ...tracks.flatMap((track, trackIndex) =>
+        TRACK_ACTIONS.map(({ label, type }) => ({
+          label: `${track.name} ${label.toLowerCase()}`,
+          action: { type, trackIndex } as ControlAction,
+        }))
+      ),
+    ],
+    [tracks]
+  );
+
+  const midiLabel = {
+    unsupported: "MIDI is not supported in this browser",
+    off: "",
+    connected:
+      midiInputCount === 1
+        ? "1 MIDI device connected"
+        : `${midiInputCount} MIDI devices connected`,
+    denied: "MIDI access was denied",
+  }[midiStatus];
+
+  return (
+    <Flex direction="column" gap="8">
+      <Text variant="label-default-m" onBackground="neutral-strong">
+        Controls
+      </Text>
+      <Text variant="body-default-xs" onBackground="neutral-medium">
+        Keys 1-9 mute tracks, Shift+1-9 solo, Space plays or pauses, [ and ]
+        switch sets.
+      </Text>
+      <Flex gap="8" vertical="center" wrap>
+        {midiStatus === "off" && (
+          <Button size="s" variant="secondary" onClick={enableMidi}>
+            Connect MIDI
+          </Button>
+        )}
+        {midiLabel && (
+          <Text variant="body-default-xs" onBackground="neutral-medium">
+            {midiLabel}
+          </Text>
+        )}
+        <Button
+          size="s"
+          variant="tertiary"
+          onClick={() => setShowMappings(!showMappings)}
+          aria-expanded={showMappings}
+        >
+          {showMappings ? "Hide mappings" : "Edit mappings"}
+        </Button>
+        {showMappings && (
+          <Button size="s" variant="tertiary" onClick={resetMappings}>
+            Reset
+          </Button>
+        )}
+      </Flex>
+      {showMappings && (
+        <Flex direction="column" gap="4" role="list">
+          {rows.map(({ label, action }) => {
+            const isLearning =
+              learnAction !== null && isSameAction(learnAction, action);
+            const bindings = getActionBindings(mappings, action);
+
+            return (
+              <Flex
+                key={label}
+                gap="8"
+                vertical="center"
+                horizontal="space-between"
+                role="listitem"
+              >
+                <Text variant="body-default-s" onBackground="neutral-strong">
+                  {label}
+                </Text>
+                <Flex gap="4" vertical="center" wrap>
+                  {bindings.map((binding) => (
+                    <Kbd key={describeControlBinding(binding)}>
+                      {describeControlBinding(binding)}
+                    </Kbd>
+                  ))}
+                  <Button
+                    size="s"
+                    variant={isLearning ? "primary" : "tertiary"}
+                    onClick={() =>
+                      isLearning ? cancelLearning() : startLearning(action)
+                    }
+                    aria-label={
+                      isLearning
+                        ? `Cancel learning ${label}`
+                        : `Learn a control for ${label}`
+                    }
+                  >
+                    {isLearning ? "Waiting…" : "Learn"}
+                  </Button>
+                </Flex>
+              </Flex>
+            );
+          })}
+        </Flex>
+      )}
+    </Flex>
+  );
+};
@@ -0,0 +1,75 @@
+"use client";
+
+import React from "react";
+import { Flex, Text } from "@/once-ui/components";
+import { useMasterMeter } from "@/hooks/audio/useMasterMeter";
+import { METER_FLOOR_DB } from "@/app/audio/metering";
+import { clamp } from "@/utils/math";
+import styles from "./MasterMeter.module.scss";
+import classNames from "classnames";
+
+/** Lowest level (dBFS) shown on the meter bar */
+const METER_RANGE_DB = -60;
+
+/**
+ * Converts a level in dBFS to a position along the meter bar.
+ *
+ * @param db - Level in dBFS
+ * @returns Percentage of the bar (0-100)
+ */
+const decibelsToPercent = (db: number): number =>
+  clamp((1 - db / METER_RANGE_DB) * 100, 0, 100);
+
+/**
+ * Master output meter.
+ *
+ * Shows the RMS level as a bar with a peak marker, the short-term loudness
+ * in LUFS, and a clip indicator that can be clicked to reset it. Gain
+ * reduction from the master limiter/compressor is shown in the tooltip.
+ *
+ * Kept separate from AudioControls so the frequent meter updates only
+ * re-render this component.
+ */
+export const MasterMeter: React.FC = () => {
+  const { peak, rms, loudness, gainReduction, isClipping, resetClip } =
+    useMasterMeter();
+
+  return (
+    <Flex gap="8" vertical="center">
+      <div
+        className={styles.meter}
+        role="meter"
+        aria-label="Output level"
+        aria-valuemin={METER_RANGE_DB}
+        aria-valuemax={0}
+        aria-valuenow={Math.round(Math.max(peak, METER_RANGE_DB))}
+        title={`Peak ${peak.toFixed(1)} dBFS, gain reduction ${gainReduction.toFixed(1)} dB`}
+      >
+        <div
+          className={styles.rms}
+          style={{ width: `${decibelsToPercent(rms)}%` }}
+        />
+        <div
+          className={styles.peak}
+          style={{ left: `${decibelsToPercent(peak)}%` }}
+        />
+      </div>
+      <Text
+        variant="body-default-xs"
+        onBackground="neutral-medium"
+        className={styles.loudness}
+      >
+        {loudness > METER_FLOOR_DB ? `${loudness.toFixed(0)} LUFS` : "– LUFS"}
+      </Text>
+      <button
+        type="button"
+        className={classNames(styles.clip, isClipping && styles.clipActive)}
+        onClick={resetClip}
+        aria-label={isClipping ? "Output clipping, reset" : "No clipping"}
+        title="Clip indicator (click to reset)"
+      >
+        CLIP
+      </button>
+    </Flex>
+  );
+};
@@ -0,0 +1,92 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  Button,
+  Checkbox,
+  Flex,
+  SegmentedControl,
+  Text,
+  useToast,
+} from "@/once-ui/components";
+import { useMixExport } from "@/hooks/audio/useMixExport";
+import { WavBitDepth } from "@/app/audio/wav";
+
+/** Bit depth choices for the exported WAV files */
+const BIT_DEPTH_OPTIONS = [
+  { value: "16", label: "16-bit" },
+  { value: "24", label: "24-bit" },
+];
+
+/**
+ * Mix export controls.
+ *
+ * Renders one loop of the current mix offline (faster than real time) and
+ * downloads it as a WAV file, or as a zip with a stem per track.
+ *
+ * Hidden until a music set is loaded.
+ */
+export const MixExportControls: React.FC = () => {
+  const { canExport, isExporting, progress, exportError, startExport } =
+    useMixExport();
+  const { addToast } = useToast();
+
+  /** Selected PCM sample size */
+  const [bitDepth, setBitDepth] = useState<WavBitDepth>(16);
+
+  /** Whether to include per-track stems */
+  const [includeStems, setIncludeStems] = useState(false);
+
+  // Report failed exports
+  useEffect(() => {
+    if (!exportError) return;
+    addToast({
+      variant: "danger",
+      message: "Failed to export mix.",
+    });
+  }, [exportError, addToast]);
+
+  /**
+   * Start rendering with the selected options.
+   */
+  const handleExport = useCallback(() => {
+    startExport(bitDepth, includeStems);
+  }, [startExport, bitDepth, includeStems]);
+
+  if (!canExport) return null;
+
+  return (
+    <Flex direction="column" gap="8">
+      <Text variant="label-default-m" onBackground="neutral-strong">
+        Export
+      </Text>
+      <Flex gap="12" vertical="center" wrap>
+        <Flex minWidth={10}>
+          <SegmentedControl
+            buttons={BIT_DEPTH_OPTIONS}
+            selected={bitDepth.toString()}
+            onToggle={(value) => setBitDepth(value === "24" ? 24 : 16)}
+          />
+        </Flex>
+        <Checkbox
+          label="Stems"
+          isChecked={includeStems}
+          onToggle={() => setIncludeStems(!includeStems)}
+          disabled={isExporting}
+        />
+        <Button
+          size="s"
+          variant="secondary"
+          prefixIcon="download"
+          onClick={handleExport}
+          loading={isExporting}
+          disabled={isExporting}
+        >
+          {isExporting && progress !== null
+            ? `Exporting ${Math.round(progress * 100)}%`
+            : "Export WAV"}
+        </Button>
+      </Flex>
+    </Flex>
+  );
+};
@@ -0,0 +1,138 @@
+"use client";
+
+import React, { useCallback, useState } from "react";
+import {
+  Button,
+  Chip,
+  Flex,
+  Input,
+  Text,
+  useToast,
+} from "@/once-ui/components";
+import { useMixSnapshots } from "@/hooks/audio/useMixSnapshots";
+
+/**
+ * Mix snapshot controls.
+ *
+ * Lets visitors save the current mix of the music set under a name, restore
+ * or delete saved mixes, reset to the default mix, and copy a link that
+ * opens the site with the current mix applied.
+ *
+ * Hidden until a music set is playing.
+ */
+export const MixSnapshotControls: React.FC = () => {
+  const {
+    snapshots,
+    canEditMix,
+    saveSnapshot,
+    loadSnapshot,
+    deleteSnapshot,
+    resetMix,
+    getShareUrl,
+  } = useMixSnapshots();
+  const { addToast } = useToast();
+
+  /** Name typed for the next snapshot */
+  const [snapshotName, setSnapshotName] = useState("");
+
+  /**
+   * Save the current mix under the typed name.
+   */
+  const handleSave = useCallback(() => {
+    if (!snapshotName.trim()) return;
+    saveSnapshot(snapshotName);
+    setSnapshotName("");
+  }, [snapshotName, saveSnapshot]);
+
+  /**
+   * Save on Enter so the name field works like a small form.
+   */
+  const handleNameKeyDown = useCallback(
+    (event: React.KeyboardEvent<HTMLInputElement>) => {
+      if (event.key === "Enter") {
+        event.preventDefault();
+        handleSave();
+      }
+    },
+    [handleSave]
+  );
+
+  /**
+   * Copy a link carrying the current mix to the clipboard.
+   */
+  const handleShare = useCallback(() => {
+    const url = getShareUrl();
+    if (!url) return;
+
+    navigator.clipboard.writeText(url).then(
+      () => {
+        addToast({
+          variant: "success",
+          message: "Mix link copied to clipboard.",
+        });
+      },
+      () => {
+        addToast({
+          variant: "danger",
+          message: "Failed to copy mix link.",
+        });
+      }
+    );
+  }, [getShareUrl, addToast]);
+
+  if (!canEditMix) return null;
+
+  return (
+    <Flex direction="column" gap="8">
+      <Text variant="label-default-m" onBackground="neutral-strong">
+        Mix
+      </Text>
+      <Flex gap="8" vertical="center" wrap>
+        <Flex flex={1} minWidth={10}>
+          <Input
+            id="mix-snapshot-name"
+            label="Snapshot name"
+            labelAsPlaceholder
+            height="s"
+            value={snapshotName}
+            onChange={(event) => setSnapshotName(event.target.value)}
+            onKeyDown={handleNameKeyDown}
+          />
+        </Flex>
+        <Button
+          size="s"
+          variant="secondary"
+          onClick={handleSave}
+          disabled={!snapshotName.trim()}
+        >
+          Save
+        </Button>
+        <Button size="s" variant="tertiary" onClick={resetMix}>
+          Reset
+        </Button>
+        <Button
+          size="s"
+          variant="tertiary"
+          prefixIcon="openLink"
+          onClick={handleShare}
+        >
+          Copy link
+        </Button>
+      </Flex>
+      {snapshots.length > 0 && (
+        <Flex gap="8" wrap>
+          {snapshots.map((snapshot) => (
+            <Chip
+              key={snapshot.name}
+              label={snapshot.name}
+              selected={false}
+              onClick={() => loadSnapshot(snapshot.name)}
+              onRemove={() => deleteSnapshot(snapshot.name)}
+              aria-label={`Load mix ${snapshot.name}`}
+            />
+          ))}
+        </Flex>
+      )}
+    </Flex>
+  );
+};
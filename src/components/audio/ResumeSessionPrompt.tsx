@@ -0,0 +1,82 @@
+"use client";
+
+import React, { useCallback, useState } from "react";
+import { Button, Flex, Text } from "@/once-ui/components";
+import { useAudioState } from "@/context/AudioStateContext";
+import { useAudioManager } from "@/hooks/audio/useAudioManager";
+import { useAudioMusicSet } from "@/hooks/audio/useAudioMusicSet";
+
+/**
+ * "Resume where you left off" prompt.
+ *
+ * Offers to restart the set from the visitor's last session, with the mix
+ * they left it at. Browsers only allow audio after a user gesture, so the set
+ * waits for the click rather than starting on load.
+ *
+ * Hidden once a set is playing or loading, if there is no saved set, or
+ * after "Not now".
+ */
+export const ResumeSessionPrompt: React.FC = () => {
+  const { savedSession, config } = useAudioState();
+  const { isInitialized, initializeAudio } = useAudioManager();
+  const { currentMusicSet, loadingMusicSet, switchMusicSet } =
+    useAudioMusicSet();
+
+  /** Whether the visitor declined to resume */
+  const [isDismissed, setIsDismissed] = useState(false);
+
+  const musicSet = config.musicSets.find(
+    (ms) => ms.id === savedSession?.musicSetId
+  );
+
+  /**
+   * Start the saved set (its saved mix is applied as it loads).
+   */
+  const handleResume = useCallback(async () => {
+    if (!musicSet) return;
+    if (!isInitialized) {
+      await initializeAudio();
+    }
+    await switchMusicSet(musicSet.id);
+  }, [musicSet, isInitialized, initializeAudio, switchMusicSet]);
+
+  if (
+    !musicSet ||
+    isDismissed ||
+    currentMusicSet !== null ||
+    loadingMusicSet !== null
+  ) {
+    return null;
+  }
+
+  return (
+    <Flex
+      gap="8"
+      paddingX="12"
+      paddingY="8"
+      vertical="center"
+      horizontal="space-between"
+      radius="m"
+      border="neutral-medium"
+      background="surface"
+      role="status"
+      wrap
+    >
+      <Text variant="body-default-s" onBackground="neutral-strong">
+        Resume where you left off: {musicSet.displayName}
+      </Text>
+      <Flex gap="4">
+        <Button size="s" variant="primary" onClick={handleResume}>
+          Resume
+        </Button>
+        <Button
+          size="s"
+          variant="tertiary"
+          onClick={() => setIsDismissed(true)}
+        >
+          Not now
+        </Button>
+      </Flex>
+    </Flex>
+  );
+};
@@ -0,0 +1,179 @@
+"use client";
+
+import React, { useCallback, useMemo, useRef, useState } from "react";
+import { Flex, SegmentedControl, Text } from "@/once-ui/components";
+import classNames from "classnames";
+import { useAudioState } from "@/context/AudioStateContext";
+import { useTrackControls } from "@/hooks/audio/useTrackControls";
+import { MusicTrackPosition, TrackPanningMode } from "@/app/audio/types";
+import styles from "./SpatialStage.module.scss";
+
+/** Options for the panning mode selector */
+const PANNING_MODE_OPTIONS: { label: string; value: TrackPanningMode }[] = [
+  { label: "Stereo", value: "stereo" },
+  { label: "Spatial", value: "spatial" },
+];
+
+/** How far an arrow key moves a marker (stage half-width is 1) */
+const KEYBOARD_STEP = 0.1;
+
+const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+
+/**
+ * Describes a stage position for screen readers (e.g., "front left").
+ */
+function describePosition({ x, y }: MusicTrackPosition): string {
+  const depth = y > 0.2 ? "front" : y < -0.2 ? "behind" : "";
+  const side = x < -0.2 ? "left" : x > 0.2 ? "right" : "";
+  return [depth, side].filter(Boolean).join(" ") || "centre";
+}
+
+/**
+ * Panning mode selector and spatial stage.
+ *
+ * In spatial mode, shows the listener from above, facing up, with a marker
+ * per track. Dragging a marker (or focusing it and using the arrow keys)
+ * moves the track around the listener.
+ *
+ * Hidden until a music set is loaded.
+ */
+export const SpatialStage: React.FC = () => {
+  const { tracks, panningMode, setPanningMode, updatePosition } =
+    useTrackControls();
+  const { config, currentSet } = useAudioState();
+
+  /** Stage element, for converting pointer coordinates */
+  const stageRef = useRef<HTMLDivElement>(null);
+
+  /** Track whose marker is being dragged */
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+
+  /** Accent colour of each track, from the set manifest */
+  const trackColors = useMemo(() => {
+    const musicSet = config.musicSets.find((ms) => ms.id === currentSet);
+    return new Map(musicSet?.tracks.map((track) => [track.id, track.color]));
+  }, [config.musicSets, currentSet]);
+
+  /**
+   * Converts a pointer location to a stage position.
+   */
+  const getPointerPosition = useCallback(
+    (event: React.PointerEvent): MusicTrackPosition | null => {
+      const rect = stageRef.current?.getBoundingClientRect();
+      if (!rect || rect.width === 0 || rect.height === 0) return null;
+      return {
+        x: clamp(((event.clientX - rect.left) / rect.width) * 2 - 1),
+        y: clamp(1 - ((event.clientY - rect.top) / rect.height) * 2),
+      };
+    },
+    []
+  );
+
+  const handlePointerDown = useCallback(
+    (trackId: string, event: React.PointerEvent<HTMLButtonElement>) => {
+      // Keep receiving moves when the pointer leaves the marker
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setDraggingId(trackId);
+    },
+    []
+  );
+
+  const handlePointerMove = useCallback(
+    (trackId: string, event: React.PointerEvent<HTMLButtonElement>) => {
+      if (draggingId !== trackId) return;
+      const position = getPointerPosition(event);
+      if (position) updatePosition(trackId, position);
+    },
+    [draggingId, getPointerPosition, updatePosition]
+  );
+
+  const handlePointerUp = useCallback(
+    (event: React.PointerEvent<HTMLButtonElement>) => {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+      setDraggingId(null);
+    },
+    []
+  );
+
+  /**
+   * Moves a marker with the arrow keys.
+   */
+  const handleKeyDown = useCallback(
+    (
+      trackId: string,
+      position: MusicTrackPosition,
+      event: React.KeyboardEvent
+    ) => {
+      const steps: Record<string, [number, number]> = {
+        ArrowLeft: [-1, 0],
+        ArrowRight: [1, 0],
+        ArrowUp: [0, 1],
+        ArrowDown: [0, -1],
+      };
+      const step = steps[event.key];
+      if (!step) return;
+
+      event.preventDefault();
+      updatePosition(trackId, {
+        x: clamp(position.x + step[0] * KEYBOARD_STEP),
+        y: clamp(position.y + step[1] * KEYBOARD_STEP),
+      });
+    },
+    [updatePosition]
+  );
+
+  if (tracks.length === 0) return null;
+
+  return (
+    <Flex direction="column" gap="8">
+      <Flex gap="12" vertical="center">
+        <Text variant="label-default-m" onBackground="neutral-strong">
+          Panning
+        </Text>
+        <SegmentedControl
+          buttons={PANNING_MODE_OPTIONS}
+          selected={panningMode}
+          onToggle={(value) => setPanningMode(value as TrackPanningMode)}
+          fillWidth={false}
+        />
+      </Flex>
+
+      {panningMode === "spatial" && (
+        <>
+          <Text variant="body-default-xs" onBackground="neutral-medium">
+            Drag the tracks around you. Headphones give the clearest effect.
+          </Text>
+          <div ref={stageRef} className={styles.stage}>
+            <div className={styles.listener} aria-hidden="true" />
+            {tracks.map((track) => (
+              <button
+                key={track.id}
+                type="button"
+                className={classNames(styles.marker, {
+                  [styles.dragging]: draggingId === track.id,
+                  [styles.muted]: track.isEffectivelyMuted,
+                })}
+                style={{
+                  left: `${((track.position.x + 1) / 2) * 100}%`,
+                  top: `${((1 - track.position.y) / 2) * 100}%`,
+                  background: trackColors.get(track.id),
+                }}
+                title={track.name}
+                aria-label={`${track.name}: ${describePosition(track.position)}`}
+                onPointerDown={(event) => handlePointerDown(track.id, event)}
+                onPointerMove={(event) => handlePointerMove(track.id, event)}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                onKeyDown={(event) =>
+                  handleKeyDown(track.id, track.position, event)
+                }
+              >
+                {track.name.charAt(0)}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </Flex>
+  );
+};
@@ -1,9 +1,11 @@
 "use client";
 
-import React, { useCallback } from "react";
+import React, { useCallback, useState } from "react";
 import { Flex, IconButton, Text } from "@/once-ui/components";
 import { Slider } from "./Slider";
 import { useTrackControls } from "@/hooks/audio/useTrackControls";
+import { TRACK_EQ_RANGE_DB } from "@/app/audio/tracks";
+import { MusicTrackEffects } from "@/app/audio/types";
 import { TrackVisualizer } from "./TrackVisualizer";
 import styles from "./TrackControl.module.scss";
 import classNames from "classnames";
@@ -36,6 +38,42 @@ const volumeToSlider = (volume: number): number => Math.sqrt(volume);
  */
 const sliderToVolume = (slider: number): number => slider * slider;
 
+/**
+ * Sliders shown in the effects section, in display order.
+ */
+const EFFECT_SLIDERS: {
+  effect: keyof MusicTrackEffects;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}[] = [
+  {
+    effect: "eqLow",
+    label: "Low",
+    min: -TRACK_EQ_RANGE_DB,
+    max: TRACK_EQ_RANGE_DB,
+    step: 0.5,
+  },
+  {
+    effect: "eqMid",
+    label: "Mid",
+    min: -TRACK_EQ_RANGE_DB,
+    max: TRACK_EQ_RANGE_DB,
+    step: 0.5,
+  },
+  {
+    effect: "eqHigh",
+    label: "High",
+    min: -TRACK_EQ_RANGE_DB,
+    max: TRACK_EQ_RANGE_DB,
+    step: 0.5,
+  },
+  { effect: "filter", label: "Filter", min: -1, max: 1, step: 0.01 },
+  { effect: "reverbSend", label: "Reverb", min: 0, max: 1, step: 0.01 },
+  { effect: "delaySend", label: "Delay", min: 0, max: 1, step: 0.01 },
+];
+
 /**
  * Props for the TrackControl component.
  */
@@ -64,13 +102,23 @@ interface TrackControlProps {
  * - Solo button (mutes all other tracks)
  * - Volume slider with perceptually-linear scaling
  * - Pan slider for stereo positioning (-1 = left, 0 = center, 1 = right)
+ * - Collapsible effects section: 3-band EQ, filter sweep, reverb and delay sends
  *
  * The component is memoized to prevent unnecessary re-renders when other tracks change.
  */
 export const TrackControl = React.memo<TrackControlProps>(
   ({ trackId, trackName, visualizerConfig, className }) => {
-    const { tracks, toggleMute, toggleSolo, updateVolume, updatePan } =
-      useTrackControls();
+    const {
+      tracks,
+      toggleMute,
+      toggleSolo,
+      updateVolume,
+      updatePan,
+      updateEffect,
+    } = useTrackControls();
+
+    // Effects are tucked away by default to keep the grid compact
+    const [showEffects, setShowEffects] = useState(false);
 
     // Find the track state for this specific track
     const track = tracks.find((t) => t.id === trackId);
@@ -115,6 +163,13 @@ export const TrackControl = React.memo<TrackControlProps>(
       [trackId, updatePan]
     );
 
+    /**
+     * Show or hide the effects section.
+     */
+    const handleEffectsToggle = useCallback(() => {
+      setShowEffects((shown) => !shown);
+    }, []);
+
     // Don't render if track not found
     if (!track) return null;
 
@@ -171,6 +226,15 @@ export const TrackControl = React.memo<TrackControlProps>(
               onClick={handleSoloToggle}
               aria-label={`${track.isSolo ? "Unsolo" : "Solo"} ${trackName}`}
             />
+            <IconButton
+              icon="adjustments"
+              size="s"
+              variant={showEffects ? "tertiary" : "ghost"}
+              tooltip={showEffects ? "Hide effects" : "Effects"}
+              onClick={handleEffectsToggle}
+              aria-label={`${showEffects ? "Hide" : "Show"} effects for ${trackName}`}
+              aria-expanded={showEffects}
+            />
           </Flex>
         </Flex>
 
@@ -194,6 +258,20 @@ export const TrackControl = React.memo<TrackControlProps>(
           step={0.01}
           label="Pan"
         />
+
+        {/* EQ, filter and send sliders */}
+        {showEffects &&
+          EFFECT_SLIDERS.map(({ effect, label, min, max, step }) => (
+            <Slider
+              key={effect}
+              value={track.effects[effect]}
+              onChange={(value) => updateEffect(trackId, effect, value)}
+              min={min}
+              max={max}
+              step={step}
+              label={label}
+            />
+          ))}
       </Flex>
     );
   }
@@ -7,47 +7,60 @@ import React, {
   useCallback,
   ReactNode,
   useEffect,
+  useRef,
+  useSyncExternalStore,
 } from "react";
-import {
-  AudioState,
-  AudioConfig,
-  MusicTrackState,
-  MusicSetData,
-} from "@/app/audio/types";
+import { AudioState, AudioConfig } from "@/app/audio/types";
 import { getAudioConfig, getAudioConfigSync } from "@/app/audio/getAudioConfig";
-import { initializeEffectConfig } from "@/effect/config/loader";
 import {
-  initializeAudioContext,
-  closeAudioContext,
-  getAudioError,
-  getIsInitialized,
-  pauseAudio,
-  resumeAudio,
-} from "@/app/audio/audio";
-import { registerAnimators } from "@/effect/animators";
+  getEffectConfigSync,
+  initializeEffectConfig,
+} from "@/effect/config/loader";
+import { pauseAudio, resumeAudio } from "@/app/audio/audio";
+import { AudioEngine, getAudioEngine } from "@/app/audio/engine";
+import {
+  registerAnimators,
+  registerConfiguredAnimators,
+} from "@/effect/animators";
+import { captureMix } from "@/app/audio/mix";
+import {
+  getSavedAudioSession,
+  joinTabPlayback,
+  saveAudioSession,
+  SavedAudioSession,
+  TabPlayback,
+} from "@/app/audio/session";
+
+/** How long (ms) state must stay unchanged before the session is saved */
+const SESSION_SAVE_DELAY_MS = 500;
+
+/** Events browsers accept as the user gesture that may unlock audio */
+const UNLOCK_GESTURE_EVENTS = ["click", "keydown", "touchend"] as const;
 
 interface AudioStateContextType extends AudioState {
   config: AudioConfig;
   configError: Error | null;
   isEffectConfigInitialized: boolean;
   effectConfigError: Error | null;
-  initializeAudio: () => void;
-  setMasterMuted: (muted: boolean) => void;
-  setMasterVolume: (volume: number) => void;
-  setCurrentMusicSet: (musicSetId: number | null) => void;
-  setLoadingMusicSet: (musicSetId: number | null) => void;
-  setLoadedMusicSet: (musicSetId: number, musicSetData: MusicSetData) => void;
-  unloadMusicSet: (musicSetId: number) => void;
-  setTracks: (tracks: MusicTrackState[]) => void;
-  updateTrack: (trackId: string, updates: Partial<MusicTrackState>) => void;
-  setPlaying: (playing: boolean) => void;
+  /** Session saved by an earlier visit, read once after mount */
+  savedSession: SavedAudioSession | null;
+  /** Engine owning the audio graph and the state above */
+  engine: AudioEngine;
+  initializeAudio: () => Promise<void>;
 }
 
 const AudioStateContext = createContext<AudioStateContextType | undefined>(
   undefined
 );
 
+/**
+ * Provides the shared AudioEngine and its state to components, and ties the
+ * engine to the page: configuration loading, autoplay unlocking, tab
+ * visibility, session persistence and coordination with other tabs.
+ */
 export function AudioStateProvider({ children }: { children: ReactNode }) {
+  const engine = getAudioEngine();
+
   // Start with sync fallback config, will be updated with API data
   const [config, setConfig] = useState<AudioConfig>(getAudioConfigSync());
   const [configError, setConfigError] = useState<Error | null>(null);
@@ -57,12 +70,23 @@ export function AudioStateProvider({ children }: { children: ReactNode }) {
     null
   );
 
+  // Engine state; every change is a new snapshot, so this re-renders on each
+  const subscribe = useCallback(
+    (onChange: () => void) => engine.subscribe(onChange),
+    [engine]
+  );
+  const getSnapshot = useCallback(() => engine.getState(), [engine]);
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
   // Fetch actual config from API on mount
   useEffect(() => {
     getAudioConfig()
       .then((apiConfig) => {
         setConfig(apiConfig);
         setConfigError(null);
+
+        // Apply cache, master bus, ramp and quantize settings
+        engine.configure(apiConfig);
       })
       .catch((error) => {
         console.error("Failed to load audio config:", error);
@@ -72,7 +96,7 @@ export function AudioStateProvider({ children }: { children: ReactNode }) {
             : new Error("Failed to load audio configuration")
         );
       });
-  }, []);
+  }, [engine]);
 
   // Register animators and initialize effect config on mount (before any effects are created)
   useEffect(() => {
@@ -81,6 +105,8 @@ export function AudioStateProvider({ children }: { children: ReactNode }) {
 
     initializeEffectConfig()
       .then(() => {
+        // Effects defined only in the config need the config to register
+        registerConfiguredAnimators(getEffectConfigSync());
         setIsEffectConfigInitialized(true);
         setEffectConfigError(null);
       })
@@ -94,99 +120,121 @@ export function AudioStateProvider({ children }: { children: ReactNode }) {
       });
   }, []);
 
-  // Initialize state
-  const [state, setState] = useState<AudioState>({
-    isInitialized: false,
-    audioError: null,
-    isMasterMuted: false, // Default to unmuted
-    masterVolume: config.defaultSettings.masterVolume,
-    currentSet: null,
-    loadingSet: null,
-    loadedSets: new Map<number, MusicSetData>(),
-    tracks: [],
-    isPlaying: false,
-  });
-
-  const initializeAudio = useCallback(async () => {
-    try {
-      await initializeAudioContext();
-      const initialized = getIsInitialized();
-      const error = getAudioError();
-      setState((prev) => ({
-        ...prev,
-        isInitialized: initialized,
-        audioError: error,
-      }));
-    } catch (error) {
-      setState((prev) => ({
-        ...prev,
-        isInitialized: false,
-        audioError: error as Error,
-      }));
-    }
-  }, []);
+  /** Saved session; undefined until it has been read after mount */
+  const [savedSession, setSavedSession] = useState<
+    SavedAudioSession | null | undefined
+  >(undefined);
 
-  const setMasterMuted = useCallback((muted: boolean) => {
-    setState((prev) => ({ ...prev, isMasterMuted: muted }));
-  }, []);
+  /** This tab's connection to the other tabs, null if unsupported */
+  const tabPlayback = useRef<TabPlayback | null>(null);
 
-  const setMasterVolume = useCallback((volume: number) => {
-    setState((prev) => ({ ...prev, masterVolume: volume }));
-  }, []);
+  const initializeAudio = useCallback(() => engine.initialize(), [engine]);
 
-  const setCurrentMusicSet = useCallback((musicSetId: number | null) => {
-    setState((prev) => ({ ...prev, currentSet: musicSetId }));
-  }, []);
+  // Restore the master settings of the last visit. Read after mount so the
+  // server and client render alike; the set itself waits for the visitor to
+  // resume (see ResumeSessionPrompt), as browsers block audio until a gesture.
+  useEffect(() => {
+    const session = getSavedAudioSession();
+    setSavedSession(session);
+    if (session) {
+      engine.setMasterVolume(session.masterVolume);
+      engine.setMasterMuted(session.isMasterMuted);
+      if (session.panningMode) engine.setPanningMode(session.panningMode);
+    }
+  }, [engine]);
 
-  const setLoadingMusicSet = useCallback((musicSetId: number | null) => {
-    setState((prev) => ({ ...prev, loadingSet: musicSetId }));
-  }, []);
+  // Save the session once state settles
+  useEffect(() => {
+    if (savedSession === undefined) return;
 
-  const setLoadedMusicSet = useCallback(
-    (musicSetId: number, musicSetData: MusicSetData) => {
-      setState((prev) => {
-        const newLoadedSets = new Map(prev.loadedSets);
-        newLoadedSets.set(musicSetId, musicSetData);
-        return { ...prev, loadedSets: newLoadedSets };
+    // Tracks are replaced before currentSet during a switch; only save a mix
+    // once both belong to the same set
+    const musicSet = config.musicSets.find((ms) => ms.id === state.currentSet);
+    const tracksMatchSet =
+      musicSet !== undefined &&
+      musicSet.tracks.length === state.tracks.length &&
+      musicSet.tracks.every((track, i) => state.tracks[i].id === track.id);
+
+    const timeoutId = setTimeout(() => {
+      saveAudioSession({
+        // Keep offering the last set until another one is picked
+        musicSetId: state.currentSet ?? savedSession?.musicSetId ?? null,
+        masterVolume: state.masterVolume,
+        isMasterMuted: state.isMasterMuted,
+        panningMode: state.panningMode,
+        mix: tracksMatchSet ? captureMix(state.tracks) : null,
       });
-    },
-    []
-  );
+    }, SESSION_SAVE_DELAY_MS);
 
-  const unloadMusicSet = useCallback((musicSetId: number) => {
-    setState((prev) => {
-      const newLoadedSets = new Map(prev.loadedSets);
-      newLoadedSets.delete(musicSetId);
-      return { ...prev, loadedSets: newLoadedSets };
+    return () => {
+      clearTimeout(timeoutId);
+    };
+  }, [
+    savedSession,
+    config.musicSets,
+    state.currentSet,
+    state.masterVolume,
+    state.isMasterMuted,
+    state.panningMode,
+    state.tracks,
+  ]);
+
+  // Play in one tab at a time: pause when another tab starts playing
+  useEffect(() => {
+    const tabs = joinTabPlayback({
+      onPlayingElsewhere: () => {
+        engine.pause();
+        engine.setPlayingElsewhere(true);
+      },
+      onStoppedElsewhere: () => engine.setPlayingElsewhere(false),
+      isPlaying: () => engine.getState().isPlaying,
     });
-  }, []);
+    tabPlayback.current = tabs;
 
-  const setTracks = useCallback((tracks: MusicTrackState[]) => {
-    setState((prev) => ({ ...prev, tracks }));
-  }, []);
+    return () => {
+      tabs?.close();
+      tabPlayback.current = null;
+    };
+  }, [engine]);
 
-  const updateTrack = useCallback(
-    (trackId: string, updates: Partial<MusicTrackState>) => {
-      setState((prev) => ({
-        ...prev,
-        tracks: prev.tracks.map((track) =>
-          track.id === trackId ? { ...track, ...updates } : track
-        ),
-      }));
-    },
-    []
-  );
+  // Claim playback whenever this tab starts playing
+  useEffect(() => {
+    if (state.isPlaying) {
+      tabPlayback.current?.claim();
+      engine.setPlayingElsewhere(false);
+    } else {
+      tabPlayback.current?.release();
+    }
+  }, [engine, state.isPlaying]);
 
-  const setPlaying = useCallback((playing: boolean) => {
-    setState((prev) => ({ ...prev, isPlaying: playing }));
-  }, []);
+  // Release the audio graph on unmount
+  useEffect(() => {
+    return () => {
+      engine.close();
+    };
+  }, [engine]);
 
-  // Cleanup audio context on unmount
+  // While the browser blocks audio or the OS has interrupted it, resume on
+  // the visitor's next gesture anywhere on the page. The listeners go once
+  // the context runs again.
   useEffect(() => {
+    if (state.unlockState !== "locked" && state.unlockState !== "interrupted") {
+      return;
+    }
+
+    const handleGesture = () => {
+      engine.unlock();
+    };
+    UNLOCK_GESTURE_EVENTS.forEach((type) =>
+      document.addEventListener(type, handleGesture, { capture: true })
+    );
+
     return () => {
-      closeAudioContext();
+      UNLOCK_GESTURE_EVENTS.forEach((type) =>
+        document.removeEventListener(type, handleGesture, { capture: true })
+      );
     };
-  }, []);
+  }, [engine, state.unlockState]);
 
   // Page Visibility API integration for auto-pause/resume
   useEffect(() => {
@@ -219,16 +267,9 @@ export function AudioStateProvider({ children }: { children: ReactNode }) {
     configError,
     isEffectConfigInitialized,
     effectConfigError,
+    savedSession: savedSession ?? null,
+    engine,
     initializeAudio,
-    setMasterMuted,
-    setMasterVolume,
-    setCurrentMusicSet,
-    setLoadingMusicSet,
-    setLoadedMusicSet,
-    unloadMusicSet,
-    setTracks,
-    updateTrack,
-    setPlaying,
   };
 
   return (
@@ -0,0 +1,146 @@
+/**
+ * CssPropertyAnimator - Generic audio-reactive CSS custom property.
+ *
+ * Maps an audio source to a number through a response curve and writes it,
+ * with a unit, to a CSS custom property. Everything about it comes from its
+ * config entry, so a new audio-reactive property needs only JSON.
+ */
+
+import {
+  AudioFrameData,
+  EffectInstance,
+  EffectIntensity,
+} from "../../core/types";
+import { clamp } from "@/utils/math";
+import {
+  CssPropertyAnimatorParams,
+  CssPropertyAnimatorOutput,
+  CssValueCurve,
+} from "./types";
+import { AudioLevel, getIntensityMultiplier } from "./audioLevel";
+
+/** Steepness of the exponential and logarithmic curves */
+const CURVE_STEEPNESS = 4;
+
+/** Levels of the step curve when steps is not set */
+const DEFAULT_STEPS = 4;
+
+/**
+ * Shapes a 0-1 level with a response curve. The result is also 0-1, with
+ * 0 and 1 left in place.
+ */
+function applyCurve(
+  value: number,
+  curve: CssValueCurve,
+  steps: number
+): number {
+  switch (curve) {
+    case "exponential":
+      return (
+        (Math.exp(CURVE_STEEPNESS * value) - 1) /
+        (Math.exp(CURVE_STEEPNESS) - 1)
+      );
+    case "logarithmic":
+      return Math.log1p(CURVE_STEEPNESS * value) / Math.log1p(CURVE_STEEPNESS);
+    case "step": {
+      const levels = Math.max(Math.round(steps), 2);
+      return Math.min(Math.floor(value * levels), levels - 1) / (levels - 1);
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Internal effect instance for CssPropertyAnimator.
+ * Exported for use by the factory.
+ */
+export class CssPropertyAnimatorEffectInstance implements EffectInstance<
+  CssPropertyAnimatorParams,
+  CssPropertyAnimatorOutput
+> {
+  private params: CssPropertyAnimatorParams;
+  private currentOutput: CssPropertyAnimatorOutput;
+  private level: AudioLevel;
+  private intensityMultipliers: Record<EffectIntensity, number>;
+
+  constructor(
+    readonly id: string,
+    readonly factoryType: string,
+    params: CssPropertyAnimatorParams,
+    intensityMultipliers: Record<EffectIntensity, number>
+  ) {
+    this.params = params;
+    this.intensityMultipliers = intensityMultipliers;
+    this.currentOutput = {
+      property: params.property,
+      value: params.min,
+      cssValue: `${params.min}${params.unit}`,
+    };
+
+    this.level = new AudioLevel(this.factoryType);
+  }
+
+  start(): void {
+    this.level.reset(0);
+  }
+
+  update(
+    audioData: AudioFrameData,
+    deltaTime: number
+  ): CssPropertyAnimatorOutput {
+    const {
+      audioAnalysisSource,
+      property,
+      unit,
+      min,
+      max,
+      curve,
+      steps,
+      smoothing,
+    } = this.params;
+
+    const level = this.level.update(
+      audioData,
+      audioAnalysisSource,
+      smoothing,
+      deltaTime
+    );
+    const multiplier = getIntensityMultiplier(
+      this.intensityMultipliers,
+      this.params
+    );
+
+    // Map the shaped level from min, over a range scaled by intensity
+    const shaped = applyCurve(
+      clamp(level, 0, 1),
+      curve,
+      steps ?? DEFAULT_STEPS
+    );
+    const value = min + shaped * (max - min) * multiplier;
+
+    this.currentOutput = {
+      property,
+      value,
+      cssValue: `${value}${unit}`,
+    };
+
+    return this.currentOutput;
+  }
+
+  end(): void {
+    // No cleanup needed
+  }
+
+  setParams(params: Partial<CssPropertyAnimatorParams>): void {
+    this.params = { ...this.params, ...params };
+  }
+
+  getParams(): CssPropertyAnimatorParams {
+    return { ...this.params };
+  }
+
+  getCurrentOutput(): CssPropertyAnimatorOutput {
+    return { ...this.currentOutput };
+  }
+}
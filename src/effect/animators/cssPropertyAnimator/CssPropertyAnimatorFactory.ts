@@ -0,0 +1,45 @@
+/**
+ * CssPropertyAnimatorFactory - Factory for creating CssPropertyAnimator effect instances.
+ */
+
+import { EffectFactory } from "../../core/EffectFactory";
+import { EffectInstance } from "../../core/types";
+import { CssPropertyAnimatorParams, CssPropertyAnimatorOutput } from "./types";
+import { CssPropertyAnimatorEffectInstance } from "./CssPropertyAnimator";
+
+/**
+ * Factory for creating CssPropertyAnimator effect instances.
+ *
+ * One factory is registered per config entry that uses the animator, with
+ * the entry's name as its type, so its defaults, variants and modulation
+ * routes are looked up under that name.
+ */
+export class CssPropertyAnimatorFactory extends EffectFactory<
+  CssPropertyAnimatorParams,
+  CssPropertyAnimatorOutput
+> {
+  /** Name of the generic animator in config entries */
+  static readonly animator = "cssPropertyAnimator";
+
+  readonly description =
+    "Sets a CSS custom property from audio levels, as configured";
+
+  /**
+   * @param type - Name of the config entry this factory creates effects for
+   */
+  constructor(readonly type: string) {
+    super();
+  }
+
+  protected createInstance(
+    id: string,
+    params: CssPropertyAnimatorParams
+  ): EffectInstance<CssPropertyAnimatorParams, CssPropertyAnimatorOutput> {
+    return new CssPropertyAnimatorEffectInstance(
+      id,
+      this.type,
+      params,
+      this.getIntensityMultipliers()
+    );
+  }
+}
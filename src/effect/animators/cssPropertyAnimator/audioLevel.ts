@@ -0,0 +1,132 @@
+/**
+ * The audio level pipeline the animators share: an audio source read as a
+ * 0-1 level and smoothed over time, the effect's intensity multiplier, and
+ * a value range scaled by that multiplier. Each animator only maps the
+ * level to its own output.
+ */
+
+import { clamp, smoothDamp } from "@/utils/math";
+import type { AudioAnalysisConfig } from "../../config/types";
+import { getEffectConfigSync } from "../../config/loader";
+import { getEffectAudioValue } from "../../core/audioValue";
+import {
+  AudioAnalysisSource,
+  AudioFrameData,
+  BaseEffectParams,
+  EffectIntensity,
+} from "../../core/types";
+
+/**
+ * A value range an audio level is mapped onto.
+ */
+export interface LevelRange {
+  /** Lowest value */
+  min: number;
+  /** Highest value */
+  max: number;
+  /** Value the scaled range is centered on; without one it starts at min */
+  base?: number;
+}
+
+/**
+ * An audio source followed as a smoothed 0-1 level.
+ */
+export class AudioLevel {
+  /** Smoothed level (0-1) */
+  value: number;
+
+  private normalization: AudioAnalysisConfig["normalization"];
+
+  /**
+   * @param effectType - Factory type of the effect, named in warnings
+   * @param initialValue - Level before any audio has been followed
+   */
+  constructor(
+    private readonly effectType: string,
+    initialValue: number = 0
+  ) {
+    this.value = initialValue;
+    this.normalization = getEffectConfigSync().audioAnalysis.normalization;
+  }
+
+  /**
+   * Reads a source as a 0-1 level for this frame, without smoothing.
+   */
+  read(audioData: AudioFrameData, source: AudioAnalysisSource): number {
+    return getEffectAudioValue(
+      this.effectType,
+      audioData,
+      source,
+      this.normalization
+    );
+  }
+
+  /**
+   * Moves the level towards a source's level this frame (frame-rate
+   * independent).
+   *
+   * @param audioData - Current audio analysis data
+   * @param source - Audio source to follow
+   * @param smoothing - Smoothing factor (0 = instant, higher = smoother)
+   * @param deltaTime - Time since the last frame in ms
+   * @returns The smoothed level
+   */
+  update(
+    audioData: AudioFrameData,
+    source: AudioAnalysisSource,
+    smoothing: number,
+    deltaTime: number
+  ): number {
+    this.value = smoothDamp(
+      this.value,
+      this.read(audioData, source),
+      smoothing,
+      deltaTime
+    );
+    return this.value;
+  }
+
+  /**
+   * Jumps the level to a value, e.g. when the effect starts.
+   */
+  reset(value: number): void {
+    this.value = value;
+  }
+}
+
+/**
+ * Gets an effect's intensity multiplier, preferring its custom multipliers
+ * over the configured ones.
+ *
+ * @param multipliers - Configured multipliers by intensity
+ * @param params - Effect parameters
+ */
+export function getIntensityMultiplier(
+  multipliers: Record<EffectIntensity, number>,
+  {
+    intensity,
+    intensityMultipliers,
+  }: Pick<BaseEffectParams, "intensity" | "intensityMultipliers">
+): number {
+  return { ...multipliers, ...intensityMultipliers }[intensity];
+}
+
+/**
+ * Maps a 0-1 level onto a range whose span is scaled by the intensity
+ * multiplier. With a base, the scaled span is centered on it; without one it
+ * starts at min. The result stays within min and max.
+ *
+ * @param level - Level from 0 to 1
+ * @param range - Value range
+ * @param multiplier - Intensity multiplier
+ */
+export function mapLevelToRange(
+  level: number,
+  { min, max, base }: LevelRange,
+  multiplier: number
+): number {
+  const span = (max - min) * multiplier;
+  const low = base === undefined ? min : Math.max(min, base - span / 2);
+  const high = base === undefined ? min + span : Math.min(max, base + span / 2);
+  return clamp(low + level * (high - low), min, max);
+}
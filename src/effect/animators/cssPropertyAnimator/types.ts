@@ -0,0 +1,48 @@
+import {
+  AudioAnalysisSource,
+  BaseEffectParams,
+  EffectOutput,
+} from "../../core/types";
+
+/**
+ * How the audio level is shaped before it is mapped to the value range.
+ * - linear: proportional to the level
+ * - exponential: stays low, then rises sharply on loud passages
+ * - logarithmic: rises quickly, then flattens out
+ * - step: snaps to a fixed number of levels
+ */
+export type CssValueCurve = "linear" | "exponential" | "logarithmic" | "step";
+
+/**
+ * Parameters for the CssPropertyAnimator effect.
+ */
+export interface CssPropertyAnimatorParams extends BaseEffectParams {
+  /** Which audio metric drives the effect */
+  audioAnalysisSource: AudioAnalysisSource;
+  /** CSS custom property to set (e.g., "--audio-level") */
+  property: string;
+  /** Unit appended to the value (e.g., "px", "deg", "%", or "" for none) */
+  unit: string;
+  /** Value when the audio is silent */
+  min: number;
+  /** Value when the audio is at full level */
+  max: number;
+  /** Response curve from audio level to value */
+  curve: CssValueCurve;
+  /** Number of levels for the step curve (default 4) */
+  steps?: number;
+  /** Smoothing factor (0 = instant, higher = smoother, 0-0.99) */
+  smoothing: number;
+}
+
+/**
+ * Output from the CssPropertyAnimator effect.
+ */
+export interface CssPropertyAnimatorOutput extends EffectOutput {
+  /** CSS custom property the value is for */
+  property: string;
+  /** Current value (numeric) */
+  value: number;
+  /** CSS-formatted value with its unit (e.g., "12px") */
+  cssValue: string;
+}
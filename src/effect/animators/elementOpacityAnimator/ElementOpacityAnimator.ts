@@ -11,9 +11,15 @@ import {
   EffectInstance,
   EffectIntensity,
 } from "../../core/types";
-import { smoothDamp, clamp } from "@/utils/math";
-import { ElementOpacityAnimatorParams, ElementOpacityAnimatorOutput } from "./types";
-import { getEffectConfigSync } from "../../config/loader";
+import {
+  ElementOpacityAnimatorParams,
+  ElementOpacityAnimatorOutput,
+} from "./types";
+import {
+  AudioLevel,
+  getIntensityMultiplier,
+  mapLevelToRange,
+} from "../cssPropertyAnimator/audioLevel";
 
 /**
  * Internal effect instance for ElementOpacityAnimator.
@@ -27,9 +33,8 @@ export class ElementOpacityAnimatorEffectInstance implements EffectInstance<
 
   private params: ElementOpacityAnimatorParams;
   private currentOutput: ElementOpacityAnimatorOutput;
-  private smoothedValue: number = 0;
+  private level: AudioLevel;
   private intensityMultipliers: Record<EffectIntensity, number>;
-  private normalization: { rmsMultiplier: number; frequencyDivisor: number };
 
   constructor(
     readonly id: string,
@@ -43,14 +48,12 @@ export class ElementOpacityAnimatorEffectInstance implements EffectInstance<
       normalizedOpacity: params.baseOpacity / 100,
     };
 
-    // Load normalization config
-    const config = getEffectConfigSync();
-    this.normalization = config.audioAnalysis.normalization;
+    this.level = new AudioLevel(this.factoryType);
   }
 
   start(): void {
-    // Initialize smoothed value to center
-    this.smoothedValue = 0.5;
+    // Start from the center of the range
+    this.level.reset(0.5);
   }
 
   update(
@@ -63,68 +66,25 @@ export class ElementOpacityAnimatorEffectInstance implements EffectInstance<
       minOpacity,
       maxOpacity,
       smoothing,
-      intensity,
-      intensityMultipliers: customMultipliers,
     } = this.params;
 
-    // Get raw audio value and normalize to 0-1
-    let rawValue: number;
-    switch (audioAnalysisSource) {
-      case "rms":
-        rawValue = clamp(
-          audioData.rms * this.normalization.rmsMultiplier,
-          0,
-          1
-        );
-        break;
-      case "bass":
-        rawValue = audioData.bass / this.normalization.frequencyDivisor;
-        break;
-      case "midLow":
-        rawValue = audioData.midLow / this.normalization.frequencyDivisor;
-        break;
-      case "midHigh":
-        rawValue = audioData.midHigh / this.normalization.frequencyDivisor;
-        break;
-      case "treble":
-        rawValue = audioData.treble / this.normalization.frequencyDivisor;
-        break;
-      default:
-        rawValue = 0;
-        console.warn(
-          "elementOpacityAnimator has no way to analyze for given method of: " +
-            audioAnalysisSource
-        );
-    }
-
-    // Apply smoothing (frame-rate independent)
-    this.smoothedValue = smoothDamp(
-      this.smoothedValue,
-      rawValue,
+    const level = this.level.update(
+      audioData,
+      audioAnalysisSource,
       smoothing,
       deltaTime
     );
 
-    // Get effective intensity multiplier
-    const multipliers = { ...this.intensityMultipliers, ...customMultipliers };
-    const multiplier = multipliers[intensity];
-
-    // Calculate effective range based on intensity
-    const range = maxOpacity - minOpacity;
-    const effectiveRange = range * multiplier;
-
-    // Center the effective range around the base opacity
-    const effectiveMin = Math.max(minOpacity, baseOpacity - effectiveRange / 2);
-    const effectiveMax = Math.min(maxOpacity, baseOpacity + effectiveRange / 2);
-
-    // Map smoothed value to opacity
-    const opacity =
-      effectiveMin + this.smoothedValue * (effectiveMax - effectiveMin);
-    const clampedOpacity = clamp(opacity, minOpacity, maxOpacity);
+    // Center the intensity-scaled range around the base opacity
+    const opacity = mapLevelToRange(
+      level,
+      { min: minOpacity, max: maxOpacity, base: baseOpacity },
+      getIntensityMultiplier(this.intensityMultipliers, this.params)
+    );
 
     this.currentOutput = {
-      opacity: clampedOpacity,
-      normalizedOpacity: clampedOpacity / 100,
+      opacity,
+      normalizedOpacity: opacity / 100,
     };
 
     return this.currentOutput;
@@ -10,13 +10,15 @@ import {
   EffectInstance,
   EffectIntensity,
 } from "../../core/types";
-import { smoothDamp, clamp } from "@/utils/math";
 import {
   GlitchIntensityAnimatorParams,
   GlitchIntensityAnimatorOutput,
   GlitchSpeed,
 } from "./types";
-import { getEffectConfigSync } from "../../config/loader";
+import {
+  AudioLevel,
+  getIntensityMultiplier,
+} from "../cssPropertyAnimator/audioLevel";
 
 /**
  * Internal effect instance for GlitchIntensityAnimator.
@@ -30,9 +32,8 @@ export class GlitchIntensityAnimatorEffectInstance implements EffectInstance<
 
   private params: GlitchIntensityAnimatorParams;
   private currentOutput: GlitchIntensityAnimatorOutput;
-  private smoothedValue: number = 0;
+  private level: AudioLevel;
   private intensityMultipliers: Record<EffectIntensity, number>;
-  private normalization: { rmsMultiplier: number; frequencyDivisor: number };
   private holdTimer: number = 0;
   private lastPeakTime: number = 0;
 
@@ -49,13 +50,11 @@ export class GlitchIntensityAnimatorEffectInstance implements EffectInstance<
       rawIntensity: 0,
     };
 
-    // Load normalization config
-    const config = getEffectConfigSync();
-    this.normalization = config.audioAnalysis.normalization;
+    this.level = new AudioLevel(this.factoryType);
   }
 
   start(): void {
-    this.smoothedValue = 0;
+    this.level.reset(0);
     this.holdTimer = 0;
     this.lastPeakTime = 0;
   }
@@ -70,72 +69,38 @@ export class GlitchIntensityAnimatorEffectInstance implements EffectInstance<
       slowThreshold,
       mediumThreshold,
       smoothing,
-      intensity,
       holdTime,
-      intensityMultipliers: customMultipliers,
     } = this.params;
 
-    // Get raw audio value and normalize to 0-1
-    let rawValue: number;
-    switch (audioAnalysisSource) {
-      case "rms":
-        rawValue = clamp(
-          audioData.rms * this.normalization.rmsMultiplier,
-          0,
-          1
-        );
-        break;
-      case "bass":
-        rawValue = audioData.bass / this.normalization.frequencyDivisor;
-        break;
-      case "midLow":
-        rawValue = audioData.midLow / this.normalization.frequencyDivisor;
-        break;
-      case "midHigh":
-        rawValue = audioData.midHigh / this.normalization.frequencyDivisor;
-        break;
-      case "treble":
-        rawValue = audioData.treble / this.normalization.frequencyDivisor;
-        break;
-      default:
-        rawValue = 0;
-        console.warn(
-          "glitchIntensityAnimator has no way to analyze for given method of: " +
-            audioAnalysisSource
-        );
-    }
-
-    // Apply smoothing (frame-rate independent)
-    this.smoothedValue = smoothDamp(
-      this.smoothedValue,
-      rawValue,
+    const level = this.level.update(
+      audioData,
+      audioAnalysisSource,
       smoothing,
       deltaTime
     );
-
-    // Get effective intensity multiplier
-    const multipliers = { ...this.intensityMultipliers, ...customMultipliers };
-    const multiplier = multipliers[intensity];
+    const multiplier = getIntensityMultiplier(
+      this.intensityMultipliers,
+      this.params
+    );
 
     // Apply intensity multiplier to thresholds (lower thresholds = more sensitive at higher intensity)
     const effectiveThreshold = threshold * (1 - (multiplier - 0.5));
 
     // Update hold timer
     const currentTime = audioData.timestamp;
-    if (this.smoothedValue > effectiveThreshold) {
+    if (level > effectiveThreshold) {
       this.lastPeakTime = currentTime;
     }
     const timeSincePeak = currentTime - this.lastPeakTime;
 
     // Determine if glitch should be active (above threshold or within hold time)
-    const shouldGlitch =
-      this.smoothedValue > effectiveThreshold || timeSincePeak < holdTime;
+    const shouldGlitch = level > effectiveThreshold || timeSincePeak < holdTime;
 
     // Determine speed based on intensity level
     let speed: GlitchSpeed;
-    if (this.smoothedValue < slowThreshold) {
+    if (level < slowThreshold) {
       speed = "slow";
-    } else if (this.smoothedValue < mediumThreshold) {
+    } else if (level < mediumThreshold) {
       speed = "medium";
     } else {
       speed = "fast";
@@ -144,7 +109,7 @@ export class GlitchIntensityAnimatorEffectInstance implements EffectInstance<
     this.currentOutput = {
       speed,
       shouldGlitch,
-      rawIntensity: this.smoothedValue,
+      rawIntensity: level,
     };
 
     return this.currentOutput;
@@ -15,7 +15,10 @@ import {
   GradientPositionAnimatorParams,
   GradientPositionAnimatorOutput,
 } from "./types";
-import { getEffectConfigSync } from "../../config/loader";
+import {
+  AudioLevel,
+  getIntensityMultiplier,
+} from "../cssPropertyAnimator/audioLevel";
 
 /**
  * Internal effect instance for GradientPositionAnimator.
@@ -30,7 +33,7 @@ export class GradientPositionAnimatorEffectInstance implements EffectInstance<
   private params: GradientPositionAnimatorParams;
   private currentOutput: GradientPositionAnimatorOutput;
   private intensityMultipliers: Record<EffectIntensity, number>;
-  private normalization: { rmsMultiplier: number; frequencyDivisor: number };
+  private level: AudioLevel;
 
   // Position tracking
   private currentX: number;
@@ -64,9 +67,7 @@ export class GradientPositionAnimatorEffectInstance implements EffectInstance<
       cssY: `${params.baseY}%`,
     };
 
-    // Load normalization config
-    const config = getEffectConfigSync();
-    this.normalization = config.audioAnalysis.normalization;
+    this.level = new AudioLevel(this.factoryType);
   }
 
   start(): void {
@@ -93,43 +94,14 @@ export class GradientPositionAnimatorEffectInstance implements EffectInstance<
       peakThreshold,
       peakDecay,
       movementStyle,
-      intensity,
-      intensityMultipliers: customMultipliers,
     } = this.params;
 
-    // Get raw audio value and normalize to 0-1
-    let rawValue: number;
-    switch (audioAnalysisSource) {
-      case "rms":
-        rawValue = clamp(
-          audioData.rms * this.normalization.rmsMultiplier,
-          0,
-          1
-        );
-        break;
-      case "bass":
-        rawValue = audioData.bass / this.normalization.frequencyDivisor;
-        break;
-      case "midLow":
-        rawValue = audioData.midLow / this.normalization.frequencyDivisor;
-        break;
-      case "midHigh":
-        rawValue = audioData.midHigh / this.normalization.frequencyDivisor;
-        break;
-      case "treble":
-        rawValue = audioData.treble / this.normalization.frequencyDivisor;
-        break;
-      default:
-        rawValue = 0;
-        console.warn(
-          "gradientPositionAnimator has no way to analyze for given method of: " +
-            audioAnalysisSource
-        );
-    }
-
-    // Get effective intensity multiplier
-    const multipliers = { ...this.intensityMultipliers, ...customMultipliers };
-    const multiplier = multipliers[intensity];
+    // Peaks need the unsmoothed level; the position is smoothed instead
+    const rawValue = this.level.read(audioData, audioAnalysisSource);
+    const multiplier = getIntensityMultiplier(
+      this.intensityMultipliers,
+      this.params
+    );
 
     // Apply intensity to max deviation
     const effectiveDeviation = maxDeviation * multiplier;
@@ -10,12 +10,15 @@ import {
   EffectInstance,
   EffectIntensity,
 } from "../../core/types";
-import { smoothDamp, clamp } from "@/utils/math";
 import {
   GradientScaleAnimatorParams,
   GradientScaleAnimatorOutput,
 } from "./types";
-import { getEffectConfigSync } from "../../config/loader";
+import {
+  AudioLevel,
+  getIntensityMultiplier,
+  mapLevelToRange,
+} from "../cssPropertyAnimator/audioLevel";
 
 /**
  * Internal effect instance for GradientScaleAnimator.
@@ -29,10 +32,9 @@ export class GradientScaleAnimatorEffectInstance implements EffectInstance<
 
   private params: GradientScaleAnimatorParams;
   private currentOutput: GradientScaleAnimatorOutput;
-  private smoothedWidthValue: number = 0;
-  private smoothedHeightValue: number = 0;
+  private widthLevel: AudioLevel;
+  private heightLevel: AudioLevel;
   private intensityMultipliers: Record<EffectIntensity, number>;
-  private normalization: { rmsMultiplier: number; frequencyDivisor: number };
 
   constructor(
     readonly id: string,
@@ -48,15 +50,14 @@ export class GradientScaleAnimatorEffectInstance implements EffectInstance<
       cssHeight: `${params.baseHeight}%`,
     };
 
-    // Load normalization config
-    const config = getEffectConfigSync();
-    this.normalization = config.audioAnalysis.normalization;
+    this.widthLevel = new AudioLevel(this.factoryType);
+    this.heightLevel = new AudioLevel(this.factoryType);
   }
 
   start(): void {
-    // Initialize smoothed values to center (0.5 maps to 1.0 = base scale)
-    this.smoothedWidthValue = 0.5;
-    this.smoothedHeightValue = 0.5;
+    // Start from the center of the range (a scale of 1, the base size)
+    this.widthLevel.reset(0.5);
+    this.heightLevel.reset(0.5);
   }
 
   update(
@@ -70,44 +71,26 @@ export class GradientScaleAnimatorEffectInstance implements EffectInstance<
       minScale,
       maxScale,
       smoothing,
-      intensity,
       aspectLock,
-      intensityMultipliers: customMultipliers,
     } = this.params;
 
-    // Helper to get normalized value from audio source
-    const getAudioValue = (source: string): number => {
-      switch (source) {
-        case "rms":
-          return clamp(audioData.rms * this.normalization.rmsMultiplier, 0, 1);
-        case "bass":
-          return audioData.bass / this.normalization.frequencyDivisor;
-        case "midLow":
-          return audioData.midLow / this.normalization.frequencyDivisor;
-        case "midHigh":
-          return audioData.midHigh / this.normalization.frequencyDivisor;
-        case "treble":
-          return audioData.treble / this.normalization.frequencyDivisor;
-        default:
-          return 0;
-      }
-    };
-
-    // Get effective intensity multiplier
-    const multipliers = { ...this.intensityMultipliers, ...customMultipliers };
-    const multiplier = multipliers[intensity];
+    // Scale factors are centered on 1, the base size
+    const scaleRange = { min: minScale, max: maxScale, base: 1 };
+    const multiplier = getIntensityMultiplier(
+      this.intensityMultipliers,
+      this.params
+    );
 
-    // Calculate effective scale range based on intensity
-    const scaleRange = maxScale - minScale;
-    const effectiveRange = scaleRange * multiplier;
-    const baseScale = 1.0;
-    const effectiveMinScale = Math.max(
-      minScale,
-      baseScale - effectiveRange / 2
+    const widthLevel = this.widthLevel.update(
+      audioData,
+      audioAnalysisSource,
+      smoothing,
+      deltaTime
     );
-    const effectiveMaxScale = Math.min(
-      maxScale,
-      baseScale + effectiveRange / 2
+    const widthScaleFactor = mapLevelToRange(
+      widthLevel,
+      scaleRange,
+      multiplier
     );
 
     let width: number;
@@ -115,22 +98,11 @@ export class GradientScaleAnimatorEffectInstance implements EffectInstance<
 
     if (aspectLock) {
       // Both dimensions scale equally using the configured audio source
-      const rawValue = getAudioValue(audioAnalysisSource);
-      this.smoothedWidthValue = smoothDamp(
-        this.smoothedWidthValue,
-        rawValue,
-        smoothing,
-        deltaTime
-      );
-      const scaleFactor =
-        effectiveMinScale +
-        this.smoothedWidthValue * (effectiveMaxScale - effectiveMinScale);
-      width = baseWidth * scaleFactor;
-      height = baseHeight * scaleFactor;
+      width = baseWidth * widthScaleFactor;
+      height = baseHeight * widthScaleFactor;
     } else {
       // Width uses configured source, height uses a complementary source
       // This creates an ellipse that changes shape with the music
-      const widthRaw = getAudioValue(audioAnalysisSource);
       // Use bass for width expansion, treble for height - creates interesting shapes
       const heightSource =
         audioAnalysisSource === "bass"
@@ -140,30 +112,16 @@ export class GradientScaleAnimatorEffectInstance implements EffectInstance<
             : audioAnalysisSource === "midLow"
               ? "midHigh"
               : "midLow";
-      const heightRaw = getAudioValue(heightSource);
-
-      this.smoothedWidthValue = smoothDamp(
-        this.smoothedWidthValue,
-        widthRaw,
+      const heightLevel = this.heightLevel.update(
+        audioData,
+        heightSource,
         smoothing,
         deltaTime
       );
-      this.smoothedHeightValue = smoothDamp(
-        this.smoothedHeightValue,
-        heightRaw,
-        smoothing,
-        deltaTime
-      );
-
-      const widthScaleFactor =
-        effectiveMinScale +
-        this.smoothedWidthValue * (effectiveMaxScale - effectiveMinScale);
-      const heightScaleFactor =
-        effectiveMinScale +
-        this.smoothedHeightValue * (effectiveMaxScale - effectiveMinScale);
 
       width = baseWidth * widthScaleFactor;
-      height = baseHeight * heightScaleFactor;
+      height =
+        baseHeight * mapLevelToRange(heightLevel, scaleRange, multiplier);
     }
 
     this.currentOutput = {
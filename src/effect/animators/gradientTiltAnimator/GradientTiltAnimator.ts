@@ -10,12 +10,15 @@ import {
   EffectInstance,
   EffectIntensity,
 } from "../../core/types";
-import { smoothDamp, clamp } from "@/utils/math";
 import {
   GradientTiltAnimatorParams,
   GradientTiltAnimatorOutput,
 } from "./types";
-import { getEffectConfigSync } from "../../config/loader";
+import {
+  AudioLevel,
+  getIntensityMultiplier,
+  mapLevelToRange,
+} from "../cssPropertyAnimator/audioLevel";
 
 /**
  * Internal effect instance for GradientTiltAnimator.
@@ -29,9 +32,8 @@ export class GradientTiltAnimatorEffectInstance implements EffectInstance<
 
   private params: GradientTiltAnimatorParams;
   private currentOutput: GradientTiltAnimatorOutput;
-  private smoothedValue: number = 0;
+  private level: AudioLevel;
   private intensityMultipliers: Record<EffectIntensity, number>;
-  private normalization: { rmsMultiplier: number; frequencyDivisor: number };
 
   constructor(
     readonly id: string,
@@ -45,14 +47,12 @@ export class GradientTiltAnimatorEffectInstance implements EffectInstance<
       cssTilt: `${params.baseTilt}deg`,
     };
 
-    // Load normalization config
-    const config = getEffectConfigSync();
-    this.normalization = config.audioAnalysis.normalization;
+    this.level = new AudioLevel(this.factoryType);
   }
 
   start(): void {
-    // Initialize smoothed value to center
-    this.smoothedValue = 0.5;
+    // Start from the center of the range
+    this.level.reset(0.5);
   }
 
   update(
@@ -65,73 +65,26 @@ export class GradientTiltAnimatorEffectInstance implements EffectInstance<
       minTilt,
       maxTilt,
       smoothing,
-      intensity,
       oscillate,
-      intensityMultipliers: customMultipliers,
     } = this.params;
 
-    // Get raw audio value and normalize to 0-1
-    let rawValue: number;
-    switch (audioAnalysisSource) {
-      case "rms":
-        rawValue = clamp(
-          audioData.rms * this.normalization.rmsMultiplier,
-          0,
-          1
-        );
-        break;
-      case "bass":
-        rawValue = audioData.bass / this.normalization.frequencyDivisor;
-        break;
-      case "midLow":
-        rawValue = audioData.midLow / this.normalization.frequencyDivisor;
-        break;
-      case "midHigh":
-        rawValue = audioData.midHigh / this.normalization.frequencyDivisor;
-        break;
-      case "treble":
-        rawValue = audioData.treble / this.normalization.frequencyDivisor;
-        break;
-      default:
-        rawValue = 0;
-        console.warn(
-          "gradientTiltAnimator has no way to analyze for given method of: " +
-            audioAnalysisSource
-        );
-    }
-
-    // Apply smoothing (frame-rate independent)
-    this.smoothedValue = smoothDamp(
-      this.smoothedValue,
-      rawValue,
+    const level = this.level.update(
+      audioData,
+      audioAnalysisSource,
       smoothing,
       deltaTime
     );
 
-    // Get effective intensity multiplier
-    const multipliers = { ...this.intensityMultipliers, ...customMultipliers };
-    const multiplier = multipliers[intensity];
-
-    // Calculate effective range based on intensity
-    const range = maxTilt - minTilt;
-    const effectiveRange = range * multiplier;
-
-    let tilt: number;
-    if (oscillate) {
-      // Oscillate around base tilt
-      const effectiveMin = Math.max(minTilt, baseTilt - effectiveRange / 2);
-      const effectiveMax = Math.min(maxTilt, baseTilt + effectiveRange / 2);
-      tilt = effectiveMin + this.smoothedValue * (effectiveMax - effectiveMin);
-    } else {
-      // Linear mapping from min to max
-      tilt = minTilt + this.smoothedValue * effectiveRange;
-    }
-
-    const clampedTilt = clamp(tilt, minTilt, maxTilt);
+    // Oscillate around the base tilt, or map linearly up from the minimum
+    const tilt = mapLevelToRange(
+      level,
+      { min: minTilt, max: maxTilt, base: oscillate ? baseTilt : undefined },
+      getIntensityMultiplier(this.intensityMultipliers, this.params)
+    );
 
     this.currentOutput = {
-      tilt: clampedTilt,
-      cssTilt: `${clampedTilt}deg`,
+      tilt,
+      cssTilt: `${tilt}deg`,
     };
 
     return this.currentOutput;
@@ -2,7 +2,8 @@
  * Effect Animators Index
  *
  * Central registration point for all effect animators.
- * Call registerAnimators() to explicitly register all animators with the EffectRegistry.
+ * Call registerAnimators() to explicitly register all animators with the EffectRegistry,
+ * then registerConfiguredAnimators() once the config has loaded.
  */
 
 import { EffectRegistry } from "../core/EffectRegistry";
@@ -12,6 +13,8 @@ import { ElementOpacityAnimatorFactory } from "./elementOpacityAnimator/ElementO
 import { GradientScaleAnimatorFactory } from "./gradientScaleAnimator/GradientScaleAnimatorFactory";
 import { GlitchIntensityAnimatorFactory } from "./glitchIntensityAnimator/GlitchIntensityAnimatorFactory";
 import { GradientPositionAnimatorFactory } from "./gradientPositionAnimator/GradientPositionAnimatorFactory";
+import { CssPropertyAnimatorFactory } from "./cssPropertyAnimator/CssPropertyAnimatorFactory";
+import type { EffectSystemConfig } from "../config/types";
 
 /**
  * Registers all animator factories with the EffectRegistry.
@@ -33,6 +36,33 @@ export function registerAnimators(): void {
   EffectRegistry.register(new GradientPositionAnimatorFactory());
 }
 
+/**
+ * Registers a factory for every config entry driven by a generic animator,
+ * with the entry's name as its effect type.
+ * Call once the config has loaded, before any of these effects are created.
+ *
+ * @param config - Loaded effect config
+ * @returns Effect types registered
+ */
+export function registerConfiguredAnimators(
+  config: EffectSystemConfig
+): string[] {
+  const registered: string[] = [];
+  for (const [name, entry] of Object.entries(config.effects)) {
+    if (!entry.animator) continue;
+
+    if (entry.animator === CssPropertyAnimatorFactory.animator) {
+      EffectRegistry.register(new CssPropertyAnimatorFactory(name));
+      registered.push(name);
+    } else {
+      console.warn(
+        `[Animators] Effect "${name}" uses unknown animator "${entry.animator}" and is ignored.`
+      );
+    }
+  }
+  return registered;
+}
+
 // Re-export factory types and params for consumer convenience
 export {
   type MaskRadiusAnimatorParams,
@@ -65,3 +95,9 @@ export {
   type GradientPositionAnimatorOutput,
   type MovementStyle,
 } from "./gradientPositionAnimator/types";
+
+export {
+  type CssPropertyAnimatorParams,
+  type CssPropertyAnimatorOutput,
+  type CssValueCurve,
+} from "./cssPropertyAnimator/types";
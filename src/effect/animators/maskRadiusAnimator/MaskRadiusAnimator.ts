@@ -10,9 +10,12 @@ import {
   EffectInstance,
   EffectIntensity,
 } from "../../core/types";
-import { smoothDamp, clamp } from "@/utils/math";
 import { MaskRadiusAnimatorParams, MaskRadiusAnimatorOutput } from "./types";
-import { getEffectConfigSync } from "../../config/loader";
+import {
+  AudioLevel,
+  getIntensityMultiplier,
+  mapLevelToRange,
+} from "../cssPropertyAnimator/audioLevel";
 
 /**
  * Internal effect instance for MaskRadiusAnimator.
@@ -26,9 +29,8 @@ export class MaskRadiusAnimatorEffectInstance implements EffectInstance<
 
   private params: MaskRadiusAnimatorParams;
   private currentOutput: MaskRadiusAnimatorOutput;
-  private smoothedValue: number = 0;
+  private level: AudioLevel;
   private intensityMultipliers: Record<EffectIntensity, number>;
-  private normalization: { rmsMultiplier: number; frequencyDivisor: number };
 
   constructor(
     readonly id: string,
@@ -42,89 +44,38 @@ export class MaskRadiusAnimatorEffectInstance implements EffectInstance<
       cssRadius: `${params.baseRadius}vh`,
     };
 
-    // Load normalization config
-    const config = getEffectConfigSync();
-    this.normalization = config.audioAnalysis.normalization;
+    this.level = new AudioLevel(this.factoryType);
   }
 
   start(): void {
-    // Initialize smoothed value to base
-    this.smoothedValue = 0.5; // Normalized middle
+    // Start from the center of the range
+    this.level.reset(0.5);
   }
 
   update(
     audioData: AudioFrameData,
     deltaTime: number
   ): MaskRadiusAnimatorOutput {
-    const {
-      audioAnalysisSource,
-      baseRadius,
-      minRadius,
-      maxRadius,
-      smoothing,
-      intensity,
-      intensityMultipliers: customMultipliers,
-    } = this.params;
+    const { audioAnalysisSource, baseRadius, minRadius, maxRadius, smoothing } =
+      this.params;
 
-    // Get raw audio value and normalize to 0-1 using config normalization
-    let rawValue: number;
-    switch (audioAnalysisSource) {
-      case "rms":
-        // RMS is already 0-1, but typically peaks around 0.3-0.5
-        rawValue = clamp(
-          audioData.rms * this.normalization.rmsMultiplier,
-          0,
-          1
-        );
-        break;
-      case "bass":
-        rawValue = audioData.bass / this.normalization.frequencyDivisor;
-        break;
-      case "midLow":
-        rawValue = audioData.midLow / this.normalization.frequencyDivisor;
-        break;
-      case "midHigh":
-        rawValue = audioData.midHigh / this.normalization.frequencyDivisor;
-        break;
-      case "treble":
-        rawValue = audioData.treble / this.normalization.frequencyDivisor;
-        break;
-      default:
-        rawValue = 0;
-        console.warn(
-          "maskRadiusAnimator has no way to analyze for give method of: " +
-            audioAnalysisSource
-        );
-    }
-
-    // Apply smoothing (frame-rate independent)
-    this.smoothedValue = smoothDamp(
-      this.smoothedValue,
-      rawValue,
+    const level = this.level.update(
+      audioData,
+      audioAnalysisSource,
       smoothing,
       deltaTime
     );
 
-    // Get effective intensity multiplier
-    const multipliers = { ...this.intensityMultipliers, ...customMultipliers };
-    const multiplier = multipliers[intensity];
-
-    // Calculate effective range based on intensity
-    const range = maxRadius - minRadius;
-    const effectiveRange = range * multiplier;
-
-    // Center the effective range around the base radius
-    const effectiveMin = Math.max(minRadius, baseRadius - effectiveRange / 2);
-    const effectiveMax = Math.min(maxRadius, baseRadius + effectiveRange / 2);
-
-    // Map smoothed value to radius
-    const radius =
-      effectiveMin + this.smoothedValue * (effectiveMax - effectiveMin);
-    const clampedRadius = clamp(radius, minRadius, maxRadius);
+    // Center the intensity-scaled range around the base radius
+    const radius = mapLevelToRange(
+      level,
+      { min: minRadius, max: maxRadius, base: baseRadius },
+      getIntensityMultiplier(this.intensityMultipliers, this.params)
+    );
 
     this.currentOutput = {
-      radius: clampedRadius,
-      cssRadius: `${clampedRadius}vh`,
+      radius,
+      cssRadius: `${radius}vh`,
     };
 
     return this.currentOutput;
@@ -146,4 +97,3 @@ export class MaskRadiusAnimatorEffectInstance implements EffectInstance<
     return { ...this.currentOutput };
   }
 }
-
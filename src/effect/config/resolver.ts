@@ -10,8 +10,10 @@ import {
   AudioAnalysisConfig,
   EffectSystemConfig,
   EffectsConfig,
+  FrequencyBandRange,
 } from "./types";
 import { getEffectConfigSync } from "./loader";
+import { getFrequencyBandRanges } from "../core/frequencyBands";
 
 /**
  * Options for resolving effect parameters
@@ -111,14 +113,11 @@ export class EffectConfigResolver {
   /**
    * Gets frequency band configuration for a specific band.
    *
-   * @param band - Band name (bass, midLow, midHigh, treble)
-   * @returns Bin range for the frequency band
+   * @param band - Band name (a named band or a preset band such as "bark:3")
+   * @returns Band edges in Hz, or undefined if no such band is configured
    */
-  getFrequencyBand(band: "bass" | "midLow" | "midHigh" | "treble"): {
-    start: number;
-    end: number;
-  } {
-    return this.config.audioAnalysis.frequencyBands[band];
+  getFrequencyBand(band: string): FrequencyBandRange | undefined {
+    return getFrequencyBandRanges(this.config.audioAnalysis)[band];
   }
 
   /**
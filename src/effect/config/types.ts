@@ -5,7 +5,12 @@
  * Config is loaded from /public/effect/config.json via API endpoint.
  */
 
-import { BaseEffectParams, EffectIntensity } from "../core/types";
+import {
+  AudioAnalysisSource,
+  BaseEffectParams,
+  EffectIntensity,
+  FrequencyBand,
+} from "../core/types";
 import {
   MaskRadiusAnimatorParams,
   GradientTiltAnimatorParams,
@@ -21,22 +26,29 @@ import {
 export interface AudioAnalysisConfig {
   /** FFT configuration */
   fft: {
-    /** FFT size (power of 2, typically 512-2048) */
+    /** FFT size (power of 2, typically 512-2048); sizes the data buffers */
     fftSize: number;
     /** Number of frequency bins (typically fftSize / 2) */
     frequencyBinCount: number;
   };
-  /** Frequency band ranges for audio analysis */
+  /**
+   * Named frequency bands in Hz. Any name can be used as an
+   * audioAnalysisSource; bass, midLow, midHigh and treble are required.
+   */
   frequencyBands: {
     /** Bass frequencies (sub-bass to bass) */
-    bass: { start: number; end: number };
+    bass: FrequencyBandRange;
     /** Low-mid frequencies */
-    midLow: { start: number; end: number };
+    midLow: FrequencyBandRange;
     /** High-mid frequencies */
-    midHigh: { start: number; end: number };
+    midHigh: FrequencyBandRange;
     /** Treble frequencies */
-    treble: { start: number; end: number };
+    treble: FrequencyBandRange;
+    /** Additional bands */
+    [name: string]: FrequencyBandRange;
   };
+  /** Log-spaced band sets to add to the named bands */
+  bandPresets?: FrequencyBandPreset[];
   /** Audio data normalization constants */
   normalization: {
     /** RMS multiplier for amplitude scaling */
@@ -44,6 +56,45 @@ export interface AudioAnalysisConfig {
     /** Frequency data divisor (typically 255 for byte data) */
     frequencyDivisor: number;
   };
+  /** Onset, tempo and beat detection */
+  beatDetection: BeatDetectionConfig;
+}
+
+/**
+ * Frequency band edges in Hz
+ */
+export interface FrequencyBandRange {
+  /** Lower edge in Hz (inclusive) */
+  minHz: number;
+  /** Upper edge in Hz (exclusive) */
+  maxHz: number;
+}
+
+/**
+ * Log-spaced band sets.
+ * - thirdOctave: 30 bands from 25 Hz to 20 kHz, named by centre ("thirdOctave:1000")
+ * - bark: the 24 critical bands of hearing, numbered ("bark:1" to "bark:24")
+ */
+export type FrequencyBandPreset = "thirdOctave" | "bark";
+
+/**
+ * Onset, tempo and beat detection configuration
+ */
+export interface BeatDetectionConfig {
+  /** How much flux history the onset threshold adapts to, in ms */
+  fluxWindowMs: number;
+  /** Standard deviations above the mean flux an onset must reach */
+  onsetSensitivity: number;
+  /** Minimum flux (0-1) for an onset, so noise in quiet passages is ignored */
+  minFlux: number;
+  /** Shortest time between two onsets in the same band, in ms */
+  minOnsetIntervalMs: number;
+  /** How much onset history the tempo is estimated from, in ms */
+  tempoWindowMs: number;
+  /** Slowest tempo reported; slower tempos are doubled */
+  minBpm: number;
+  /** Fastest tempo reported (exclusive); faster tempos are halved */
+  maxBpm: number;
 }
 
 /**
@@ -52,6 +103,11 @@ export interface AudioAnalysisConfig {
 export interface EffectTypeConfig<
   TParams extends BaseEffectParams = BaseEffectParams,
 > {
+  /**
+   * Generic animator that drives this entry (e.g., "cssPropertyAnimator").
+   * Omitted for the built-in animators, whose key is their own type.
+   */
+  animator?: string;
   /** Base default parameters for this effect type */
   defaults: Omit<TParams, "enabled" | "intensityMultipliers" | "trackId">;
   /** Partial parameter overrides per intensity level */
@@ -76,10 +132,12 @@ export interface EffectTypeConfig<
 /**
  * All effect type configurations
  *
- * TODO: It would be nice to find a way to not have to manually add animators to
- * this type every time. Investigate alternatives.
+ * Besides the built-in animators, any number of named entries may be added.
+ * Each names the generic animator that drives it, and its key becomes the
+ * effect type (e.g., "audioLevel" driven by "cssPropertyAnimator").
  */
 export interface EffectsConfig {
+  [name: string]: EffectTypeConfig<BaseEffectParams>;
   /** MaskRadiusAnimator configuration */
   maskRadiusAnimator: EffectTypeConfig<MaskRadiusAnimatorParams>;
   /** GradientTiltAnimator configuration */
@@ -94,6 +152,91 @@ export interface EffectsConfig {
   gradientPositionAnimator: EffectTypeConfig<GradientPositionAnimatorParams>;
 }
 
+/**
+ * Low-frequency oscillator shapes.
+ * - sine, triangle: smooth cycles
+ * - sampleAndHold: a new random value every cycle
+ */
+export type LfoShape = "sine" | "triangle" | "sampleAndHold";
+
+/**
+ * Oscillator modulator. Outputs -1 to 1.
+ * Set beats for a tempo-synced rate, or hz for a fixed one.
+ */
+export interface LfoModulatorConfig {
+  type: "lfo";
+  /** Waveform */
+  shape: LfoShape;
+  /** Cycle length in beats at the detected tempo (e.g., 4 for one cycle per bar) */
+  beats?: number;
+  /** Cycles per second, when not tempo-synced */
+  hz?: number;
+  /** Starting phase (0-1) */
+  phase?: number;
+}
+
+/**
+ * ADSR envelope modulator, triggered by onsets. Outputs 0 to 1.
+ */
+export interface EnvelopeModulatorConfig {
+  type: "envelope";
+  /** What starts the envelope: any onset, a beat, or an onset in a band */
+  trigger: "onset" | "beat" | FrequencyBand;
+  /** Time to rise to 1, in ms */
+  attack: number;
+  /** Time to fall to the sustain level, in ms */
+  decay: number;
+  /** Level held while the gate is open (0-1) */
+  sustain: number;
+  /** Time to fall to 0 once the gate closes, in ms */
+  release: number;
+  /** How long the gate stays open after a trigger, in ms */
+  hold: number;
+}
+
+/**
+ * Audio level modulator. Outputs 0 to 1.
+ */
+export interface AudioModulatorConfig {
+  type: "audio";
+  /** rms or the name of any configured frequency band */
+  source: AudioAnalysisSource;
+  /** Smoothing factor (0 = instant, higher = smoother, 0-0.99) */
+  smoothing: number;
+}
+
+/**
+ * Any modulator
+ */
+export type ModulatorConfig =
+  LfoModulatorConfig | EnvelopeModulatorConfig | AudioModulatorConfig;
+
+/**
+ * Connection from a modulator to an effect parameter. The parameter's value
+ * becomes its own value plus the sum of amount x modulator output over all
+ * routes to it.
+ */
+export interface ModulationRoute {
+  /** Effect type and numeric parameter (e.g., "maskRadiusAnimator.maxRadius") */
+  target: string;
+  /** Name of a modulator in modulation.modulators */
+  modulator: string;
+  /** Scale applied to the modulator output, in the parameter's units */
+  amount: number;
+}
+
+/**
+ * Modulation matrix configuration
+ */
+export interface ModulationConfig {
+  /** Tempo for synced LFOs until one is detected, in BPM */
+  fallbackBpm: number;
+  /** Named modulators */
+  modulators: Record<string, ModulatorConfig>;
+  /** Modulator to parameter connections */
+  routes: ModulationRoute[];
+}
+
 /**
  * Root effect system configuration
  */
@@ -104,4 +247,6 @@ export interface EffectSystemConfig {
   intensityMultipliers: Record<EffectIntensity, number>;
   /** Per-effect-type configurations */
   effects: EffectsConfig;
+  /** Modulators driving effect parameters */
+  modulation?: ModulationConfig;
 }
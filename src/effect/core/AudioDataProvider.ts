@@ -2,46 +2,95 @@
  * Bridge between the effect system and the existing audio infrastructure.
  *
  * Provides pre-computed audio analysis data for each frame, optimizing
- * for performance by computing frequency bands once per frame rather
- * than per-effect.
+ * for performance by computing frequency bands, onsets and beats once per
+ * frame rather than per-effect.
  */
 
 import { getAudioAnalyzer } from "@/app/audio/audio";
-import { AudioFrameData } from "./types";
+import { clamp } from "@/utils/math";
+import { AudioFrameData, BaseEffectParams, TrackCombination } from "./types";
+import {
+  BeatDetectorState,
+  createBeatDetectorState,
+  detectBeat,
+  getEmptyBeatAnalysis,
+} from "./beatDetection";
+import {
+  findEmptyBands,
+  FrequencyBandRanges,
+  getFrequencyBandRanges,
+  resolveFrequencyBands,
+  ResolvedFrequencyBands,
+} from "./frequencyBands";
 import { getEffectConfigSync } from "../config/loader";
 import type { AudioAnalysisConfig } from "../config/types";
 
+/**
+ * Something that can be analyzed: the global analyzer, a track or a
+ * combination of tracks. Each has its own buffers, so frame data handed out
+ * for one source is never overwritten by reading another.
+ */
+interface AnalysisSource {
+  /** Buffer for frequency data */
+  frequencyBuffer: Uint8Array<ArrayBuffer>;
+  /** Buffer for time domain (waveform) data */
+  timeDomainBuffer: Uint8Array<ArrayBuffer>;
+  /** Beat detection state */
+  beatDetector: BeatDetectorState;
+  /** Frame the data below was computed for */
+  frame: number;
+  /** Data for that frame, or null if never computed */
+  frameData: AudioFrameData | null;
+}
+
 /**
  * AudioDataProvider singleton.
  *
  * Efficiently provides audio analysis data by:
  * - Reusing typed arrays across frames
- * - Computing frequency bands once per frame
+ * - Computing frequency bands, onsets and beats once per frame per source
  * - Handling missing/unavailable audio gracefully
  */
 class AudioDataProviderImpl {
   private static instance: AudioDataProviderImpl | null = null;
 
-  /** Buffer for frequency data */
-  private frequencyBuffer: Uint8Array<ArrayBuffer>;
-  /** Buffer for time domain (waveform) data */
-  private timeDomainBuffer: Uint8Array<ArrayBuffer>;
+  /** Global analyzer source, created once the analyzer exists */
+  private globalSource: AnalysisSource | null = null;
   /** Map of track IDs to their analyzer nodes */
   private trackAnalyzers: Map<string, AnalyserNode> = new Map();
+  /** Analysis sources per track ID */
+  private trackSources: Map<string, AnalysisSource> = new Map();
+  /** Analysis sources per track combination key */
+  private combinationSources: Map<string, AnalysisSource> = new Map();
+  /** IDs of effectively muted tracks (muted, or another track is soloed) */
+  private mutedTracks: Set<string> = new Set();
+  /** Zeroed frequency data for frames without audio */
+  private emptyFrequencyBuffer: Uint8Array<ArrayBuffer>;
+  /** Silent waveform data for frames without audio */
+  private emptyTimeDomainBuffer: Uint8Array<ArrayBuffer>;
   /** Audio configuration from effect config system */
   private config: AudioAnalysisConfig;
+  /** Every configured band in Hz, including presets */
+  private bandRanges: FrequencyBandRanges;
+  /** Band bin ranges per analyzer resolution ("sampleRate:fftSize") */
+  private resolvedBands: Map<string, ResolvedFrequencyBands> = new Map();
+  /** Current frame, advanced by getFrameData */
+  private frame = 0;
 
   private constructor() {
     // Load audio analysis config
     this.config = getEffectConfigSync().audioAnalysis;
+    this.bandRanges = getFrequencyBandRanges(this.config);
 
-    // Initialize buffers based on config
-    const frequencyBinCount = this.config.fft.frequencyBinCount;
-    const fftSize = this.config.fft.fftSize;
+    // Size the empty buffers from config; live buffers follow each analyzer
+    const { frequencyBinCount, fftSize } = this.config.fft;
 
     // Create buffers with explicit ArrayBuffer (not SharedArrayBuffer)
-    this.frequencyBuffer = new Uint8Array(new ArrayBuffer(frequencyBinCount));
-    this.timeDomainBuffer = new Uint8Array(new ArrayBuffer(fftSize));
+    this.emptyFrequencyBuffer = new Uint8Array(
+      new ArrayBuffer(frequencyBinCount)
+    );
+    this.emptyTimeDomainBuffer = new Uint8Array(new ArrayBuffer(fftSize));
+    this.emptyTimeDomainBuffer.fill(128);
   }
 
   static getInstance(): AudioDataProviderImpl {
@@ -54,48 +103,149 @@ class AudioDataProviderImpl {
   /**
    * Get complete audio frame data for the current moment.
    * All frequency bands are pre-computed for efficiency.
+   *
+   * Starts a new frame: call once per animation frame, before any track or
+   * combination data is read for that frame.
    */
   getFrameData(): AudioFrameData {
+    this.frame++;
+
     const audioAnalyzer = getAudioAnalyzer();
     if (!audioAnalyzer) {
       return this.getEmptyFrameData();
     }
 
-    // Fill buffers with current audio data
-    audioAnalyzer.getByteFrequencyData(this.frequencyBuffer);
-    audioAnalyzer.getByteTimeDomainData(this.timeDomainBuffer);
+    this.globalSource = this.getSourceFor(
+      this.globalSource,
+      audioAnalyzer.frequencyBinCount,
+      audioAnalyzer.fftSize
+    );
+    return this.readAnalyzer(this.globalSource, audioAnalyzer);
+  }
 
-    // Compute metrics using configured frequency bands
-    const bands = this.config.frequencyBands;
-    const rms = this.computeRMS();
-    const bass = this.getBandAverage(bands.bass.start, bands.bass.end);
-    const midLow = this.getBandAverage(bands.midLow.start, bands.midLow.end);
-    const midHigh = this.getBandAverage(bands.midHigh.start, bands.midHigh.end);
-    const treble = this.getBandAverage(bands.treble.start, bands.treble.end);
+  /**
+   * Get a source whose buffers match an analyzer's size, reusing the given
+   * one when they already do.
+   */
+  private getSourceFor(
+    source: AnalysisSource | null | undefined,
+    frequencyBinCount: number,
+    fftSize: number
+  ): AnalysisSource {
+    if (
+      source &&
+      source.frequencyBuffer.length === frequencyBinCount &&
+      source.timeDomainBuffer.length === fftSize
+    ) {
+      return source;
+    }
 
     return {
-      frequencyData: this.frequencyBuffer,
-      timeDomainData: this.timeDomainBuffer,
+      frequencyBuffer: new Uint8Array(new ArrayBuffer(frequencyBinCount)),
+      timeDomainBuffer: new Uint8Array(new ArrayBuffer(fftSize)),
+      beatDetector: createBeatDetectorState(),
+      frame: -1,
+      frameData: null,
+    };
+  }
+
+  /**
+   * Read an analyzer into a source and analyze it, once per frame.
+   */
+  private readAnalyzer(
+    source: AnalysisSource,
+    analyzer: AnalyserNode
+  ): AudioFrameData {
+    if (source.frame === this.frame && source.frameData) {
+      return source.frameData;
+    }
+
+    analyzer.getByteFrequencyData(source.frequencyBuffer);
+    analyzer.getByteTimeDomainData(source.timeDomainBuffer);
+
+    return this.analyze(source, this.getBandBins(analyzer));
+  }
+
+  /**
+   * Get the bin ranges of the configured bands for an analyzer.
+   * Bands are converted from Hz using the analyzer's live sample rate and
+   * FFT size, once per resolution. Bands that cover no bins are reported.
+   */
+  private getBandBins(analyzer: AnalyserNode): ResolvedFrequencyBands {
+    const { sampleRate } = analyzer.context;
+    const { fftSize } = analyzer;
+    const key = `${sampleRate}:${fftSize}`;
+
+    let bins = this.resolvedBands.get(key);
+    if (!bins) {
+      bins = resolveFrequencyBands(this.bandRanges, sampleRate, fftSize);
+      this.resolvedBands.set(key, bins);
+
+      const emptyBands = findEmptyBands(bins);
+      if (emptyBands.length > 0) {
+        console.warn(
+          `[AudioDataProvider] Frequency bands cover no FFT bins at ${sampleRate} Hz ` +
+            `with an FFT size of ${fftSize} and will always read 0: ${emptyBands.join(", ")}. ` +
+            "Widen them or increase the FFT size."
+        );
+      }
+    }
+    return bins;
+  }
+
+  /**
+   * Compute frame data from a source's filled buffers, running its beat
+   * detection, and remember it for the current frame.
+   */
+  private analyze(
+    source: AnalysisSource,
+    bins: ResolvedFrequencyBands
+  ): AudioFrameData {
+    const timestamp = performance.now();
+    const { frequencyBuffer, timeDomainBuffer } = source;
+
+    source.beatDetector = detectBeat(
+      source.beatDetector,
+      frequencyBuffer,
+      timestamp,
+      bins,
+      this.config.beatDetection
+    );
+
+    // Compute metrics using configured frequency bands
+    const rms = this.computeRMS(timeDomainBuffer);
+    const bands: Record<string, number> = {};
+    for (const [name, { start, end }] of Object.entries(bins)) {
+      bands[name] = this.getBandAverage(frequencyBuffer, start, end);
+    }
+
+    source.frame = this.frame;
+    source.frameData = {
+      frequencyData: frequencyBuffer,
+      timeDomainData: timeDomainBuffer,
       rms,
-      bass,
-      midLow,
-      midHigh,
-      treble,
-      timestamp: performance.now(),
+      bass: bands.bass,
+      midLow: bands.midLow,
+      midHigh: bands.midHigh,
+      treble: bands.treble,
+      bands,
+      ...source.beatDetector.analysis,
+      timestamp,
     };
+    return source.frameData;
   }
 
   /**
    * Compute Root Mean Square from time domain data.
    * Returns a value from 0 to 1 representing overall volume.
    */
-  private computeRMS(): number {
+  private computeRMS(timeDomainData: Uint8Array): number {
     let sum = 0;
-    const length = this.timeDomainBuffer.length;
+    const length = timeDomainData.length;
 
     for (let i = 0; i < length; i++) {
       // Time domain data is 0-255, centered at 128
-      const normalized = (this.timeDomainBuffer[i] - 128) / 128;
+      const normalized = (timeDomainData[i] - 128) / 128;
       sum += normalized * normalized;
     }
 
@@ -106,11 +256,16 @@ class AudioDataProviderImpl {
    * Get average value for a frequency band range.
    * Returns a value from 0 to 255.
    *
+   * @param frequencyData - Frequency data to average
    * @param startBin - Starting frequency bin (inclusive)
    * @param endBin - Ending frequency bin (inclusive)
    */
-  private getBandAverage(startBin: number, endBin: number): number {
-    const actualEnd = Math.min(endBin, this.frequencyBuffer.length - 1);
+  private getBandAverage(
+    frequencyData: Uint8Array,
+    startBin: number,
+    endBin: number
+  ): number {
+    const actualEnd = Math.min(endBin, frequencyData.length - 1);
     const actualStart = Math.max(startBin, 0);
 
     if (actualStart > actualEnd) {
@@ -119,7 +274,7 @@ class AudioDataProviderImpl {
 
     let sum = 0;
     for (let i = actualStart; i <= actualEnd; i++) {
-      sum += this.frequencyBuffer[i];
+      sum += frequencyData[i];
     }
 
     return sum / (actualEnd - actualStart + 1);
@@ -130,13 +285,17 @@ class AudioDataProviderImpl {
    */
   private getEmptyFrameData(): AudioFrameData {
     return {
-      frequencyData: this.frequencyBuffer, // Already zeroed
-      timeDomainData: this.timeDomainBuffer,
+      frequencyData: this.emptyFrequencyBuffer,
+      timeDomainData: this.emptyTimeDomainBuffer,
       rms: 0,
       bass: 0,
       midLow: 0,
       midHigh: 0,
       treble: 0,
+      bands: Object.fromEntries(
+        Object.keys(this.bandRanges).map((name) => [name, 0])
+      ),
+      ...getEmptyBeatAnalysis(),
       timestamp: performance.now(),
     };
   }
@@ -161,10 +320,26 @@ class AudioDataProviderImpl {
   /**
    * Unregister a per-track analyzer node.
    *
+   * When an analyzer is given, the track is only removed if that analyzer is
+   * still the registered one. This keeps a set that is fading out from
+   * removing a newer set's analyzer that shares the same track ID.
+   *
    * @param trackId - Track identifier to remove
+   * @param analyzer - Optional analyzer that must match the registered one
    */
-  unregisterTrackAnalyzer(trackId: string): void {
+  unregisterTrackAnalyzer(trackId: string, analyzer?: AnalyserNode): void {
+    if (analyzer && this.trackAnalyzers.get(trackId) !== analyzer) return;
     this.trackAnalyzers.delete(trackId);
+    this.trackSources.delete(trackId);
+  }
+
+  /**
+   * Set which tracks are effectively muted, for effects that ignore them.
+   *
+   * @param trackIds - IDs of the effectively muted tracks
+   */
+  setMutedTracks(trackIds: Iterable<string>): void {
+    this.mutedTracks = new Set(trackIds);
   }
 
   /**
@@ -172,36 +347,184 @@ class AudioDataProviderImpl {
    * Returns empty data if track analyzer is not registered.
    *
    * @param trackId - Track identifier
+   * @param ignoreMuted - Return empty data while the track is effectively muted
    * @returns AudioFrameData for the specific track
    */
-  getTrackFrameData(trackId: string): AudioFrameData {
+  getTrackFrameData(trackId: string, ignoreMuted = false): AudioFrameData {
     const analyzer = this.trackAnalyzers.get(trackId);
-    if (!analyzer) {
+    if (!analyzer || (ignoreMuted && this.mutedTracks.has(trackId))) {
       return this.getEmptyFrameData();
     }
 
-    // Reuse global buffers (safe since single-threaded)
-    analyzer.getByteFrequencyData(this.frequencyBuffer);
-    analyzer.getByteTimeDomainData(this.timeDomainBuffer);
+    // Read once per frame, however many effects follow the track
+    const source = this.getSourceFor(
+      this.trackSources.get(trackId),
+      analyzer.frequencyBinCount,
+      analyzer.fftSize
+    );
+    this.trackSources.set(trackId, source);
 
-    // Compute metrics using configured frequency bands (same as global analysis)
-    const bands = this.config.frequencyBands;
-    const rms = this.computeRMS();
-    const bass = this.getBandAverage(bands.bass.start, bands.bass.end);
-    const midLow = this.getBandAverage(bands.midLow.start, bands.midLow.end);
-    const midHigh = this.getBandAverage(bands.midHigh.start, bands.midHigh.end);
-    const treble = this.getBandAverage(bands.treble.start, bands.treble.end);
+    return this.readAnalyzer(source, analyzer);
+  }
 
-    return {
-      frequencyData: this.frequencyBuffer,
-      timeDomainData: this.timeDomainBuffer,
-      rms,
-      bass,
-      midLow,
-      midHigh,
-      treble,
-      timestamp: performance.now(),
-    };
+  /**
+   * Get audio data for several tracks combined into one source.
+   * Returns empty data if none of the tracks are registered.
+   *
+   * @param combination - Tracks to combine and how
+   * @param ignoreMuted - Leave out effectively muted tracks
+   * @returns AudioFrameData for the combination
+   */
+  getCombinedFrameData(
+    combination: TrackCombination,
+    ignoreMuted = false
+  ): AudioFrameData {
+    const trackIds =
+      combination.tracks === "all"
+        ? [...this.trackAnalyzers.keys()]
+        : combination.tracks;
+    const included = trackIds.filter(
+      (trackId) =>
+        this.trackAnalyzers.has(trackId) &&
+        !(ignoreMuted && this.mutedTracks.has(trackId))
+    );
+    const firstAnalyzer = this.trackAnalyzers.get(included[0]);
+    if (!firstAnalyzer) {
+      return this.getEmptyFrameData();
+    }
+
+    const key = [
+      combination.mode,
+      ignoreMuted ? "unmuted" : "all",
+      combination.tracks === "all" ? "*" : combination.tracks.join("+"),
+    ].join(":");
+    const source = this.getSourceFor(
+      this.combinationSources.get(key),
+      firstAnalyzer.frequencyBinCount,
+      firstAnalyzer.fftSize
+    );
+    this.combinationSources.set(key, source);
+
+    if (source.frame === this.frame && source.frameData) {
+      return source.frameData;
+    }
+
+    // Combine the tracks' own (per-frame cached) data
+    const tracksData = included.map((trackId) =>
+      this.getTrackFrameData(trackId)
+    );
+    this.combineFrequencyData(
+      source.frequencyBuffer,
+      tracksData.map((data) => data.frequencyData),
+      combination,
+      firstAnalyzer
+    );
+    this.combineTimeDomainData(
+      source.timeDomainBuffer,
+      tracksData.map((data) => data.timeDomainData),
+      combination
+    );
+
+    return this.analyze(source, this.getBandBins(firstAnalyzer));
+  }
+
+  /**
+   * Combine frequency data bin by bin: summed or the loudest track's value.
+   *
+   * Bins are decibels scaled to 0-255 between the analyzer's minDecibels and
+   * maxDecibels, so sums are taken over linear magnitudes and scaled back.
+   * A bin at 0 is treated as silence rather than as minDecibels.
+   */
+  private combineFrequencyData(
+    target: Uint8Array,
+    inputs: Uint8Array[],
+    { mode }: TrackCombination,
+    {
+      minDecibels,
+      maxDecibels,
+    }: Pick<AnalyserNode, "minDecibels" | "maxDecibels">
+  ): void {
+    const range = maxDecibels - minDecibels;
+    for (let i = 0; i < target.length; i++) {
+      if (mode === "max") {
+        let value = 0;
+        for (const input of inputs) {
+          value = Math.max(value, input[i] ?? 0);
+        }
+        target[i] = value;
+        continue;
+      }
+
+      let magnitude = 0;
+      for (const input of inputs) {
+        const bin = input[i] ?? 0;
+        if (bin > 0) {
+          magnitude += 10 ** ((minDecibels + (bin / 255) * range) / 20);
+        }
+      }
+      if (magnitude === 0) {
+        target[i] = 0;
+        continue;
+      }
+      const decibels = 20 * Math.log10(magnitude);
+      target[i] = clamp(
+        Math.round(((decibels - minDecibels) / range) * 255),
+        0,
+        255
+      );
+    }
+  }
+
+  /**
+   * Combine waveforms sample by sample: summed around the centre (clipped)
+   * or the sample furthest from it.
+   */
+  private combineTimeDomainData(
+    target: Uint8Array,
+    inputs: Uint8Array[],
+    { mode }: TrackCombination
+  ): void {
+    for (let i = 0; i < target.length; i++) {
+      let offset = 0;
+      for (const input of inputs) {
+        const sample = (input[i] ?? 128) - 128;
+        if (mode === "sum") {
+          offset += sample;
+        } else if (Math.abs(sample) > Math.abs(offset)) {
+          offset = sample;
+        }
+      }
+      target[i] = Math.min(Math.max(128 + offset, 0), 255);
+    }
+  }
+
+  /**
+   * Get audio data for what an effect follows: its track, its track
+   * combination, or the global analyzer when it sets neither.
+   *
+   * @param params - Effect parameters
+   * @returns AudioFrameData for the effect
+   */
+  getEffectFrameData(
+    params: Pick<
+      BaseEffectParams,
+      "trackId" | "trackCombination" | "ignoreMutedTracks"
+    >
+  ): AudioFrameData {
+    const { trackId, trackCombination, ignoreMutedTracks = false } = params;
+    if (trackId) {
+      return this.getTrackFrameData(trackId, ignoreMutedTracks);
+    }
+    if (trackCombination) {
+      return this.getCombinedFrameData(trackCombination, ignoreMutedTracks);
+    }
+    if (
+      this.globalSource?.frame === this.frame &&
+      this.globalSource.frameData
+    ) {
+      return this.globalSource.frameData;
+    }
+    return this.getFrameData();
   }
 }
 
@@ -211,14 +534,33 @@ class AudioDataProviderImpl {
 export const AudioDataProvider = {
   getInstance: () => AudioDataProviderImpl.getInstance(),
   getFrameData: () => AudioDataProviderImpl.getInstance().getFrameData(),
-  getTrackFrameData: (trackId: string) =>
-    AudioDataProviderImpl.getInstance().getTrackFrameData(trackId),
+  getTrackFrameData: (trackId: string, ignoreMuted?: boolean) =>
+    AudioDataProviderImpl.getInstance().getTrackFrameData(trackId, ignoreMuted),
+  getCombinedFrameData: (
+    combination: TrackCombination,
+    ignoreMuted?: boolean
+  ) =>
+    AudioDataProviderImpl.getInstance().getCombinedFrameData(
+      combination,
+      ignoreMuted
+    ),
+  getEffectFrameData: (
+    params: Pick<
+      BaseEffectParams,
+      "trackId" | "trackCombination" | "ignoreMutedTracks"
+    >
+  ) => AudioDataProviderImpl.getInstance().getEffectFrameData(params),
   registerTrackAnalyzer: (trackId: string, analyzer: AnalyserNode) =>
     AudioDataProviderImpl.getInstance().registerTrackAnalyzer(
       trackId,
       analyzer
     ),
-  unregisterTrackAnalyzer: (trackId: string) =>
-    AudioDataProviderImpl.getInstance().unregisterTrackAnalyzer(trackId),
+  unregisterTrackAnalyzer: (trackId: string, analyzer?: AnalyserNode) =>
+    AudioDataProviderImpl.getInstance().unregisterTrackAnalyzer(
+      trackId,
+      analyzer
+    ),
+  setMutedTracks: (trackIds: Iterable<string>) =>
+    AudioDataProviderImpl.getInstance().setMutedTracks(trackIds),
   isAvailable: () => AudioDataProviderImpl.getInstance().isAvailable(),
 };
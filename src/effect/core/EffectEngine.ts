@@ -9,10 +9,13 @@
  * - Single RAF loop for all effects (efficient)
  * - Automatic start/stop based on registered effects
  * - Subscription system for change notifications
+ * - Modulation of effect parameters (LFOs, envelopes, audio levels)
  * - FPS monitoring for debugging
  */
 
 import { AudioDataProvider } from "./AudioDataProvider";
+import { ModulationMatrix } from "./ModulationMatrix";
+import { getEffectConfigSync } from "../config/loader";
 import {
   AudioFrameData,
   BaseEffectParams,
@@ -32,6 +35,8 @@ type EffectEventListener = (effectId: string) => void;
  */
 interface EffectEntry {
   instance: EffectInstance<BaseEffectParams, EffectOutput>;
+  /** Parameters before modulation */
+  baseParams: BaseEffectParams;
   currentOutput: EffectOutput;
   subscribers: Set<() => void>;
 }
@@ -64,6 +69,9 @@ class EffectEngineImpl {
   /** Whether the loop is currently running */
   private isRunning: boolean = false;
 
+  /** Modulators and routes from config, created on the first frame */
+  private modulation: ModulationMatrix | null = null;
+
   private constructor() {}
 
   static getInstance(): EffectEngineImpl {
@@ -96,6 +104,7 @@ class EffectEngineImpl {
     // Register with initial output
     this.effects.set(instance.id, {
       instance: instance as EffectInstance<BaseEffectParams, EffectOutput>,
+      baseParams: instance.getParams(),
       currentOutput: instance.getCurrentOutput(),
       subscribers: new Set(),
     });
@@ -169,6 +178,7 @@ class EffectEngineImpl {
 
   /**
    * Updates parameters for an effect.
+   * Modulated parameters keep following their modulators around the new value.
    *
    * @param id - Effect ID
    * @param params - Partial parameters to merge
@@ -179,6 +189,7 @@ class EffectEngineImpl {
   ): void {
     const entry = this.effects.get(id);
     if (entry) {
+      entry.baseParams = { ...entry.baseParams, ...params };
       entry.instance.setParams(params);
     }
   }
@@ -293,8 +304,23 @@ class EffectEngineImpl {
     // Get global audio data once per frame
     const globalAudioData: AudioFrameData = AudioDataProvider.getFrameData();
 
+    // Advance modulators once per frame
+    if (!this.modulation) {
+      this.modulation = new ModulationMatrix(getEffectConfigSync());
+    }
+    this.modulation.update(globalAudioData, deltaTime);
+
     // Update all effects
     for (const [, entry] of this.effects) {
+      // Apply modulation on top of the unmodulated parameters
+      const modulated = this.modulation.apply(
+        entry.instance.factoryType,
+        entry.baseParams
+      );
+      if (modulated) {
+        entry.instance.setParams(modulated);
+      }
+
       const params = entry.instance.getParams();
 
       // Skip disabled effects
@@ -302,10 +328,12 @@ class EffectEngineImpl {
         continue;
       }
 
-      // Get track-specific data if trackId is specified, otherwise use global
-      const audioData = params.trackId
-        ? AudioDataProvider.getTrackFrameData(params.trackId)
-        : globalAudioData;
+      // Get track or track combination data if specified, otherwise use global.
+      // Each source is read once per frame however many effects follow it.
+      const audioData =
+        params.trackId || params.trackCombination
+          ? AudioDataProvider.getEffectFrameData(params)
+          : globalAudioData;
 
       // Update and store new output
       entry.currentOutput = entry.instance.update(audioData, deltaTime);
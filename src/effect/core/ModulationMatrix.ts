@@ -0,0 +1,291 @@
+/**
+ * Modulation matrix - drives effect parameters from modulators.
+ *
+ * Modulators (LFOs, onset-triggered envelopes and audio levels) are updated
+ * once per frame from the global audio data. Any numeric parameter of any
+ * effect type can then be offset by a weighted sum of them, as configured
+ * in the "modulation" section of the effect config.
+ */
+
+import { AudioFrameData, BaseEffectParams } from "./types";
+import { getNormalizedAudioValue } from "./audioValue";
+import { smoothDamp } from "@/utils/math";
+import type {
+  AudioModulatorConfig,
+  EffectSystemConfig,
+  EnvelopeModulatorConfig,
+  LfoModulatorConfig,
+  ModulationRoute,
+  ModulatorConfig,
+} from "../config/types";
+
+/**
+ * A modulator: produces one value per frame.
+ */
+interface Modulator {
+  /**
+   * @param audioData - Global audio data for this frame
+   * @param deltaTime - Time since last frame in milliseconds
+   * @param bpm - Tempo to sync to
+   * @returns Output for this frame
+   */
+  update(audioData: AudioFrameData, deltaTime: number, bpm: number): number;
+}
+
+/**
+ * Oscillator with a fixed or tempo-synced rate. Outputs -1 to 1.
+ */
+class LfoModulator implements Modulator {
+  private phase: number;
+  private heldValue: number = Math.random() * 2 - 1;
+
+  constructor(private config: LfoModulatorConfig) {
+    this.phase = config.phase ?? 0;
+  }
+
+  update(_audioData: AudioFrameData, deltaTime: number, bpm: number): number {
+    const { shape, beats, hz } = this.config;
+    const frequency = beats ? bpm / 60 / beats : (hz ?? 0);
+
+    this.phase += (deltaTime / 1000) * frequency;
+    if (this.phase >= 1) {
+      this.phase -= Math.floor(this.phase);
+      this.heldValue = Math.random() * 2 - 1;
+    }
+
+    switch (shape) {
+      case "sine":
+        return Math.sin(2 * Math.PI * this.phase);
+      case "triangle":
+        // Same zero crossings and peaks as the sine
+        if (this.phase < 0.25) return 4 * this.phase;
+        if (this.phase < 0.75) return 2 - 4 * this.phase;
+        return 4 * this.phase - 4;
+      case "sampleAndHold":
+        return this.heldValue;
+      default:
+        return 0;
+    }
+  }
+}
+
+/**
+ * ADSR envelope started by onsets. Outputs 0 to 1.
+ */
+class EnvelopeModulator implements Modulator {
+  private stage: "idle" | "attack" | "decay" | "sustain" | "release" = "idle";
+  private level: number = 0;
+  private releaseLevel: number = 0;
+  private gateRemaining: number = 0;
+
+  constructor(private config: EnvelopeModulatorConfig) {}
+
+  update(audioData: AudioFrameData, deltaTime: number): number {
+    const { trigger, attack, decay, sustain, release, hold } = this.config;
+
+    const isTriggered =
+      trigger === "onset"
+        ? audioData.isOnset
+        : trigger === "beat"
+          ? audioData.isBeat
+          : audioData.onsets[trigger];
+    if (isTriggered) {
+      // Retrigger from the current level, without a jump
+      this.stage = "attack";
+      this.gateRemaining = hold;
+    }
+
+    this.gateRemaining -= deltaTime;
+    if (this.gateRemaining <= 0 && this.stage !== "idle") {
+      if (this.stage !== "release") {
+        this.stage = "release";
+        this.releaseLevel = this.level;
+      }
+    }
+
+    // Fraction of a stage covered this frame (instant for zero-length stages)
+    const progress = (time: number) => (time > 0 ? deltaTime / time : 1);
+
+    switch (this.stage) {
+      case "attack":
+        this.level += progress(attack);
+        if (this.level >= 1) {
+          this.level = 1;
+          this.stage = "decay";
+        }
+        break;
+      case "decay":
+        this.level -= progress(decay) * (1 - sustain);
+        if (this.level <= sustain) {
+          this.level = sustain;
+          this.stage = "sustain";
+        }
+        break;
+      case "release":
+        this.level -= progress(release) * this.releaseLevel;
+        if (this.level <= 0) {
+          this.level = 0;
+          this.stage = "idle";
+        }
+        break;
+    }
+
+    return this.level;
+  }
+}
+
+/**
+ * Smoothed audio level. Outputs 0 to 1.
+ */
+class AudioModulator implements Modulator {
+  private smoothedValue: number = 0;
+
+  constructor(
+    private config: AudioModulatorConfig,
+    private normalization: { rmsMultiplier: number; frequencyDivisor: number }
+  ) {}
+
+  update(audioData: AudioFrameData, deltaTime: number): number {
+    const { source, smoothing } = this.config;
+    const rawValue =
+      getNormalizedAudioValue(audioData, source, this.normalization) ?? 0;
+
+    this.smoothedValue = smoothDamp(
+      this.smoothedValue,
+      rawValue,
+      smoothing,
+      deltaTime
+    );
+    return this.smoothedValue;
+  }
+}
+
+/**
+ * Creates a modulator from its config.
+ */
+function createModulator(
+  config: ModulatorConfig,
+  normalization: { rmsMultiplier: number; frequencyDivisor: number }
+): Modulator | null {
+  switch (config.type) {
+    case "lfo":
+      return new LfoModulator(config);
+    case "envelope":
+      return new EnvelopeModulator(config);
+    case "audio":
+      return new AudioModulator(config, normalization);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Modulators and their routes to effect parameters.
+ */
+export class ModulationMatrix {
+  private modulators: Map<string, Modulator> = new Map();
+  /** Output of each modulator for the current frame */
+  private values: Map<string, number> = new Map();
+  /** Routes by effect type, then by parameter */
+  private routes: Map<string, Map<string, ModulationRoute[]>> = new Map();
+  /** Tempo for synced LFOs until one is detected */
+  private fallbackBpm: number;
+  /** Targets already reported as not numeric */
+  private invalidTargets: Set<string> = new Set();
+
+  constructor(config: EffectSystemConfig) {
+    const modulation = config.modulation;
+    this.fallbackBpm = modulation?.fallbackBpm ?? 120;
+    if (!modulation) return;
+
+    for (const [name, modulatorConfig] of Object.entries(
+      modulation.modulators
+    )) {
+      const modulator = createModulator(
+        modulatorConfig,
+        config.audioAnalysis.normalization
+      );
+      if (modulator) {
+        this.modulators.set(name, modulator);
+      } else {
+        console.warn(
+          `[ModulationMatrix] Modulator "${name}" has an unknown type and is ignored.`
+        );
+      }
+    }
+
+    for (const route of modulation.routes) {
+      const [effectType, param] = route.target.split(".");
+      if (!effectType || !param) {
+        console.warn(
+          `[ModulationMatrix] Route target "${route.target}" must be "effectType.param" and is ignored.`
+        );
+        continue;
+      }
+      if (!this.modulators.has(route.modulator)) {
+        console.warn(
+          `[ModulationMatrix] Route to "${route.target}" uses unknown modulator "${route.modulator}" and is ignored.`
+        );
+        continue;
+      }
+
+      let effectRoutes = this.routes.get(effectType);
+      if (!effectRoutes) {
+        effectRoutes = new Map();
+        this.routes.set(effectType, effectRoutes);
+      }
+      effectRoutes.set(param, [...(effectRoutes.get(param) ?? []), route]);
+    }
+  }
+
+  /**
+   * Updates every modulator. Call once per frame.
+   *
+   * @param audioData - Global audio data for this frame
+   * @param deltaTime - Time since last frame in milliseconds
+   */
+  update(audioData: AudioFrameData, deltaTime: number): void {
+    const bpm = audioData.bpm ?? this.fallbackBpm;
+    for (const [name, modulator] of this.modulators) {
+      this.values.set(name, modulator.update(audioData, deltaTime, bpm));
+    }
+  }
+
+  /**
+   * Computes the modulated values of an effect's routed parameters.
+   *
+   * @param effectType - Factory type of the effect
+   * @param baseParams - Unmodulated parameters
+   * @returns Modulated parameters, or null if none are routed
+   */
+  apply<TParams extends BaseEffectParams>(
+    effectType: string,
+    baseParams: TParams
+  ): Partial<TParams> | null {
+    const effectRoutes = this.routes.get(effectType);
+    if (!effectRoutes) return null;
+
+    const modulated: Record<string, number> = {};
+    for (const [param, routes] of effectRoutes) {
+      const baseValue = (baseParams as Record<string, unknown>)[param];
+      if (typeof baseValue !== "number") {
+        const target = `${effectType}.${param}`;
+        if (!this.invalidTargets.has(target)) {
+          this.invalidTargets.add(target);
+          console.warn(
+            `[ModulationMatrix] "${target}" is not a numeric parameter and is not modulated.`
+          );
+        }
+        continue;
+      }
+
+      modulated[param] = routes.reduce(
+        (value, route) =>
+          value + route.amount * (this.values.get(route.modulator) ?? 0),
+        baseValue
+      );
+    }
+
+    return modulated as Partial<TParams>;
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Normalization of audio analysis sources to a 0-1 level.
+ */
+
+import { clamp } from "@/utils/math";
+import type { AudioAnalysisConfig } from "../config/types";
+import { AudioAnalysisSource, AudioFrameData } from "./types";
+
+/**
+ * Reads an audio analysis source from frame data as a 0-1 level.
+ *
+ * @param audioData - Current audio analysis data
+ * @param source - rms or the name of any configured frequency band
+ * @param normalization - Normalization constants from the audio config
+ * @returns Level from 0 to 1, or null if no such source exists
+ */
+export function getNormalizedAudioValue(
+  audioData: AudioFrameData,
+  source: AudioAnalysisSource,
+  normalization: AudioAnalysisConfig["normalization"]
+): number | null {
+  if (source === "rms") {
+    return clamp(audioData.rms * normalization.rmsMultiplier, 0, 1);
+  }
+
+  const band = audioData.bands[source];
+  return band === undefined ? null : band / normalization.frequencyDivisor;
+}
+
+/** Sources an effect has already warned about, so each is reported once */
+const warnedSources = new Set<AudioAnalysisSource>();
+
+/**
+ * Reads an audio analysis source as a 0-1 level for an effect. A source that
+ * is not rms or a configured band reads as silence, with a warning the first
+ * time it is seen.
+ *
+ * @param effectType - Factory type of the effect reading the source
+ * @param audioData - Current audio analysis data
+ * @param source - rms or the name of any configured frequency band
+ * @param normalization - Normalization constants from the audio config
+ * @returns Level from 0 to 1
+ */
+export function getEffectAudioValue(
+  effectType: string,
+  audioData: AudioFrameData,
+  source: AudioAnalysisSource,
+  normalization: AudioAnalysisConfig["normalization"]
+): number {
+  const value = getNormalizedAudioValue(audioData, source, normalization);
+  if (value !== null) {
+    return value;
+  }
+
+  if (!warnedSources.has(source)) {
+    warnedSources.add(source);
+    console.warn(
+      `${effectType} has no way to analyze for given method of: ${source}`
+    );
+  }
+  return 0;
+}
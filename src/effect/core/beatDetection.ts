@@ -0,0 +1,374 @@
+/**
+ * Onset and beat detection on frequency spectra.
+ *
+ * Pure functions: each frame's analysis depends only on the previous
+ * detector state, the spectrum and its timestamp, so the detector can be run
+ * on recorded spectra as well as on a live analyzer.
+ *
+ * - Onsets are found with spectral flux (how much the spectrum rose since the
+ *   previous frame) above an adaptive threshold, overall and per band.
+ * - Tempo is estimated from the intervals between recent broadband onsets.
+ * - Beats are predicted from the tempo and pulled towards onsets that land
+ *   close to a predicted beat.
+ */
+
+import { clamp } from "@/utils/math";
+import type { BeatDetectionConfig } from "../config/types";
+import type { FrequencyBand } from "./types";
+
+/** Bands an onset flag is reported for */
+const FREQUENCY_BANDS: FrequencyBand[] = [
+  "bass",
+  "midLow",
+  "midHigh",
+  "treble",
+];
+
+/** Onsets needed before a tempo is estimated */
+const MIN_TEMPO_ONSETS = 4;
+
+/** How far from a predicted beat (fraction of a beat) an onset may land to adjust it */
+const BEAT_ALIGNMENT_TOLERANCE = 0.2;
+
+/** How much of an onset's offset from the predicted beat is corrected */
+const BEAT_PHASE_CORRECTION = 0.2;
+
+/** Relative tempo change treated as drift rather than a new tempo */
+const TEMPO_DRIFT_TOLERANCE = 0.05;
+
+/** How quickly the tempo follows drift (0-1 per onset) */
+const TEMPO_SMOOTHING = 0.25;
+
+/**
+ * Spectral flux at a point in time.
+ */
+interface FluxSample {
+  time: number;
+  flux: number;
+}
+
+/**
+ * Onset detection state for one flux series (broadband or a band).
+ */
+interface OnsetTrackerState {
+  /** Recent flux, for the adaptive threshold */
+  history: FluxSample[];
+  /** Time of the last onset, or null if none yet */
+  lastOnsetTime: number | null;
+}
+
+/**
+ * Analysis of a single frame.
+ */
+export interface BeatAnalysis {
+  /** Broadband spectral flux (0-1) */
+  flux: number;
+  /** Whether a broadband onset started this frame */
+  isOnset: boolean;
+  /** Whether an onset started in each band this frame */
+  onsets: Record<FrequencyBand, boolean>;
+  /** Whether a beat falls on this frame */
+  isBeat: boolean;
+  /** Position within the current beat (0 on the beat, rising towards 1) */
+  beatPhase: number;
+  /** Estimated tempo in beats per minute, or null if unknown */
+  bpm: number | null;
+}
+
+/**
+ * Detector state carried from frame to frame.
+ * Treat as immutable; detectBeat returns a new state.
+ */
+export interface BeatDetectorState {
+  /** Spectrum of the previous frame, or null before the first frame */
+  previousSpectrum: Uint8Array | null;
+  /** Broadband onset detection */
+  broadband: OnsetTrackerState;
+  /** Per-band onset detection */
+  bands: Record<FrequencyBand, OnsetTrackerState>;
+  /** Times of recent broadband onsets, for the tempo estimate */
+  onsetTimes: number[];
+  /** Estimated tempo in beats per minute, or null if unknown */
+  bpm: number | null;
+  /** Time of the most recent beat, or null before the first one */
+  lastBeatTime: number | null;
+  /** Analysis of the most recent frame */
+  analysis: BeatAnalysis;
+}
+
+/**
+ * Analysis reported before any audio has been seen.
+ */
+export function getEmptyBeatAnalysis(): BeatAnalysis {
+  return {
+    flux: 0,
+    isOnset: false,
+    onsets: { bass: false, midLow: false, midHigh: false, treble: false },
+    isBeat: false,
+    beatPhase: 0,
+    bpm: null,
+  };
+}
+
+/**
+ * Creates the state of a detector that has not seen any audio yet.
+ */
+export function createBeatDetectorState(): BeatDetectorState {
+  const emptyTracker = (): OnsetTrackerState => ({
+    history: [],
+    lastOnsetTime: null,
+  });
+
+  return {
+    previousSpectrum: null,
+    broadband: emptyTracker(),
+    bands: {
+      bass: emptyTracker(),
+      midLow: emptyTracker(),
+      midHigh: emptyTracker(),
+      treble: emptyTracker(),
+    },
+    onsetTimes: [],
+    bpm: null,
+    lastBeatTime: null,
+    analysis: getEmptyBeatAnalysis(),
+  };
+}
+
+/**
+ * Computes half-wave rectified spectral flux over a bin range: the average
+ * rise in magnitude since the previous frame, ignoring bins that fell.
+ *
+ * @param spectrum - Current frequency data (0-255 per bin)
+ * @param previous - Previous frequency data, or null on the first frame
+ * @param startBin - First bin (inclusive)
+ * @param endBin - Last bin (inclusive)
+ * @returns Flux from 0 to 1
+ */
+export function computeSpectralFlux(
+  spectrum: Uint8Array,
+  previous: Uint8Array | null,
+  startBin: number,
+  endBin: number
+): number {
+  if (!previous || previous.length !== spectrum.length) {
+    return 0;
+  }
+
+  const start = Math.max(startBin, 0);
+  const end = Math.min(endBin, spectrum.length - 1);
+  if (start > end) {
+    return 0;
+  }
+
+  let sum = 0;
+  for (let i = start; i <= end; i++) {
+    const rise = spectrum[i] - previous[i];
+    if (rise > 0) {
+      sum += rise;
+    }
+  }
+
+  return sum / (255 * (end - start + 1));
+}
+
+/**
+ * Checks a flux value against the mean plus a number of standard deviations
+ * of the recent flux, and records it in the history.
+ */
+function trackOnset(
+  state: OnsetTrackerState,
+  flux: number,
+  timestamp: number,
+  config: BeatDetectionConfig
+): { state: OnsetTrackerState; isOnset: boolean } {
+  const history = state.history.filter(
+    (sample) => timestamp - sample.time <= config.fluxWindowMs
+  );
+
+  let mean = 0;
+  let deviation = 0;
+  if (history.length > 0) {
+    mean =
+      history.reduce((sum, sample) => sum + sample.flux, 0) / history.length;
+    const variance =
+      history.reduce((sum, sample) => sum + (sample.flux - mean) ** 2, 0) /
+      history.length;
+    deviation = Math.sqrt(variance);
+  }
+
+  const isOnset =
+    flux > config.minFlux &&
+    flux > mean + config.onsetSensitivity * deviation &&
+    (state.lastOnsetTime === null ||
+      timestamp - state.lastOnsetTime >= config.minOnsetIntervalMs);
+
+  return {
+    state: {
+      history: [...history, { time: timestamp, flux }],
+      lastOnsetTime: isOnset ? timestamp : state.lastOnsetTime,
+    },
+    isOnset,
+  };
+}
+
+/**
+ * Estimates the tempo from onset times.
+ *
+ * Every interval between two onsets (not only neighbouring ones) votes for
+ * the tempo it implies, folded by octaves into the configured BPM range. The
+ * best supported tempo is refined with the average of the votes close to it.
+ *
+ * @param onsetTimes - Onset times in ms, oldest first
+ * @param config - Detection settings (tempo range)
+ * @returns Tempo in beats per minute, or null if there are too few onsets
+ */
+export function estimateTempo(
+  onsetTimes: number[],
+  config: BeatDetectionConfig
+): number | null {
+  if (onsetTimes.length < MIN_TEMPO_ONSETS) {
+    return null;
+  }
+
+  const { minBpm, maxBpm } = config;
+  const votes: number[] = [];
+  for (let i = 0; i < onsetTimes.length; i++) {
+    for (let j = i + 1; j < onsetTimes.length; j++) {
+      const interval = onsetTimes[j] - onsetTimes[i];
+      if (interval <= 0) continue;
+
+      let bpm = 60000 / interval;
+      while (bpm < minBpm) bpm *= 2;
+      while (bpm >= maxBpm) bpm /= 2;
+      if (bpm >= minBpm) votes.push(bpm);
+    }
+  }
+  if (votes.length === 0) {
+    return null;
+  }
+
+  // Score whole-BPM candidates, with each vote spread over +/- 2 BPM
+  let bestBpm = minBpm;
+  let bestScore = 0;
+  for (let candidate = Math.ceil(minBpm); candidate < maxBpm; candidate++) {
+    let score = 0;
+    for (const vote of votes) {
+      score += Math.max(0, 1 - Math.abs(vote - candidate) / 2);
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestBpm = candidate;
+    }
+  }
+  if (bestScore === 0) {
+    return null;
+  }
+
+  const nearby = votes.filter((vote) => Math.abs(vote - bestBpm) < 2);
+  return nearby.reduce((sum, vote) => sum + vote, 0) / nearby.length;
+}
+
+/**
+ * Analyzes one frame.
+ *
+ * @param state - Detector state after the previous frame
+ * @param spectrum - Frequency data for this frame (0-255 per bin)
+ * @param timestamp - Frame time in ms
+ * @param bands - Bin ranges of the frequency bands
+ * @param config - Detection settings
+ * @returns Detector state after this frame; its analysis describes the frame
+ */
+export function detectBeat(
+  state: BeatDetectorState,
+  spectrum: Uint8Array,
+  timestamp: number,
+  bands: Record<FrequencyBand, { start: number; end: number }>,
+  config: BeatDetectionConfig
+): BeatDetectorState {
+  const previous = state.previousSpectrum;
+
+  // Broadband onsets
+  const flux = computeSpectralFlux(spectrum, previous, 0, spectrum.length - 1);
+  const broadband = trackOnset(state.broadband, flux, timestamp, config);
+  const isOnset = broadband.isOnset;
+
+  // Per-band onsets
+  const bandStates = {} as Record<FrequencyBand, OnsetTrackerState>;
+  const onsets = {} as Record<FrequencyBand, boolean>;
+  for (const band of FREQUENCY_BANDS) {
+    const { start, end } = bands[band];
+    const bandFlux = computeSpectralFlux(spectrum, previous, start, end);
+    const result = trackOnset(state.bands[band], bandFlux, timestamp, config);
+    bandStates[band] = result.state;
+    onsets[band] = result.isOnset;
+  }
+
+  // Tempo, re-estimated when a new onset arrives
+  const onsetTimes = state.onsetTimes.filter(
+    (time) => timestamp - time <= config.tempoWindowMs
+  );
+  let bpm = onsetTimes.length < MIN_TEMPO_ONSETS ? null : state.bpm;
+  if (isOnset) {
+    onsetTimes.push(timestamp);
+    const estimate = estimateTempo(onsetTimes, config);
+    if (estimate !== null && bpm !== null) {
+      // Follow small drift smoothly, switch at once on a real change
+      const change = Math.abs(estimate - bpm) / bpm;
+      bpm =
+        change < TEMPO_DRIFT_TOLERANCE
+          ? bpm + (estimate - bpm) * TEMPO_SMOOTHING
+          : estimate;
+    } else {
+      bpm = estimate;
+    }
+  }
+
+  // Beats
+  let lastBeatTime = state.lastBeatTime;
+  let isBeat = false;
+  let beatPhase = 0;
+  if (bpm === null) {
+    // Without a tempo, every broadband onset counts as a beat
+    isBeat = isOnset;
+    lastBeatTime = isOnset ? timestamp : lastBeatTime;
+  } else if (lastBeatTime === null) {
+    if (isOnset) {
+      isBeat = true;
+      lastBeatTime = timestamp;
+    }
+  } else {
+    const period = 60000 / bpm;
+    const elapsed = timestamp - lastBeatTime;
+
+    if (isOnset) {
+      const tolerance = period * BEAT_ALIGNMENT_TOLERANCE;
+      if (elapsed < tolerance) {
+        // Onset just after the last beat: the beat was late
+        lastBeatTime += elapsed * BEAT_PHASE_CORRECTION;
+      } else if (period - elapsed < tolerance) {
+        // Onset just before the next beat: take the beat now
+        const early = period - elapsed;
+        isBeat = true;
+        lastBeatTime = timestamp + early * (1 - BEAT_PHASE_CORRECTION);
+      }
+    }
+
+    const sinceBeat = timestamp - lastBeatTime;
+    if (sinceBeat >= period) {
+      isBeat = true;
+      lastBeatTime += Math.floor(sinceBeat / period) * period;
+    }
+    beatPhase = clamp((timestamp - lastBeatTime) / period, 0, 0.999);
+  }
+
+  return {
+    previousSpectrum: spectrum.slice(),
+    broadband: broadband.state,
+    bands: bandStates,
+    onsetTimes,
+    bpm,
+    lastBeatTime,
+    analysis: { flux, isOnset, onsets, isBeat, beatPhase, bpm },
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Frequency bands in Hz and their mapping to FFT bins.
+ *
+ * Bands are configured in Hz so they keep their meaning when the FFT size or
+ * the sample rate changes. They are converted to bin ranges against the live
+ * analyzer, and bands too narrow for its resolution are reported.
+ */
+
+import type {
+  AudioAnalysisConfig,
+  FrequencyBandPreset,
+  FrequencyBandRange,
+} from "../config/types";
+import type { FrequencyBand } from "./types";
+
+/**
+ * Inclusive FFT bin range of a band. Empty when end < start.
+ */
+export interface FrequencyBandBins {
+  start: number;
+  end: number;
+}
+
+/**
+ * Edges in Hz of every configured band, by name.
+ */
+export type FrequencyBandRanges = Record<FrequencyBand, FrequencyBandRange> &
+  Record<string, FrequencyBandRange>;
+
+/**
+ * Bin ranges of every configured band, by name.
+ */
+export type ResolvedFrequencyBands = Record<FrequencyBand, FrequencyBandBins> &
+  Record<string, FrequencyBandBins>;
+
+/** Critical band edges of the Bark scale in Hz (Zwicker) */
+const BARK_EDGES = [
+  20, 100, 200, 300, 400, 510, 630, 770, 920, 1080, 1270, 1480, 1720, 2000,
+  2320, 2700, 3150, 3700, 4400, 5300, 6400, 7700, 9500, 12000, 15500,
+];
+
+/** Nominal 1/3-octave centre frequencies in Hz (IEC 61260) */
+const THIRD_OCTAVE_CENTRES = [
+  25, 31.5, 40, 50, 63, 80, 100, 125, 160, 200, 250, 315, 400, 500, 630, 800,
+  1000, 1250, 1600, 2000, 2500, 3150, 4000, 5000, 6300, 8000, 10000, 12500,
+  16000, 20000,
+];
+
+/**
+ * 1/3-octave bands named by nominal centre (e.g., "thirdOctave:1000").
+ * Edges use the exact base-10 centres, a sixth of an octave either side.
+ */
+function createThirdOctaveBands(): Record<string, FrequencyBandRange> {
+  const bands: Record<string, FrequencyBandRange> = {};
+  THIRD_OCTAVE_CENTRES.forEach((nominal, index) => {
+    // 25 Hz is band 14 of the base-10 series (1000 Hz is band 30)
+    const centre = 1000 * Math.pow(10, (index + 14 - 30) / 10);
+    bands[`thirdOctave:${nominal}`] = {
+      minHz: centre / Math.pow(2, 1 / 6),
+      maxHz: centre * Math.pow(2, 1 / 6),
+    };
+  });
+  return bands;
+}
+
+/**
+ * Bark critical bands named by number (e.g., "bark:1" to "bark:24").
+ */
+function createBarkBands(): Record<string, FrequencyBandRange> {
+  const bands: Record<string, FrequencyBandRange> = {};
+  for (let i = 0; i < BARK_EDGES.length - 1; i++) {
+    bands[`bark:${i + 1}`] = { minHz: BARK_EDGES[i], maxHz: BARK_EDGES[i + 1] };
+  }
+  return bands;
+}
+
+/**
+ * Log-spaced band sets that can be enabled with audioAnalysis.bandPresets.
+ */
+export const FREQUENCY_BAND_PRESETS: Record<
+  FrequencyBandPreset,
+  Record<string, FrequencyBandRange>
+> = {
+  thirdOctave: createThirdOctaveBands(),
+  bark: createBarkBands(),
+};
+
+/**
+ * Gets every band in the config: those of the enabled presets, then the
+ * named bands (which win over a preset band of the same name).
+ */
+export function getFrequencyBandRanges(
+  config: AudioAnalysisConfig
+): FrequencyBandRanges {
+  const presets = (config.bandPresets ?? []).map(
+    (preset) => FREQUENCY_BAND_PRESETS[preset] ?? {}
+  );
+  return Object.assign({}, ...presets, config.frequencyBands);
+}
+
+/**
+ * Converts a band in Hz to the bins whose centre frequency lies within it.
+ *
+ * @param range - Band edges in Hz (min inclusive, max exclusive)
+ * @param sampleRate - Sample rate of the analyzer's context
+ * @param fftSize - FFT size of the analyzer
+ * @returns Inclusive bin range, empty if no bin centre falls in the band
+ */
+export function getBandBins(
+  range: FrequencyBandRange,
+  sampleRate: number,
+  fftSize: number
+): FrequencyBandBins {
+  const binWidth = sampleRate / fftSize;
+  const lastBin = fftSize / 2 - 1;
+  return {
+    start: Math.max(Math.ceil(range.minHz / binWidth), 0),
+    end: Math.min(Math.ceil(range.maxHz / binWidth) - 1, lastBin),
+  };
+}
+
+/**
+ * Converts every band to bins for an analyzer.
+ *
+ * @param ranges - Bands in Hz, by name
+ * @param sampleRate - Sample rate of the analyzer's context
+ * @param fftSize - FFT size of the analyzer
+ * @returns Bin ranges, by name
+ */
+export function resolveFrequencyBands(
+  ranges: FrequencyBandRanges,
+  sampleRate: number,
+  fftSize: number
+): ResolvedFrequencyBands {
+  const resolved: Record<string, FrequencyBandBins> = {};
+  for (const [name, range] of Object.entries(ranges)) {
+    resolved[name] = getBandBins(range, sampleRate, fftSize);
+  }
+  return resolved as ResolvedFrequencyBands;
+}
+
+/**
+ * Gets the names of bands that cover no bins, which always read as silent.
+ */
+export function findEmptyBands(bands: ResolvedFrequencyBands): string[] {
+  return Object.entries(bands)
+    .filter(([, bins]) => bins.end < bins.start)
+    .map(([name]) => name);
+}
@@ -40,14 +40,28 @@ export interface AudioFrameData {
   timeDomainData: Uint8Array;
   /** Root Mean Square - overall volume level (0-1) */
   rms: number;
-  /** Bass frequencies average - bins 0-10 (0-255) */
+  /** Bass band average (0-255) */
   bass: number;
-  /** Low-mid frequencies average - bins 11-40 (0-255) */
+  /** Low-mid band average (0-255) */
   midLow: number;
-  /** High-mid frequencies average - bins 41-80 (0-255) */
+  /** High-mid band average (0-255) */
   midHigh: number;
-  /** Treble frequencies average - bins 81-200 (0-255) */
+  /** Treble band average (0-255) */
   treble: number;
+  /** Average of every configured band, including presets, by name (0-255) */
+  bands: Record<string, number>;
+  /** Spectral flux - how much the spectrum rose since the last frame (0-1) */
+  flux: number;
+  /** Whether a broadband onset (a new note or hit) started this frame */
+  isOnset: boolean;
+  /** Per-band onsets this frame (e.g., onsets.bass for kick drums) */
+  onsets: Record<FrequencyBand, boolean>;
+  /** Whether a beat falls on this frame */
+  isBeat: boolean;
+  /** Position within the current beat (0 on the beat, rising towards 1) */
+  beatPhase: number;
+  /** Estimated tempo (BPM), or null until enough onsets are heard */
+  bpm: number | null;
   /** High-precision timestamp from performance.now() */
   timestamp: number;
 }
@@ -74,6 +88,28 @@ export interface BaseEffectParams {
   intensityMultipliers?: Partial<Record<EffectIntensity, number>>;
   /** Optional track ID for per-track audio analysis */
   trackId?: string;
+  /** Optional combination of tracks to analyze as one (used when trackId is not set) */
+  trackCombination?: TrackCombination;
+  /** Whether effectively muted tracks (muted, or another is soloed) are ignored (default: false) */
+  ignoreMutedTracks?: boolean;
+}
+
+/**
+ * How the tracks of a combination are merged.
+ * - sum: bin magnitudes and samples are added (capped at their maximum)
+ * - max: the loudest track wins for each bin and sample
+ */
+export type TrackCombinationMode = "sum" | "max";
+
+/**
+ * Several tracks analyzed as one source, such as drums and bass summed or
+ * the loudest of all tracks.
+ */
+export interface TrackCombination {
+  /** How the tracks are merged */
+  mode: TrackCombinationMode;
+  /** Track IDs to combine, or "all" for every track with an analyzer */
+  tracks: string[] | "all";
 }
 
 /**
@@ -178,16 +214,18 @@ export interface EngineState {
   averageFps: number;
 }
 
+/**
+ * Frequency bands that are always configured, with their own averages and
+ * onset flags.
+ */
+export type FrequencyBand = "bass" | "midLow" | "midHigh" | "treble";
+
 /**
  * Audio analysis source options for effects.
- * Determines which audio analysis metric drives the effect.
+ * Determines which audio analysis metric drives the effect: rms, or the name
+ * of any configured frequency band (e.g., "bass" or "bark:3").
  */
-export type AudioAnalysisSource =
-  | "rms"
-  | "bass"
-  | "midLow"
-  | "midHigh"
-  | "treble";
+export type AudioAnalysisSource = "rms" | FrequencyBand | (string & {});
 
 /**
  * Helper type for CSS value outputs.
@@ -0,0 +1,49 @@
+"use client";
+
+import { useCallback } from "react";
+import { useAudioState } from "@/context/AudioStateContext";
+import { AudioInputError } from "@/app/audio/input";
+
+/**
+ * Hook for choosing what the audio-reactive visuals follow: the music sets,
+ * the microphone or a local audio file.
+ */
+export function useAnalysisInput() {
+  const { engine, analysisInput, analysisInputLabel, audioError } =
+    useAudioState();
+
+  /**
+   * Follows the microphone. Must be called from a user gesture the first
+   * time, as browsers ask for permission.
+   */
+  const connectMicrophone = useCallback(
+    () => engine.connectMicrophone(),
+    [engine]
+  );
+
+  /**
+   * Plays and follows a local audio file.
+   */
+  const loadAudioFile = useCallback(
+    (file: File) => engine.loadAudioFile(file),
+    [engine]
+  );
+
+  /**
+   * Goes back to following the music sets.
+   */
+  const selectMusicInput = useCallback(
+    () => engine.selectMusicInput(),
+    [engine]
+  );
+
+  return {
+    analysisInput,
+    analysisInputLabel,
+    /** Microphone or file error the visitor can recover from, if any */
+    inputError: audioError instanceof AudioInputError ? audioError : null,
+    connectMicrophone,
+    loadAudioFile,
+    selectMusicInput,
+  };
+}
@@ -1,61 +1,76 @@
 "use client";
 
+import { useCallback } from "react";
 import { useAudioState } from "@/context/AudioStateContext";
-import { setMasterVolume, pauseAudio, resumeAudio } from "@/app/audio/audio";
-import { useEffect } from "react";
+import { QuantizeMode } from "@/app/audio/types";
 
 /**
  * Main hook for managing global audio operations.
- * Provides access to audio state and master controls.
+ * Provides access to audio state and master controls (see AudioEngine).
  */
 export function useAudioManager() {
   const context = useAudioState();
+  const { engine } = context;
 
-  // Sync master volume with audio node when it changes (only after initialization)
-  useEffect(() => {
-    if (!context.isInitialized) return;
+  const toggleMasterMute = useCallback(
+    () => engine.toggleMasterMute(),
+    [engine]
+  );
 
-    let volume = context.masterVolume;
-    if (context.isMasterMuted) {
-      volume = 0;
-    }
-    setMasterVolume(volume);
-  }, [context.masterVolume, context.isMasterMuted, context.isInitialized]);
+  const updateMasterVolume = useCallback(
+    (volume: number) => engine.setMasterVolume(volume),
+    [engine]
+  );
 
-  const toggleMasterMute = () => {
-    context.setMasterMuted(!context.isMasterMuted);
-  };
+  const setMasterMuted = useCallback(
+    (muted: boolean) => engine.setMasterMuted(muted),
+    [engine]
+  );
 
-  const updateMasterVolume = (volume: number) => {
-    context.setMasterVolume(volume);
-  };
+  /**
+   * Pauses or resumes the current music set at its playhead position.
+   * Only the set's sources are stopped; the audio context keeps running.
+   */
+  const togglePlayPause = useCallback(() => engine.togglePlayPause(), [engine]);
 
-  const togglePlayPause = async () => {
-    if (context.isPlaying) {
-      await pauseAudio();
-      context.setPlaying(false);
-    } else {
-      await resumeAudio();
-      context.setPlaying(true);
-    }
-  };
+  /**
+   * Moves the playhead of the current music set to the given time.
+   *
+   * @param position - Target position in seconds
+   */
+  const seek = useCallback(
+    (position: number) => engine.seek(position),
+    [engine]
+  );
+
+  const setQuantize = useCallback(
+    (quantize: QuantizeMode) => engine.setQuantize(quantize),
+    [engine]
+  );
 
   return {
     // State
     isInitialized: context.isInitialized,
+    unlockState: context.unlockState,
     isMasterMuted: context.isMasterMuted,
     masterVolume: context.masterVolume,
     currentZone: context.currentSet,
     loadingZone: context.loadingSet,
+    loadingProgress: context.loadingProgress,
     isPlaying: context.isPlaying,
+    playbackPosition: context.playbackPosition,
+    playbackDuration: context.playbackDuration,
+    quantize: context.quantize,
+    isPlayingElsewhere: context.isPlayingElsewhere,
     config: context.config,
 
     // Actions
     initializeAudio: context.initializeAudio,
     toggleMasterMute,
     togglePlayPause,
+    seek,
     updateMasterVolume,
-    setMasterMuted: context.setMasterMuted,
-    setPlaying: context.setPlaying,
+    setMasterMuted,
+    setQuantize,
   };
 }
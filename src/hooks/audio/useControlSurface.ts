@@ -0,0 +1,289 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useTrackControls } from "./useTrackControls";
+import { useAudioManager } from "./useAudioManager";
+import { useAudioMusicSet } from "./useAudioMusicSet";
+import {
+  bindControl,
+  ControlAction,
+  ControlMapping,
+  getControlMappings,
+  getDefaultControlMappings,
+  getMidiMessageBinding,
+  isBindableKey,
+  isContinuousAction,
+  isKeyboardEventReserved,
+  matchKeyboardEvent,
+  matchMidiMessage,
+  parseMidiMessage,
+  resetControlMappings,
+  saveControlMappings,
+} from "@/app/audio/controlMapping";
+
+/**
+ * State of the Web MIDI connection.
+ * - unsupported: the browser has no Web MIDI
+ * - off: MIDI has not been enabled yet (enabling may prompt for permission)
+ * - connected: listening to every MIDI input
+ * - denied: the user or browser refused access
+ */
+export type MidiStatus = "unsupported" | "off" | "connected" | "denied";
+
+/**
+ * Hook for driving the mixer from the keyboard and MIDI controllers.
+ *
+ * Keyboard shortcuts are always active (except while typing in a field);
+ * MIDI starts once enableMidi is called. In learn mode the next key press
+ * or MIDI message is bound to the action being learned instead of
+ * triggering anything. Mappings are saved to localStorage.
+ *
+ * Call once, from a component that stays mounted.
+ */
+export function useControlSurface() {
+  const { tracks, toggleMute, toggleSolo, updateVolume, updatePan } =
+    useTrackControls();
+  const { isInitialized, initializeAudio, togglePlayPause } = useAudioManager();
+  const {
+    currentMusicSet,
+    switchMusicSet,
+    switchAdjacentMusicSet,
+    availableMusicSets,
+  } = useAudioMusicSet();
+
+  /** Current mappings (defaults until the saved ones are read after mount) */
+  const [mappings, setMappings] = useState<ControlMapping[]>(
+    getDefaultControlMappings
+  );
+
+  /** Action waiting for an input to be bound to it, or null when not learning */
+  const [learnAction, setLearnAction] = useState<ControlAction | null>(null);
+
+  const [midiStatus, setMidiStatus] = useState<MidiStatus>("off");
+
+  /** Number of connected MIDI inputs */
+  const [midiInputCount, setMidiInputCount] = useState(0);
+
+  /** Granted MIDI access, kept to detach listeners on unmount */
+  const midiAccess = useRef<MIDIAccess | null>(null);
+
+  // Read saved mappings on the client only, so server and client render alike
+  useEffect(() => {
+    setMappings(getControlMappings());
+    if (typeof navigator.requestMIDIAccess !== "function") {
+      setMidiStatus("unsupported");
+    }
+  }, []);
+
+  /**
+   * Triggers an action.
+   *
+   * @param action - Action to run
+   * @param value - Control value (0-1) for continuous actions
+   */
+  const runAction = useCallback(
+    async (action: ControlAction, value?: number) => {
+      const track = "trackIndex" in action ? tracks[action.trackIndex] : null;
+
+      switch (action.type) {
+        case "toggleMute":
+          if (track) toggleMute(track.id);
+          break;
+        case "toggleSolo":
+          if (track) toggleSolo(track.id);
+          break;
+        case "trackVolume":
+          // Squared to match the volume slider's feel (see TrackControl)
+          if (track && value !== undefined) {
+            updateVolume(track.id, value * value);
+          }
+          break;
+        case "trackPan":
+          if (track && value !== undefined) updatePan(track.id, value * 2 - 1);
+          break;
+        case "togglePlay":
+          if (!isInitialized) await initializeAudio();
+          if (currentMusicSet === null && availableMusicSets.length > 0) {
+            // Nothing loaded yet: start the first set
+            await switchMusicSet(availableMusicSets[0].id);
+          } else {
+            await togglePlayPause();
+          }
+          break;
+        case "previousSet":
+        case "nextSet":
+          if (availableMusicSets.length === 0) return;
+          if (!isInitialized) await initializeAudio();
+          await switchAdjacentMusicSet(action.type === "nextSet" ? 1 : -1);
+          break;
+      }
+    },
+    [
+      tracks,
+      toggleMute,
+      toggleSolo,
+      updateVolume,
+      updatePan,
+      isInitialized,
+      initializeAudio,
+      togglePlayPause,
+      currentMusicSet,
+      availableMusicSets,
+      switchMusicSet,
+      switchAdjacentMusicSet,
+    ]
+  );
+
+  /**
+   * Binds an input to the action being learned, saves, and leaves learn mode.
+   */
+  const learn = useCallback(
+    (binding: ControlMapping["binding"], action: ControlAction) => {
+      setMappings((previous) => {
+        const updated = bindControl(previous, binding, action);
+        saveControlMappings(updated);
+        return updated;
+      });
+      setLearnAction(null);
+    },
+    []
+  );
+
+  // Listeners are attached once and read the latest state through this ref
+  const latest = useRef({ mappings, learnAction, runAction, learn });
+  useEffect(() => {
+    latest.current = { mappings, learnAction, runAction, learn };
+  }, [mappings, learnAction, runAction, learn]);
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const { mappings, learnAction, runAction, learn } = latest.current;
+      if (isKeyboardEventReserved(event, learnAction !== null)) return;
+
+      if (learnAction) {
+        // Escape cancels learning. Tab, Enter and modifier keys keep their
+        // usual job, and keys cannot drive volume or pan.
+        if (event.code === "Escape") {
+          setLearnAction(null);
+        } else if (!isBindableKey(event.code)) {
+          return;
+        } else if (!isContinuousAction(learnAction)) {
+          learn(
+            { kind: "key", code: event.code, shift: event.shiftKey },
+            learnAction
+          );
+        }
+        event.preventDefault();
+        return;
+      }
+
+      const action = matchKeyboardEvent(mappings, event);
+      if (!action || isContinuousAction(action)) return;
+
+      // Holding a key should not toggle repeatedly
+      event.preventDefault();
+      if (event.repeat) return;
+      runAction(action);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  /**
+   * Handles a message from any MIDI input.
+   */
+  const handleMidiMessage = useCallback((event: MIDIMessageEvent) => {
+    const message = parseMidiMessage(event.data);
+    if (!message) return;
+    const { mappings, learnAction, runAction, learn } = latest.current;
+
+    if (learnAction) {
+      // Faders and knobs send CCs; continuous actions need one
+      if (message.kind === "midiCc" || !isContinuousAction(learnAction)) {
+        learn(getMidiMessageBinding(message), learnAction);
+      }
+      return;
+    }
+
+    const action = matchMidiMessage(mappings, message);
+    if (!action) return;
+
+    if (isContinuousAction(action)) {
+      runAction(action, message.value);
+    } else if (message.value > 0) {
+      // Notes toggle on press; CC buttons toggle on press, not release
+      runAction(action);
+    }
+  }, []);
+
+  /**
+   * Requests MIDI access and listens to every input, including ones plugged
+   * in later. May show a permission prompt, so call from a user action.
+   */
+  const enableMidi = useCallback(async () => {
+    if (typeof navigator.requestMIDIAccess !== "function") {
+      setMidiStatus("unsupported");
+      return;
+    }
+    if (midiAccess.current) return;
+
+    try {
+      const access = await navigator.requestMIDIAccess();
+      midiAccess.current = access;
+
+      const attachInputs = () => {
+        access.inputs.forEach((input) => {
+          input.onmidimessage = handleMidiMessage;
+        });
+        setMidiInputCount(access.inputs.size);
+      };
+      attachInputs();
+      access.onstatechange = attachInputs;
+
+      setMidiStatus("connected");
+    } catch (error) {
+      console.warn("useControlSurface - MIDI access denied:", error);
+      setMidiStatus("denied");
+    }
+  }, [handleMidiMessage]);
+
+  // Stop listening to MIDI on unmount
+  useEffect(() => {
+    return () => {
+      const access = midiAccess.current;
+      if (!access) return;
+      access.onstatechange = null;
+      access.inputs.forEach((input) => {
+        input.onmidimessage = null;
+      });
+      midiAccess.current = null;
+    };
+  }, []);
+
+  /**
+   * Restores the default mappings.
+   */
+  const resetMappings = useCallback(() => {
+    setMappings(resetControlMappings());
+    setLearnAction(null);
+  }, []);
+
+  /**
+   * Leaves learn mode without binding anything.
+   */
+  const cancelLearning = useCallback(() => setLearnAction(null), []);
+
+  return {
+    mappings,
+    learnAction,
+    startLearning: setLearnAction,
+    cancelLearning,
+    resetMappings,
+    midiStatus,
+    midiInputCount,
+    enableMidi,
+    trackCount: tracks.length,
+  };
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useAudioState } from "@/context/AudioStateContext";
+import { getMasterBus } from "@/app/audio/audio";
+import {
+  amplitudeToDecibels,
+  measureSampleBlock,
+  METER_FLOOR_DB,
+  powerToDecibels,
+  powerToLoudness,
+} from "@/app/audio/metering";
+import { MasterMeterReading } from "@/app/audio/types";
+
+/** How often (ms) the meters are read; shorter than the meter buffer so no audio is skipped */
+const METER_REFRESH_MS = 50;
+
+/** Length of the short-term loudness window (ms), as in EBU R 128 */
+const SHORT_TERM_WINDOW_MS = 3000;
+
+/** Output peak (dBFS) at or above which the clip indicator lights */
+const CLIP_THRESHOLD_DB = -0.1;
+
+/** How long (ms) the clip indicator stays lit after the last clip */
+const CLIP_HOLD_MS = 1500;
+
+const SILENT_READING: MasterMeterReading = {
+  peak: METER_FLOOR_DB,
+  rms: METER_FLOOR_DB,
+  loudness: METER_FLOOR_DB,
+  gainReduction: 0,
+  isClipping: false,
+};
+
+/**
+ * Hook for metering the master output.
+ *
+ * Reads the master bus meters while audio is playing and reports peak and
+ * RMS levels, short-term loudness, limiter/compressor gain reduction and a
+ * held clip indicator. Reports silence while stopped.
+ */
+export function useMasterMeter() {
+  const { isInitialized, isPlaying } = useAudioState();
+  const [reading, setReading] = useState<MasterMeterReading>(SILENT_READING);
+  const clipUntil = useRef(0);
+
+  useEffect(() => {
+    const masterBus = isInitialized && isPlaying ? getMasterBus() : null;
+    if (!masterBus) {
+      setReading(SILENT_READING);
+      return;
+    }
+
+    const samples = new Float32Array(masterBus.meter.fftSize);
+    const weightedSamples = new Float32Array(masterBus.loudnessMeter.fftSize);
+
+    // Power of each K-weighted block within the short-term window
+    const loudnessBlocks: { time: number; meanSquare: number }[] = [];
+
+    const interval = setInterval(() => {
+      const now = performance.now();
+
+      masterBus.meter.getFloatTimeDomainData(samples);
+      masterBus.loudnessMeter.getFloatTimeDomainData(weightedSamples);
+      const output = measureSampleBlock(samples);
+
+      loudnessBlocks.push({
+        time: now,
+        meanSquare: measureSampleBlock(weightedSamples).meanSquare,
+      });
+      while (loudnessBlocks[0].time < now - SHORT_TERM_WINDOW_MS) {
+        loudnessBlocks.shift();
+      }
+      const shortTermPower =
+        loudnessBlocks.reduce((sum, block) => sum + block.meanSquare, 0) /
+        loudnessBlocks.length;
+
+      const peak = amplitudeToDecibels(output.peak);
+      if (peak >= CLIP_THRESHOLD_DB) {
+        clipUntil.current = now + CLIP_HOLD_MS;
+      }
+
+      setReading({
+        peak,
+        rms: powerToDecibels(output.meanSquare),
+        loudness: powerToLoudness(shortTermPower),
+        gainReduction:
+          masterBus.compressor.reduction + masterBus.limiter.reduction,
+        isClipping: now < clipUntil.current,
+      });
+    }, METER_REFRESH_MS);
+
+    return () => clearInterval(interval);
+  }, [isInitialized, isPlaying]);
+
+  /**
+   * Turns the clip indicator off without waiting for the hold time.
+   */
+  const resetClip = useCallback(() => {
+    clipUntil.current = 0;
+    setReading((prev) => ({ ...prev, isClipping: false }));
+  }, []);
+
+  return {
+    ...reading,
+    resetClip,
+  };
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useAudioManager } from "./useAudioManager";
+import { useAudioMusicSet } from "./useAudioMusicSet";
+import { resumeAudio } from "@/app/audio/audio";
+import { encodeWav } from "@/app/audio/wav";
+import { person } from "@/app/resources/content";
+
+/** Sample rate of the silent anchor clip (the lowest every browser plays) */
+const ANCHOR_SAMPLE_RATE = 8000;
+
+/**
+ * Seconds the playhead may advance between position refreshes before it
+ * counts as a seek (refreshes are a fraction of a second apart)
+ */
+const POSITION_JUMP_THRESHOLD = 1;
+
+/** Media session actions this hook handles */
+const HANDLED_ACTIONS: MediaSessionAction[] = [
+  "play",
+  "pause",
+  "nexttrack",
+  "previoustrack",
+  "seekto",
+];
+
+/**
+ * Whether the browser has the Media Session API.
+ */
+function hasMediaSession(): boolean {
+  return typeof navigator !== "undefined" && "mediaSession" in navigator;
+}
+
+/**
+ * Tells the OS where the playhead is. Does nothing until a set has a length.
+ *
+ * @param position - Playhead position in seconds
+ * @param duration - Length of the current set in seconds
+ */
+function publishPositionState(position: number, duration: number): void {
+  if (!hasMediaSession() || duration <= 0) return;
+
+  try {
+    navigator.mediaSession.setPositionState({
+      duration,
+      position: Math.min(Math.max(0, position), duration),
+      playbackRate: 1,
+    });
+  } catch (error) {
+    console.warn("publishPositionState - unable to set position state:", error);
+  }
+}
+
+/**
+ * Creates a looping, silent audio element. Mobile browsers only show lock
+ * screen controls (and route hardware media keys) while a media element is
+ * playing; Web Audio output alone does not count.
+ */
+function createSilentAnchor(): HTMLAudioElement {
+  const silence = new Float32Array(ANCHOR_SAMPLE_RATE);
+  const wav = encodeWav([silence], ANCHOR_SAMPLE_RATE);
+  const audio = new Audio(
+    URL.createObjectURL(new Blob([wav], { type: "audio/wav" }))
+  );
+  audio.loop = true;
+  return audio;
+}
+
+/**
+ * Hook publishing playback to the operating system through the Media
+ * Session API: the current set's name, artist and artwork appear on the lock
+ * screen and in OS media overlays, hardware play/pause/next/previous keys
+ * control the player, and the OS shows the playhead once a set is playing.
+ *
+ * The artist comes from the set manifest (or its first credit) and the
+ * artwork from the manifest, both falling back to the site owner.
+ *
+ * Call once, from a component that stays mounted.
+ */
+export function useMediaSession() {
+  const {
+    isPlaying,
+    playbackPosition,
+    playbackDuration,
+    togglePlayPause,
+    seek,
+  } = useAudioManager();
+  const { currentMusicSet, switchAdjacentMusicSet, availableMusicSets } =
+    useAudioMusicSet();
+
+  const musicSet =
+    availableMusicSets.find((ms) => ms.id === currentMusicSet) ?? null;
+
+  /** Silent element keeping the media session active while playing */
+  const anchor = useRef<HTMLAudioElement | null>(null);
+
+  /** Playback at the last refresh, to tell playhead jumps from other changes */
+  const lastPlayback = useRef<{
+    isPlaying: boolean;
+    currentMusicSet: number | null;
+    position: number;
+    duration: number;
+  } | null>(null);
+
+  // Action handlers are registered once and read the latest state through this ref
+  const latest = useRef({
+    isPlaying,
+    togglePlayPause,
+    seek,
+    switchAdjacentMusicSet,
+  });
+  useEffect(() => {
+    latest.current = {
+      isPlaying,
+      togglePlayPause,
+      seek,
+      switchAdjacentMusicSet,
+    };
+  }, [isPlaying, togglePlayPause, seek, switchAdjacentMusicSet]);
+
+  // Metadata of the current set
+  useEffect(() => {
+    if (!hasMediaSession()) return;
+
+    if (!musicSet) {
+      navigator.mediaSession.metadata = null;
+      return;
+    }
+
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: musicSet.displayName,
+      artist: musicSet.artist ?? musicSet.credits?.[0]?.name ?? person.name,
+      artwork: [{ src: musicSet.artwork ?? person.avatar }],
+    });
+  }, [musicSet]);
+
+  // Action handlers
+  useEffect(() => {
+    if (!hasMediaSession()) return;
+
+    const handlers: Partial<
+      Record<MediaSessionAction, MediaSessionActionHandler>
+    > = {
+      play: async () => {
+        const { isPlaying, togglePlayPause } = latest.current;
+        if (isPlaying) {
+          // Still playing, but the context may have been suspended while hidden
+          await resumeAudio();
+        } else {
+          await togglePlayPause();
+        }
+      },
+      pause: async () => {
+        const { isPlaying, togglePlayPause } = latest.current;
+        if (isPlaying) await togglePlayPause();
+      },
+      nexttrack: () => latest.current.switchAdjacentMusicSet(1),
+      previoustrack: () => latest.current.switchAdjacentMusicSet(-1),
+      seekto: (details) => {
+        if (details.seekTime !== undefined) {
+          latest.current.seek(details.seekTime);
+        }
+      },
+    };
+
+    HANDLED_ACTIONS.forEach((action) => {
+      try {
+        navigator.mediaSession.setActionHandler(action, handlers[action]!);
+      } catch {
+        // Browsers throw for actions they do not support
+      }
+    });
+
+    return () => {
+      HANDLED_ACTIONS.forEach((action) => {
+        try {
+          navigator.mediaSession.setActionHandler(action, null);
+        } catch {
+          // See above
+        }
+      });
+    };
+  }, []);
+
+  // Playback state, and the silent anchor that keeps the session alive
+  useEffect(() => {
+    if (!hasMediaSession()) return;
+
+    navigator.mediaSession.playbackState =
+      currentMusicSet === null ? "none" : isPlaying ? "playing" : "paused";
+
+    if (isPlaying) {
+      anchor.current ??= createSilentAnchor();
+      anchor.current.play().catch((error) => {
+        // Blocked without a user gesture; Web Audio playback is unaffected
+        console.warn("useMediaSession - unable to start media session:", error);
+      });
+    } else {
+      anchor.current?.pause();
+    }
+  }, [isPlaying, currentMusicSet]);
+
+  // Release the anchor on unmount
+  useEffect(() => {
+    return () => {
+      if (!anchor.current) return;
+      anchor.current.pause();
+      URL.revokeObjectURL(anchor.current.src);
+      anchor.current = null;
+    };
+  }, []);
+
+  // Position state. The OS advances the playhead itself while playing, so it
+  // is republished only when playback starts or stops, the set changes, or
+  // the playhead jumps (a loop or seek). While paused, every move is published.
+  useEffect(() => {
+    const last = lastPlayback.current;
+    lastPlayback.current = {
+      isPlaying,
+      currentMusicSet,
+      position: playbackPosition,
+      duration: playbackDuration,
+    };
+
+    const delta = playbackPosition - (last?.position ?? 0);
+    const hasJumped = delta < 0 || delta > POSITION_JUMP_THRESHOLD;
+    if (
+      !last ||
+      !isPlaying ||
+      hasJumped ||
+      last.isPlaying !== isPlaying ||
+      last.currentMusicSet !== currentMusicSet ||
+      last.duration !== playbackDuration
+    ) {
+      publishPositionState(playbackPosition, playbackDuration);
+    }
+  }, [isPlaying, currentMusicSet, playbackPosition, playbackDuration]);
+}
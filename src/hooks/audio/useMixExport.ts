@@ -0,0 +1,103 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import { useAudioState } from "@/context/AudioStateContext";
+import { exportMix } from "@/app/audio/render";
+import { WavBitDepth } from "@/app/audio/wav";
+
+/**
+ * Starts a browser download of a blob under the given file name.
+ */
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Hook for rendering the current mix offline and downloading it as WAV.
+ */
+export function useMixExport() {
+  const { currentSet, tracks, loadedSets, config, panningMode } =
+    useAudioState();
+
+  const musicSet = useMemo(
+    () => config.musicSets.find((ms) => ms.id === currentSet) ?? null,
+    [config.musicSets, currentSet]
+  );
+
+  /** Whether an export is rendering */
+  const [isExporting, setIsExporting] = useState(false);
+
+  /** Export progress from 0 to 1, or null when idle */
+  const [progress, setProgress] = useState<number | null>(null);
+
+  /** Error from the last export, if it failed */
+  const [exportError, setExportError] = useState<Error | null>(null);
+
+  const musicSetData =
+    currentSet !== null ? (loadedSets.get(currentSet) ?? null) : null;
+
+  /**
+   * Renders the current mix (and optionally stems) and downloads the result.
+   *
+   * @param bitDepth - PCM sample size of the WAV files
+   * @param includeStems - Whether to download a zip with one WAV per track
+   */
+  const startExport = useCallback(
+    async (bitDepth: WavBitDepth, includeStems: boolean) => {
+      if (!musicSet || !musicSetData || isExporting) return;
+
+      setIsExporting(true);
+      setProgress(0);
+      setExportError(null);
+
+      try {
+        const { filename, blob } = await exportMix(
+          musicSet,
+          musicSetData,
+          tracks,
+          {
+            bitDepth,
+            includeStems,
+            masterBusSettings: config.defaultSettings,
+            panningMode,
+            onProgress: setProgress,
+          }
+        );
+        downloadBlob(blob, filename);
+      } catch (error) {
+        console.error("useMixExport - export failed:", error);
+        setExportError(
+          error instanceof Error ? error : new Error(String(error))
+        );
+      } finally {
+        setIsExporting(false);
+        setProgress(null);
+      }
+    },
+    [
+      musicSet,
+      musicSetData,
+      tracks,
+      config.defaultSettings,
+      panningMode,
+      isExporting,
+    ]
+  );
+
+  return {
+    canExport: musicSetData !== null && tracks.length > 0,
+    isExporting,
+    progress,
+    exportError,
+    startExport,
+  };
+}
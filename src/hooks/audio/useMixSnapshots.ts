@@ -0,0 +1,103 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAudioState } from "@/context/AudioStateContext";
+import {
+  captureMix,
+  createMixShareUrl,
+  deleteMixSnapshot,
+  getMixSnapshots,
+  MixSnapshot,
+  MusicSetMix,
+  saveMixSnapshot,
+} from "@/app/audio/mix";
+
+/**
+ * Hook for saving, restoring and sharing mixes of the current music set.
+ */
+export function useMixSnapshots() {
+  const context = useAudioState();
+  const { currentSet, tracks, config } = context;
+
+  const musicSet = useMemo(
+    () => config.musicSets.find((ms) => ms.id === currentSet) ?? null,
+    [config.musicSets, currentSet]
+  );
+
+  /** Saved snapshots of the current set, oldest first */
+  const [snapshots, setSnapshots] = useState<MixSnapshot[]>([]);
+
+  // Reload the snapshot list whenever the set changes
+  useEffect(() => {
+    setSnapshots(musicSet === null ? [] : getMixSnapshots(musicSet));
+  }, [musicSet]);
+
+  /**
+   * Applies a mix to the current set. Passing null restores the manifest and
+   * global defaults.
+   */
+  const applyMix = useCallback(
+    (mix: MusicSetMix | null) => context.engine.applyMix(mix),
+    [context.engine]
+  );
+
+  /**
+   * Saves the current mix under a name, replacing a snapshot of the same name.
+   */
+  const saveSnapshot = useCallback(
+    (name: string) => {
+      const trimmed = name.trim();
+      if (musicSet === null || !trimmed) return;
+
+      setSnapshots(saveMixSnapshot(musicSet, trimmed, captureMix(tracks)));
+    },
+    [musicSet, tracks]
+  );
+
+  /**
+   * Restores a saved snapshot.
+   */
+  const loadSnapshot = useCallback(
+    (name: string) => {
+      const snapshot = snapshots.find((s) => s.name === name);
+      if (snapshot) applyMix(snapshot.mix);
+    },
+    [snapshots, applyMix]
+  );
+
+  /**
+   * Deletes a saved snapshot.
+   */
+  const deleteSnapshot = useCallback(
+    (name: string) => {
+      if (musicSet === null) return;
+      setSnapshots(deleteMixSnapshot(musicSet, name));
+    },
+    [musicSet]
+  );
+
+  /**
+   * Restores the default mix of the current set.
+   */
+  const resetMix = useCallback(() => applyMix(null), [applyMix]);
+
+  /**
+   * Builds a link that opens this page with the current mix.
+   *
+   * @returns URL, or null if no set is loaded
+   */
+  const getShareUrl = useCallback((): string | null => {
+    if (!musicSet || tracks.length === 0) return null;
+    return createMixShareUrl(musicSet, captureMix(tracks));
+  }, [musicSet, tracks]);
+
+  return {
+    snapshots,
+    canEditMix: musicSet !== null && tracks.length > 0,
+    saveSnapshot,
+    loadSnapshot,
+    deleteSnapshot,
+    resetMix,
+    getShareUrl,
+  };
+}
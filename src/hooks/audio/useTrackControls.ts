@@ -2,154 +2,91 @@
 
 import { useCallback } from "react";
 import { useAudioState } from "@/context/AudioStateContext";
-import { setTrackVolume, setTrackPan } from "@/app/audio/tracks";
-import { linearToGain } from "@/app/audio/audio";
+import {
+  MusicTrackEffects,
+  MusicTrackPosition,
+  TrackPanningMode,
+} from "@/app/audio/types";
 
 /**
- * Hook for managing individual track controls (mute, solo, volume, pan).
+ * Hook for managing individual track controls (mute, solo, volume, pan,
+ * stage position, EQ, filter and effect sends). Tracks are addressed by ID
+ * (see AudioEngine).
  */
 export function useTrackControls() {
   const context = useAudioState();
-
-  /**
-   * Gets the track nodes for a specific track.
-   */
-  const getTrackNodes = useCallback(
-    (trackId: string) => {
-      if (!context.currentSet) return null;
-
-      const zoneData = context.loadedSets.get(context.currentSet);
-      if (!zoneData) return null;
-
-      const trackIndex = context.tracks.findIndex((t) => t.id === trackId);
-      if (trackIndex === -1) return null;
-
-      return zoneData.nodes[trackIndex];
-    },
-    [context.currentSet, context.loadedSets, context.tracks]
-  );
+  const { engine } = context;
 
   /**
    * Toggles mute for a track.
-   * Updates both isMuted (user preference) and isEffectivelyMuted (actual audio state).
+   * The audio change lands on the next beat or bar when quantizing is on.
    */
   const toggleMute = useCallback(
-    (trackId: string) => {
-      const track = context.tracks.find((t) => t.id === trackId);
-      if (!track) return;
-
-      const nodes = getTrackNodes(trackId);
-      if (!nodes) return;
-
-      const newMuted = !track.isMuted;
-
-      // Check if any track is soloed
-      const anySoloActive = context.tracks.some((t) => t.isSolo);
-
-      // Compute effective mute: user muted OR (solo active AND not soloed)
-      const effectivelyMuted = newMuted || (anySoloActive && !track.isSolo);
-
-      // Update audio nodes
-      nodes.gain.gain.value = effectivelyMuted ? 0 : linearToGain(track.volume);
-
-      // Update state
-      context.updateTrack(trackId, {
-        isMuted: newMuted,
-        isEffectivelyMuted: effectivelyMuted,
-      });
-    },
-    [context, getTrackNodes]
+    (trackId: string) => engine.toggleMute(trackId),
+    [engine]
   );
 
   /**
-   * Toggles solo for a track.
-   *
-   * Preserves user mute states (isMuted) while computing effective mute (isEffectivelyMuted).
-   * Supports multiple tracks being soloed simultaneously.
+   * Toggles solo for a track. Several tracks can be soloed at once.
+   * The audio change lands on the next beat or bar when quantizing is on.
    */
   const toggleSolo = useCallback(
-    (trackId: string) => {
-      const track = context.tracks.find((t) => t.id === trackId);
-      if (!track) return;
-
-      const newSolo = !track.isSolo;
-
-      // Update solo state for the toggled track first
-      context.updateTrack(trackId, { isSolo: newSolo });
-
-      // Check if ANY track is now soloed (including the one we just toggled)
-      const anySoloActive = context.tracks.some((t) =>
-        t.id === trackId ? newSolo : t.isSolo
-      );
-
-      // Update effective mute state for ALL tracks
-      context.tracks.forEach((t) => {
-        const nodes = getTrackNodes(t.id);
-        if (!nodes) return;
-
-        // For the current track being processed, use updated solo state
-        const trackIsSolo = t.id === trackId ? newSolo : t.isSolo;
-
-        // Compute effective mute state:
-        // - If user muted: always muted
-        // - If solo is active and this track is NOT soloed: muted
-        const effectivelyMuted = t.isMuted || (anySoloActive && !trackIsSolo);
-
-        // Update the computed state
-        context.updateTrack(t.id, { isEffectivelyMuted: effectivelyMuted });
-
-        // Apply to audio nodes
-        if (effectivelyMuted) {
-          nodes.gain.gain.value = 0;
-        } else {
-          nodes.gain.gain.value = linearToGain(t.volume);
-        }
-      });
-    },
-    [context, getTrackNodes]
+    (trackId: string) => engine.toggleSolo(trackId),
+    [engine]
   );
 
   /**
    * Updates the volume for a track.
-   * Only applies to audio nodes if the track is not effectively muted.
    */
   const updateVolume = useCallback(
-    (trackId: string, volume: number) => {
-      const track = context.tracks.find((t) => t.id === trackId);
-      if (!track) return;
-
-      const nodes = getTrackNodes(trackId);
-      if (!nodes) return;
-
-      // Update volume node (unless effectively muted)
-      if (!track.isEffectivelyMuted) {
-        setTrackVolume(nodes, volume);
-      }
-
-      context.updateTrack(trackId, { volume });
-    },
-    [context, getTrackNodes]
+    (trackId: string, volume: number) =>
+      engine.updateTrackVolume(trackId, volume),
+    [engine]
   );
 
   /**
    * Updates the pan for a track.
    */
   const updatePan = useCallback(
-    (trackId: string, pan: number) => {
-      const nodes = getTrackNodes(trackId);
-      if (!nodes) return;
+    (trackId: string, pan: number) => engine.updateTrackPan(trackId, pan),
+    [engine]
+  );
 
-      setTrackPan(nodes, pan);
-      context.updateTrack(trackId, { pan });
-    },
-    [context, getTrackNodes]
+  /**
+   * Moves a track on the spatial stage.
+   */
+  const updatePosition = useCallback(
+    (trackId: string, position: MusicTrackPosition) =>
+      engine.updateTrackPosition(trackId, position),
+    [engine]
+  );
+
+  /**
+   * Switches between stereo panning and spatial placement of tracks.
+   */
+  const setPanningMode = useCallback(
+    (panningMode: TrackPanningMode) => engine.setPanningMode(panningMode),
+    [engine]
+  );
+
+  /**
+   * Updates one EQ, filter or send setting for a track.
+   */
+  const updateEffect = useCallback(
+    (trackId: string, effect: keyof MusicTrackEffects, value: number) =>
+      engine.updateTrackEffect(trackId, effect, value),
+    [engine]
   );
 
   return {
     tracks: context.tracks,
+    panningMode: context.panningMode,
     toggleMute,
     toggleSolo,
     updateVolume,
     updatePan,
+    updatePosition,
+    setPanningMode,
+    updateEffect,
   };
 }
@@ -15,3 +15,5 @@ export {
   useEffectCSSVars,
   useEffectStyleMap,
 } from "./useEffectRef";
+
+export { useCssPropertyEffects } from "./useCssPropertyEffects";
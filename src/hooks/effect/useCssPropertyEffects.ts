@@ -0,0 +1,78 @@
+"use client";
+
+/**
+ * React hook for the CSS custom properties defined in the effect config.
+ *
+ * Every config entry driven by the cssPropertyAnimator sets its property on
+ * the document root, so any stylesheet can use it without further code.
+ */
+
+import { useEffect } from "react";
+import { EffectEngine } from "../../effect/core/EffectEngine";
+import { EffectRegistry } from "../../effect/core/EffectRegistry";
+import { getEffectConfigSync } from "../../effect/config/loader";
+import { CssPropertyAnimatorFactory } from "../../effect/animators/cssPropertyAnimator/CssPropertyAnimatorFactory";
+import type { CssPropertyAnimatorOutput } from "../../effect/animators";
+
+/**
+ * Creates an effect for every cssPropertyAnimator entry in the config and
+ * writes its value to the document root. Removes the effects and their
+ * properties when disabled or unmounted.
+ *
+ * @example
+ * ```tsx
+ * // With "audioLevel": { "animator": "cssPropertyAnimator", ... } in config,
+ * // --audio-level can be used in any stylesheet.
+ * useCssPropertyEffects(isEffectConfigInitialized && hasAudioInput);
+ * ```
+ *
+ * @param enabled - Whether the properties should follow the audio; the
+ * config must be initialized before this is true
+ */
+export function useCssPropertyEffects(enabled: boolean): void {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const root = document.documentElement;
+    const config = getEffectConfigSync();
+    const effectIds: string[] = [];
+    const properties: string[] = [];
+    const unsubscribes: (() => void)[] = [];
+
+    for (const [name, entry] of Object.entries(config.effects)) {
+      if (entry.animator !== CssPropertyAnimatorFactory.animator) continue;
+
+      const factory = EffectRegistry.getAnimator(name);
+      if (!factory) {
+        console.error(
+          `[useCssPropertyEffects] Animator "${name}" not found. ` +
+            `Was registerConfiguredAnimators() called?`
+        );
+        continue;
+      }
+
+      const id = `css-property-${name}`;
+      // Pass the defaults so the entry's own intensity is kept
+      EffectEngine.registerEffect(factory.create(id, entry.defaults));
+      effectIds.push(id);
+
+      unsubscribes.push(
+        EffectEngine.subscribe(id, () => {
+          const values =
+            EffectEngine.getEffectOutput<CssPropertyAnimatorOutput>(id);
+          if (!values) return;
+          root.style.setProperty(values.property, values.cssValue);
+          if (!properties.includes(values.property)) {
+            properties.push(values.property);
+          }
+        })
+      );
+    }
+
+    return () => {
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      effectIds.forEach((id) => EffectEngine.unregisterEffect(id));
+      properties.forEach((property) => root.style.removeProperty(property));
+    };
+  }, [enabled]);
+}
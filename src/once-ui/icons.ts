@@ -29,6 +29,8 @@ import {
   HiStar,
   HiPlay,
   HiPause,
+  HiAdjustmentsHorizontal,
+  HiArrowDownTray,
 } from "react-icons/hi2";
 
 import {
@@ -82,4 +84,6 @@ export const iconLibrary: Record<string, IconType> = {
   star: HiStar,
   play: HiPlay,
   pause: HiPause,
+  adjustments: HiAdjustmentsHorizontal,
+  download: HiArrowDownTray,
 };
@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  AutomatableParam,
+  configureAutomation,
+  getAutomationSettings,
+  holdParam,
+  rampParam,
+} from "@/app/audio/automation";
+
+/**
+ * An AudioParam that records the automation calls made on it.
+ *
+ * @param value - Current value
+ * @param canHold - Whether it has cancelAndHoldAtTime (Firefox lacks it)
+ */
+function createRecordingParam(value: number, canHold = true) {
+  const param = {
+    value,
+    setValueAtTime: vi.fn(),
+    linearRampToValueAtTime: vi.fn(),
+    setTargetAtTime: vi.fn(),
+    cancelScheduledValues: vi.fn(),
+    ...(canHold && { cancelAndHoldAtTime: vi.fn() }),
+  };
+  return param as typeof param & AutomatableParam;
+}
+
+describe("automation", () => {
+  const defaults = getAutomationSettings();
+
+  afterEach(() => {
+    configureAutomation(defaults);
+  });
+
+  describe("holdParam", () => {
+    it("cancels and holds where the browser supports it", () => {
+      const param = createRecordingParam(0.5);
+
+      holdParam(param, 2);
+
+      expect(param.cancelAndHoldAtTime).toHaveBeenCalledWith(2);
+      expect(param.cancelScheduledValues).not.toHaveBeenCalled();
+    });
+
+    it("pins the current value where it does not", () => {
+      const param = createRecordingParam(0.5, false);
+
+      holdParam(param, 2);
+
+      expect(param.cancelScheduledValues).toHaveBeenCalledWith(2);
+      expect(param.setValueAtTime).toHaveBeenCalledWith(0.5, 2);
+    });
+  });
+
+  describe("rampParam", () => {
+    it("glides towards the target in three time constants by default", () => {
+      const param = createRecordingParam(1);
+
+      rampParam(param, 0.25, 10, { rampTime: 0.3 });
+
+      expect(param.cancelAndHoldAtTime).toHaveBeenCalledWith(10);
+      expect(param.setTargetAtTime).toHaveBeenCalledOnce();
+      const [target, start, timeConstant] = param.setTargetAtTime.mock.calls[0];
+      expect(target).toBe(0.25);
+      expect(start).toBe(10);
+      expect(timeConstant).toBeCloseTo(0.1);
+      expect(param.linearRampToValueAtTime).not.toHaveBeenCalled();
+    });
+
+    it("uses the configured ramp time when none is given", () => {
+      configureAutomation({ rampTime: 0.06 });
+      const param = createRecordingParam(1);
+
+      rampParam(param, 0, 1);
+
+      expect(param.setTargetAtTime.mock.calls[0][2]).toBeCloseTo(0.02);
+    });
+
+    it("lands a linear ramp exactly on the target", () => {
+      const param = createRecordingParam(1, false);
+
+      rampParam(param, 0, 4, { rampTime: 0.01, shape: "linear" });
+
+      expect(param.cancelScheduledValues).toHaveBeenCalledWith(4);
+      expect(param.setValueAtTime).toHaveBeenCalledWith(1, 4);
+      expect(param.linearRampToValueAtTime).toHaveBeenCalledWith(0, 4.01);
+      expect(param.setTargetAtTime).not.toHaveBeenCalled();
+    });
+
+    it("starts a quantized ramp at the given time", () => {
+      const param = createRecordingParam(1);
+
+      rampParam(param, 0, 4, {
+        startTime: 6,
+        rampTime: 0.01,
+        shape: "linear",
+      });
+
+      expect(param.cancelAndHoldAtTime).toHaveBeenCalledWith(6);
+      expect(param.linearRampToValueAtTime).toHaveBeenCalledWith(0, 6.01);
+    });
+
+    it("never starts in the past", () => {
+      const param = createRecordingParam(1);
+
+      rampParam(param, 0.5, 4, { startTime: 3, rampTime: 0.03 });
+
+      expect(param.setTargetAtTime.mock.calls[0][1]).toBe(4);
+    });
+
+    it("jumps immediately without a ramp time", () => {
+      const param = createRecordingParam(1);
+
+      rampParam(param, 0.5, 4, { rampTime: 0 });
+
+      expect(param.cancelScheduledValues).toHaveBeenCalledWith(4);
+      expect(param.value).toBe(0.5);
+      expect(param.setValueAtTime).not.toHaveBeenCalled();
+      expect(param.setTargetAtTime).not.toHaveBeenCalled();
+    });
+
+    it("schedules a later jump without a ramp time", () => {
+      const param = createRecordingParam(1);
+
+      rampParam(param, 0.5, 4, { startTime: 5, rampTime: 0 });
+
+      expect(param.cancelScheduledValues).toHaveBeenCalledWith(5);
+      expect(param.setValueAtTime).toHaveBeenCalledWith(0.5, 5);
+      expect(param.value).toBe(1);
+    });
+  });
+});
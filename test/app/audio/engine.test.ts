@@ -0,0 +1,263 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getAudioContext, linearToGain } from "@/app/audio/audio";
+import { AudioEngine } from "@/app/audio/engine";
+import { getAudioConfigDefaultSettings } from "@/app/audio/getAudioConfig";
+import { AudioConfig, MusicSets } from "@/app/audio/types";
+import { loadShippedEffectConfig } from "../../effectConfig";
+import {
+  FakeAudioBuffer,
+  FakeAudioBufferSourceNode,
+  FakeAudioContext,
+  installFakeWebAudio,
+} from "../../fakeWebAudio";
+
+// Buffers "load" one per microtask, so a switch started right after another
+// can abort it part way through
+vi.mock("@/app/audio/loader", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/app/audio/loader")>();
+  return {
+    ...actual,
+    prefetchAudioBuffers: vi.fn(async () => {}),
+    loadMultipleAudioBuffers: vi.fn(
+      async (
+        urls: (string | string[])[],
+        options: Parameters<typeof actual.loadMultipleAudioBuffers>[1] = {}
+      ) => {
+        const buffers: AudioBuffer[] = [];
+        for (const index of urls.keys()) {
+          await Promise.resolve();
+          if (options.signal?.aborted) {
+            throw new DOMException("Load aborted", "AbortError");
+          }
+          const buffer = new FakeAudioBuffer({
+            numberOfChannels: 2,
+            length: 48000 * 8,
+            sampleRate: 48000,
+          }) as unknown as AudioBuffer;
+          options.onBufferLoaded?.(index, buffer);
+          buffers.push(buffer);
+        }
+        return buffers;
+      }
+    ),
+  };
+});
+
+/** Crossfade length used by the tests (seconds) */
+const CROSSFADE_DURATION = 2;
+
+/**
+ * Builds a set of three tracks.
+ */
+function createMusicSet(id: number): MusicSets {
+  return {
+    id,
+    name: `zone${id}`,
+    displayName: `Zone ${id}`,
+    tracks: ["drums", "bass", "lead"].map((track) => ({
+      id: track,
+      name: track,
+      path: `/audio/zone${id}/${track}.mp3`,
+      sources: [{ path: `/audio/zone${id}/${track}.mp3`, type: "audio/mpeg" }],
+    })),
+  };
+}
+
+describe("AudioEngine", () => {
+  let restoreWebAudio: () => void;
+  let engine: AudioEngine;
+  let context: FakeAudioContext;
+
+  beforeEach(async () => {
+    // Loaded sets register their analyzers with AudioDataProvider
+    await loadShippedEffectConfig();
+
+    vi.useFakeTimers();
+    restoreWebAudio = installFakeWebAudio();
+    // Shared mixes are read from the URL, saved sessions from localStorage
+    vi.stubGlobal("location", new URL("https://example.test/"));
+    vi.stubGlobal("localStorage", {
+      getItem: () => null,
+      setItem: () => {},
+      removeItem: () => {},
+    });
+
+    const config: AudioConfig = {
+      musicSets: [1, 2, 3].map(createMusicSet),
+      defaultSettings: {
+        ...getAudioConfigDefaultSettings(),
+        crossfadeDuration: CROSSFADE_DURATION,
+      },
+    };
+    engine = new AudioEngine(config);
+    engine.configure(config);
+    await engine.initialize();
+    context = getAudioContext() as unknown as FakeAudioContext;
+  });
+
+  afterEach(async () => {
+    await engine.close();
+    vi.unstubAllGlobals();
+    restoreWebAudio();
+    vi.useRealTimers();
+  });
+
+  /**
+   * Gets the gain node a loaded set plays through.
+   */
+  const getSetGain = (setId: number) =>
+    engine.getState().loadedSets.get(setId)!.musicSetNode.gain;
+
+  describe("switching sets", () => {
+    it("fades the first set in and plays every track", async () => {
+      await engine.switchMusicSet(1);
+
+      const state = engine.getState();
+      expect(state.currentSet).toBe(1);
+      expect(state.isPlaying).toBe(true);
+      expect(state.tracks.map((track) => track.id)).toEqual([
+        "drums",
+        "bass",
+        "lead",
+      ]);
+
+      context.advanceTime(1);
+      const nodes = engine.getCurrentMusicSetData()!.nodes;
+      nodes.forEach((trackNodes) => {
+        const source =
+          trackNodes.source as unknown as FakeAudioBufferSourceNode;
+        expect(source.isPlayingAt()).toBe(true);
+      });
+    });
+
+    it("crossfades to the new set and releases the old one afterwards", async () => {
+      await engine.switchMusicSet(1);
+      context.advanceTime(5);
+
+      await engine.switchMusicSet(2);
+
+      expect(engine.getState().currentSet).toBe(2);
+      expect([...engine.getState().loadedSets.keys()]).toEqual([1, 2]);
+
+      const outgoing = getSetGain(1);
+      const incoming = getSetGain(2);
+      context.advanceTime(CROSSFADE_DURATION + 0.5);
+      expect(outgoing.value).toBeCloseTo(0);
+      expect(incoming.value).toBeCloseTo(1);
+
+      vi.advanceTimersByTime((CROSSFADE_DURATION + 0.5) * 1000);
+      expect([...engine.getState().loadedSets.keys()]).toEqual([2]);
+    });
+
+    it("crossfades from the set playing when a quick switch lands", async () => {
+      await engine.switchMusicSet(1);
+      context.advanceTime(5);
+      await engine.switchMusicSet(2);
+
+      // Set 1 is still fading out when set 3 arrives
+      context.advanceTime(0.5);
+      const second = getSetGain(2);
+      await engine.switchMusicSet(3);
+
+      expect(engine.getState().currentSet).toBe(3);
+      context.advanceTime(CROSSFADE_DURATION + 0.5);
+      expect(second.value).toBeCloseTo(0);
+      expect(getSetGain(3).value).toBeCloseTo(1);
+
+      // Both superseded sets are released once the last crossfade ends
+      vi.advanceTimersByTime((CROSSFADE_DURATION + 1) * 1000);
+      expect([...engine.getState().loadedSets.keys()]).toEqual([3]);
+    });
+
+    it("drops a switch that a newer one replaces before it plays", async () => {
+      await engine.switchMusicSet(1);
+      context.advanceTime(5);
+
+      const abandoned = engine.switchMusicSet(2);
+      const latest = engine.switchMusicSet(3);
+      await Promise.all([abandoned, latest]);
+
+      const state = engine.getState();
+      expect(state.currentSet).toBe(3);
+      expect(state.loadedSets.has(2)).toBe(false);
+      expect(state.audioError).toBeNull();
+
+      vi.advanceTimersByTime((CROSSFADE_DURATION + 1) * 1000);
+      expect([...engine.getState().loadedSets.keys()]).toEqual([3]);
+    });
+  });
+
+  describe("mute and solo", () => {
+    /**
+     * Gets the gain of a track of the current set once ramps have finished.
+     */
+    const getTrackGain = (trackId: string) => {
+      context.advanceTime(1);
+      return engine.getTrackNodes(trackId)!.gain.gain.value;
+    };
+
+    /**
+     * Gets which tracks are effectively muted.
+     */
+    const getEffectiveMutes = () =>
+      Object.fromEntries(
+        engine
+          .getState()
+          .tracks.map((track) => [track.id, track.isEffectivelyMuted])
+      );
+
+    beforeEach(async () => {
+      await engine.switchMusicSet(1);
+      // Let the fade-in finish
+      context.advanceTime(3);
+    });
+
+    it("mutes a track without touching the others", () => {
+      engine.toggleMute("bass");
+
+      expect(getEffectiveMutes()).toEqual({
+        drums: false,
+        bass: true,
+        lead: false,
+      });
+      expect(getTrackGain("bass")).toBe(0);
+      expect(getTrackGain("drums")).toBeCloseTo(
+        linearToGain(getAudioConfigDefaultSettings().trackVolume)
+      );
+    });
+
+    it("silences every track but the soloed ones", () => {
+      engine.toggleSolo("drums");
+      engine.toggleSolo("lead");
+
+      expect(getEffectiveMutes()).toEqual({
+        drums: false,
+        bass: true,
+        lead: false,
+      });
+      expect(getTrackGain("bass")).toBe(0);
+      expect(getTrackGain("lead")).toBeGreaterThan(0);
+    });
+
+    it("keeps a muted track silent through solo, and restores the rest", () => {
+      engine.toggleMute("drums");
+      engine.toggleSolo("drums");
+
+      expect(getEffectiveMutes()).toEqual({
+        drums: true,
+        bass: true,
+        lead: true,
+      });
+
+      engine.toggleSolo("drums");
+
+      expect(getEffectiveMutes()).toEqual({
+        drums: true,
+        bass: false,
+        lead: false,
+      });
+      expect(getTrackGain("drums")).toBe(0);
+      expect(getTrackGain("bass")).toBeGreaterThan(0);
+    });
+  });
+});
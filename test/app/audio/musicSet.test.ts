@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  closeAudioContext,
+  getAudioContext,
+  initializeAudioContext,
+} from "@/app/audio/audio";
+import {
+  createMusicSetNode,
+  crossfadeMusicSets,
+  fadeInMusicSet,
+} from "@/app/audio/musicSet";
+import { createTrackNodes } from "@/app/audio/tracks";
+import {
+  FakeAudioContext,
+  FakeAudioParam,
+  installFakeWebAudio,
+} from "../../fakeWebAudio";
+
+describe("music set fades", () => {
+  let restoreWebAudio: () => void;
+  let context: FakeAudioContext;
+
+  beforeEach(async () => {
+    restoreWebAudio = installFakeWebAudio();
+    await initializeAudioContext();
+    context = getAudioContext() as unknown as FakeAudioContext;
+    context.advanceTime(10);
+  });
+
+  afterEach(async () => {
+    await closeAudioContext();
+    restoreWebAudio();
+  });
+
+  it("fades each track in from silence to its volume", () => {
+    const parent = createMusicSetNode();
+    const tracks = [0.5, 1].map((volume) =>
+      createTrackNodes(null, parent, volume)
+    );
+
+    fadeInMusicSet(tracks, 2);
+
+    const [quiet, loud] = tracks.map(
+      (nodes) => nodes.gain.gain as unknown as FakeAudioParam
+    );
+    expect(quiet.events.slice(-2)).toEqual([
+      { type: "set", time: 10, value: 0 },
+      { type: "linear", time: 12, value: 0.25 },
+    ]);
+    expect(loud.getValueAtTime(10)).toBe(0);
+    expect(loud.getValueAtTime(11)).toBeCloseTo(0.5);
+    expect(loud.getValueAtTime(12)).toBeCloseTo(1);
+  });
+
+  it("crossfades with equal power from the outgoing set's current gain", () => {
+    const outgoing = createMusicSetNode();
+    const incoming = createMusicSetNode();
+    outgoing.gain.value = 0.8;
+
+    crossfadeMusicSets(outgoing, incoming, 4, "equalPower");
+
+    const outGain = outgoing.gain as unknown as FakeAudioParam;
+    const inGain = incoming.gain as unknown as FakeAudioParam;
+    expect(outGain.getValueAtTime(10)).toBeCloseTo(0.8);
+    expect(inGain.getValueAtTime(10)).toBeCloseTo(0);
+
+    // Half way through both sides sit at sin(45°) of their range
+    expect(inGain.getValueAtTime(12)).toBeCloseTo(Math.SQRT1_2, 1);
+    expect(outGain.getValueAtTime(12)).toBeCloseTo(0.8 * Math.SQRT1_2, 1);
+
+    expect(outGain.getValueAtTime(14)).toBeCloseTo(0);
+    expect(inGain.getValueAtTime(14)).toBeCloseTo(1);
+  });
+
+  it("starts a quantized crossfade on the given time", () => {
+    const outgoing = createMusicSetNode();
+    const incoming = createMusicSetNode();
+
+    crossfadeMusicSets(outgoing, incoming, 1, "linear", 11.5);
+
+    const outGain = outgoing.gain as unknown as FakeAudioParam;
+    expect(outGain.getValueAtTime(11.4)).toBeCloseTo(1);
+    expect(outGain.getValueAtTime(12)).toBeCloseTo(0.5, 1);
+    expect(outGain.getValueAtTime(12.5)).toBeCloseTo(0);
+  });
+
+  it("cuts between sets when the crossfade has no length", () => {
+    const outgoing = createMusicSetNode();
+    const incoming = createMusicSetNode();
+    incoming.gain.value = 0;
+
+    crossfadeMusicSets(outgoing, incoming, 0);
+
+    expect(outgoing.gain.value).toBe(0);
+    expect(incoming.gain.value).toBe(1);
+  });
+});
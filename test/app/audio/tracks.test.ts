@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  closeAudioContext,
+  getAudioContext,
+  initializeAudioContext,
+  linearToGain,
+} from "@/app/audio/audio";
+import {
+  createMusicSetEffectBuses,
+  createMusicSetNode,
+} from "@/app/audio/musicSet";
+import { createTrackNodes, disconnectTrackNodes } from "@/app/audio/tracks";
+import {
+  FakeAudioContext,
+  installFakeWebAudio,
+  isConnected,
+  isRoutedTo,
+} from "../../fakeWebAudio";
+
+describe("createTrackNodes", () => {
+  let restoreWebAudio: () => void;
+  let context: FakeAudioContext;
+
+  beforeEach(async () => {
+    restoreWebAudio = installFakeWebAudio();
+    await initializeAudioContext();
+    context = getAudioContext() as unknown as FakeAudioContext;
+  });
+
+  afterEach(async () => {
+    await closeAudioContext();
+    restoreWebAudio();
+  });
+
+  it("chains source, gain, EQ, filters, panner and analyzer into the parent", () => {
+    const parent = createMusicSetNode();
+    const nodes = createTrackNodes(null, parent, 0.5, -0.25);
+
+    const chain = [
+      nodes.source,
+      nodes.gain,
+      nodes.eqLow,
+      nodes.eqMid,
+      nodes.eqHigh,
+      nodes.lowpass,
+      nodes.highpass,
+      nodes.pan,
+      nodes.analyzer,
+      parent,
+    ];
+    chain.slice(1).forEach((node, index) => {
+      expect(isConnected(chain[index], node)).toBe(true);
+    });
+    expect(isRoutedTo(chain[0], context.destination)).toBe(true);
+  });
+
+  it("starts at the given volume and pan with the effects flat", () => {
+    const nodes = createTrackNodes(null, createMusicSetNode(), 0.5, -0.25);
+
+    expect(nodes.gain.gain.value).toBeCloseTo(linearToGain(0.5));
+    expect(nodes.pan.pan.value).toBeCloseTo(-0.25);
+    expect(nodes.eqLow.gain.value).toBe(0);
+    expect(nodes.eqMid.gain.value).toBe(0);
+    expect(nodes.eqHigh.gain.value).toBe(0);
+    expect(nodes.source.loop).toBe(true);
+  });
+
+  it("taps silent post-fader sends into the set's effect buses", () => {
+    const parent = createMusicSetNode();
+    const buses = createMusicSetEffectBuses(parent);
+    const nodes = createTrackNodes(null, parent, 0.5, 0, true, buses);
+
+    expect(nodes.reverbSend).not.toBeNull();
+    expect(nodes.delaySend).not.toBeNull();
+    expect(isConnected(nodes.pan, nodes.reverbSend!)).toBe(true);
+    expect(isConnected(nodes.reverbSend!, buses.reverb)).toBe(true);
+    expect(isConnected(nodes.pan, nodes.delaySend!)).toBe(true);
+    expect(isConnected(nodes.delaySend!, buses.delay)).toBe(true);
+    expect(nodes.reverbSend!.gain.value).toBe(0);
+    expect(nodes.delaySend!.gain.value).toBe(0);
+  });
+
+  it("has no sends without effect buses", () => {
+    const nodes = createTrackNodes(null, createMusicSetNode(), 0.5);
+
+    expect(nodes.reverbSend).toBeNull();
+    expect(nodes.delaySend).toBeNull();
+  });
+
+  it("disconnects the whole chain", () => {
+    const parent = createMusicSetNode();
+    const nodes = createTrackNodes(null, parent, 0.5);
+
+    disconnectTrackNodes(nodes);
+
+    expect(isRoutedTo(nodes.source, parent)).toBe(false);
+    expect(isConnected(nodes.analyzer, parent)).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { encodeWav, WavBitDepth } from "@/app/audio/wav";
+
+/**
+ * Reads a chunk ID or other ASCII field.
+ */
+const readAscii = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(
+    ...Array.from({ length }, (_, i) => view.getUint8(offset + i))
+  );
+
+/**
+ * Reads a signed little-endian 24-bit sample.
+ */
+const readInt24 = (view: DataView, offset: number) => {
+  const value =
+    view.getUint8(offset) |
+    (view.getUint8(offset + 1) << 8) |
+    (view.getUint8(offset + 2) << 16);
+  return value & 0x800000 ? value - 0x1000000 : value;
+};
+
+/**
+ * Decodes the interleaved PCM of a WAV file back into planar float samples.
+ */
+function decodePcm(view: DataView): Float32Array[] {
+  const channelCount = view.getUint16(22, true);
+  const bitDepth = view.getUint16(34, true) as WavBitDepth;
+  const dataBytes = view.getUint32(40, true);
+  const bytesPerSample = bitDepth / 8;
+  const frameCount = dataBytes / (channelCount * bytesPerSample);
+  const scale = 2 ** (bitDepth - 1);
+
+  const channels = Array.from(
+    { length: channelCount },
+    () => new Float32Array(frameCount)
+  );
+  let offset = 44;
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (const channel of channels) {
+      const value =
+        bitDepth === 16 ? view.getInt16(offset, true) : readInt24(view, offset);
+      channel[frame] = value / scale;
+      offset += bytesPerSample;
+    }
+  }
+  return channels;
+}
+
+describe("encodeWav", () => {
+  const left = Float32Array.from([0, 0.5, -0.5, 1, -1, 0.25]);
+  const right = Float32Array.from([0.1, -0.1, 0.9, -0.9, 0, 0.75]);
+
+  it.each([16, 24] as const)("writes a %i-bit PCM header", (bitDepth) => {
+    const view = new DataView(encodeWav([left, right], 44100, bitDepth));
+    const bytesPerSample = bitDepth / 8;
+    const dataBytes = left.length * 2 * bytesPerSample;
+
+    expect(view.byteLength).toBe(44 + dataBytes);
+    expect(readAscii(view, 0, 4)).toBe("RIFF");
+    expect(view.getUint32(4, true)).toBe(36 + dataBytes);
+    expect(readAscii(view, 8, 4)).toBe("WAVE");
+
+    expect(readAscii(view, 12, 4)).toBe("fmt ");
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1); // PCM
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(44100);
+    expect(view.getUint32(28, true)).toBe(44100 * 2 * bytesPerSample);
+    expect(view.getUint16(32, true)).toBe(2 * bytesPerSample);
+    expect(view.getUint16(34, true)).toBe(bitDepth);
+
+    expect(readAscii(view, 36, 4)).toBe("data");
+    expect(view.getUint32(40, true)).toBe(dataBytes);
+  });
+
+  it.each([
+    [16, 4],
+    [24, 6],
+  ] as const)(
+    "round-trips %i-bit samples within one step",
+    (bitDepth, digits) => {
+      const view = new DataView(encodeWav([left, right], 48000, bitDepth));
+
+      const [decodedLeft, decodedRight] = decodePcm(view);
+
+      left.forEach((sample, i) =>
+        expect(decodedLeft[i]).toBeCloseTo(sample, digits)
+      );
+      right.forEach((sample, i) =>
+        expect(decodedRight[i]).toBeCloseTo(sample, digits)
+      );
+    }
+  );
+
+  it("maps full scale to the integer extremes", () => {
+    const view = new DataView(
+      encodeWav([Float32Array.from([1, -1, 2, -2, NaN])], 8000)
+    );
+
+    expect(view.getInt16(44, true)).toBe(32767);
+    expect(view.getInt16(46, true)).toBe(-32768);
+    // Out of range samples are clamped, and NaN written as silence
+    expect(view.getInt16(48, true)).toBe(32767);
+    expect(view.getInt16(50, true)).toBe(-32768);
+    expect(view.getInt16(52, true)).toBe(0);
+  });
+
+  it("writes a mono file with only a header when there are no samples", () => {
+    const view = new DataView(encodeWav([new Float32Array(0)], 22050));
+
+    expect(view.byteLength).toBe(44);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(40, true)).toBe(0);
+  });
+
+  it("rejects missing or uneven channels", () => {
+    expect(() => encodeWav([], 44100)).toThrow(/No channels/);
+    expect(() =>
+      encodeWav([new Float32Array(2), new Float32Array(3)], 44100)
+    ).toThrow(/same length/);
+  });
+});
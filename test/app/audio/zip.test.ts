@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { crc32, createZip } from "@/app/audio/zip";
+
+/**
+ * A file read back from an archive through its central directory.
+ */
+interface ParsedEntry {
+  name: string;
+  data: Uint8Array;
+  crc: number;
+  localOffset: number;
+  time: number;
+  date: number;
+}
+
+/**
+ * Reads an archive back the way an unzip tool does: from the end of central
+ * directory record, through the central directory to each local header.
+ */
+function parseZip(archive: Uint8Array) {
+  const view = new DataView(archive.buffer);
+  const decoder = new TextDecoder();
+
+  const end = archive.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const entryCount = view.getUint16(end + 10, true);
+  const centralSize = view.getUint32(end + 12, true);
+  const centralOffset = view.getUint32(end + 16, true);
+
+  const entries: ParsedEntry[] = [];
+  let offset = centralOffset;
+  for (let i = 0; i < entryCount; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const crc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      archive.subarray(offset + 46, offset + 46 + nameLength)
+    );
+    expect(compressedSize).toBe(size);
+
+    // The local header must agree with the central directory
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    expect(view.getUint16(localOffset + 8, true)).toBe(0); // Stored
+    expect(view.getUint32(localOffset + 14, true)).toBe(crc);
+    expect(view.getUint32(localOffset + 22, true)).toBe(size);
+    expect(view.getUint16(localOffset + 26, true)).toBe(nameLength);
+    const dataStart = localOffset + 30 + nameLength;
+    expect(decoder.decode(archive.subarray(localOffset + 30, dataStart))).toBe(
+      name
+    );
+
+    entries.push({
+      name,
+      data: archive.subarray(dataStart, dataStart + size),
+      crc,
+      localOffset,
+      time: view.getUint16(offset + 12, true),
+      date: view.getUint16(offset + 14, true),
+    });
+    offset += 46 + nameLength;
+  }
+
+  return {
+    entries,
+    centralOffset,
+    centralSize,
+    totalEntries: view.getUint16(end + 8, true),
+    centralEnd: offset,
+  };
+}
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    const data = new TextEncoder().encode("123456789");
+
+    expect(crc32(data)).toBe(0xcbf43926);
+  });
+
+  it("is zero for no data", () => {
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+});
+
+describe("createZip", () => {
+  const bass = Uint8Array.from([1, 2, 3, 4, 5]);
+  const notes = new TextEncoder().encode("Mixed at 120 BPM");
+  const modified = new Date(2024, 5, 15, 13, 45, 30);
+
+  it("writes entries an unzip tool can find and read back", () => {
+    const archive = createZip(
+      [
+        { name: "stems/bass.wav", data: bass },
+        { name: "notes – ü.txt", data: notes },
+      ],
+      modified
+    );
+
+    const zip = parseZip(archive);
+
+    expect(zip.totalEntries).toBe(2);
+    expect(zip.entries.map((entry) => entry.name)).toEqual([
+      "stems/bass.wav",
+      "notes – ü.txt",
+    ]);
+    expect([...zip.entries[0].data]).toEqual([...bass]);
+    expect([...zip.entries[1].data]).toEqual([...notes]);
+    expect(zip.entries[0].crc).toBe(crc32(bass));
+    expect(zip.entries[1].crc).toBe(crc32(notes));
+
+    // Local files come first and back to back, then the central directory
+    expect(zip.entries[0].localOffset).toBe(0);
+    expect(zip.entries[1].localOffset).toBe(30 + 14 + bass.length);
+    expect(zip.centralOffset).toBe(
+      zip.entries[1].localOffset +
+        30 +
+        new TextEncoder().encode("notes – ü.txt").length +
+        notes.length
+    );
+    expect(zip.centralEnd).toBe(zip.centralOffset + zip.centralSize);
+    expect(archive.length).toBe(zip.centralEnd + 22);
+  });
+
+  it("records the modification time in MS-DOS format", () => {
+    const archive = createZip([{ name: "a.txt", data: notes }], modified);
+
+    const [entry] = parseZip(archive).entries;
+
+    // Seconds are stored halved
+    expect(entry.time).toBe((13 << 11) | (45 << 5) | 15);
+    expect(entry.date).toBe(((2024 - 1980) << 9) | (6 << 5) | 15);
+  });
+
+  it("writes only the end record for an empty archive", () => {
+    const archive = createZip([], modified);
+
+    const zip = parseZip(archive);
+
+    expect(archive.length).toBe(22);
+    expect(zip.totalEntries).toBe(0);
+    expect(zip.centralOffset).toBe(0);
+    expect(zip.centralSize).toBe(0);
+  });
+});
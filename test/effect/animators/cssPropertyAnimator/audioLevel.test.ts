@@ -0,0 +1,115 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  AudioLevel,
+  getIntensityMultiplier,
+  mapLevelToRange,
+} from "@/effect/animators/cssPropertyAnimator/audioLevel";
+import { getEmptyBeatAnalysis } from "@/effect/core/beatDetection";
+import { AudioFrameData, EffectIntensity } from "@/effect/core/types";
+import { loadShippedEffectConfig } from "../../../effectConfig";
+
+/** Multipliers as shipped in public/effect/config.json */
+const MULTIPLIERS: Record<EffectIntensity, number> = {
+  [EffectIntensity.SUBTLE]: 0.2,
+  [EffectIntensity.MILD]: 0.4,
+  [EffectIntensity.MODERATE]: 0.6,
+  [EffectIntensity.STRONG]: 0.8,
+  [EffectIntensity.EXTREME]: 1.2,
+};
+
+/**
+ * Builds frame data with the given band levels (0-255).
+ */
+function createFrame(bands: Record<string, number>, rms = 0): AudioFrameData {
+  return {
+    timestamp: 0,
+    rms,
+    bass: bands.bass ?? 0,
+    midLow: bands.midLow ?? 0,
+    midHigh: bands.midHigh ?? 0,
+    treble: bands.treble ?? 0,
+    bands,
+    frequencyData: new Uint8Array(0),
+    timeDomainData: new Uint8Array(0),
+    ...getEmptyBeatAnalysis(),
+  };
+}
+
+describe("getIntensityMultiplier", () => {
+  it("prefers the effect's own multipliers", () => {
+    expect(
+      getIntensityMultiplier(MULTIPLIERS, { intensity: EffectIntensity.STRONG })
+    ).toBe(0.8);
+    expect(
+      getIntensityMultiplier(MULTIPLIERS, {
+        intensity: EffectIntensity.STRONG,
+        intensityMultipliers: { [EffectIntensity.STRONG]: 0.5 },
+      })
+    ).toBe(0.5);
+  });
+});
+
+describe("mapLevelToRange", () => {
+  it("maps up from the minimum over the scaled span", () => {
+    const range = { min: 10, max: 30 };
+
+    expect(mapLevelToRange(0, range, 0.5)).toBe(10);
+    expect(mapLevelToRange(1, range, 0.5)).toBe(20);
+    expect(mapLevelToRange(1, range, 1.2)).toBe(30);
+  });
+
+  it("centers the scaled span on the base", () => {
+    const range = { min: 0, max: 100, base: 40 };
+
+    expect(mapLevelToRange(0, range, 0.2)).toBe(30);
+    expect(mapLevelToRange(0.5, range, 0.2)).toBe(40);
+    expect(mapLevelToRange(1, range, 0.2)).toBe(50);
+  });
+
+  it("keeps a span centered near an edge inside the range", () => {
+    const range = { min: 0, max: 100, base: 90 };
+
+    expect(mapLevelToRange(0, range, 0.6)).toBe(60);
+    expect(mapLevelToRange(1, range, 0.6)).toBe(100);
+  });
+});
+
+describe("AudioLevel", () => {
+  beforeAll(async () => {
+    await loadShippedEffectConfig();
+  });
+
+  it("reads bands and rms as 0-1 levels", () => {
+    const level = new AudioLevel("testAnimator");
+    const frame = createFrame({ bass: 255, "bark:3": 51 }, 0.25);
+
+    expect(level.read(frame, "bass")).toBe(1);
+    expect(level.read(frame, "bark:3")).toBeCloseTo(0.2);
+    // The shipped rms multiplier is 2
+    expect(level.read(frame, "rms")).toBeCloseTo(0.5);
+  });
+
+  it("smooths towards the source", () => {
+    const level = new AudioLevel("testAnimator");
+    const frame = createFrame({ bass: 255 });
+
+    expect(level.update(frame, "bass", 0, 16.67)).toBe(1);
+
+    level.reset(0);
+    const halfway = level.update(frame, "bass", 0.5, 16.67);
+    expect(halfway).toBeCloseTo(0.5);
+    expect(level.value).toBe(halfway);
+  });
+
+  it("reads an unknown source as silence and warns once", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const level = new AudioLevel("testAnimator");
+    const frame = createFrame({ bass: 255 });
+
+    expect(level.read(frame, "bark:99")).toBe(0);
+    expect(level.read(frame, "bark:99")).toBe(0);
+
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,178 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  closeAudioContext,
+  getAudioAnalyzer,
+  getAudioContext,
+  initializeAudioContext,
+} from "@/app/audio/audio";
+import { AudioDataProvider } from "@/effect/core/AudioDataProvider";
+import { loadShippedEffectConfig } from "../../effectConfig";
+import {
+  FakeAnalyserNode,
+  FakeAudioContext,
+  installFakeWebAudio,
+} from "../../fakeWebAudio";
+
+/**
+ * Builds a spectrum with a level below a frequency and silence above it.
+ *
+ * @param maxHz - Highest frequency with energy
+ * @param level - Byte level of those bins
+ * @param sampleRate - Sample rate of the analyzer's context
+ */
+const lowPassedSpectrum =
+  (maxHz: number, level: number, sampleRate: number) =>
+  (bin: number, binCount: number) =>
+    (bin * sampleRate) / (binCount * 2) < maxHz ? level : 0;
+
+describe("AudioDataProvider", () => {
+  let restoreWebAudio: () => void;
+  let context: FakeAudioContext;
+  let registered: string[];
+
+  /**
+   * Creates a track analyzer and registers it.
+   */
+  const registerTrack = (trackId: string): FakeAnalyserNode => {
+    const analyzer = context.createAnalyser();
+    analyzer.fftSize = 1024;
+    AudioDataProvider.registerTrackAnalyzer(
+      trackId,
+      analyzer as unknown as AnalyserNode
+    );
+    registered.push(trackId);
+    return analyzer;
+  };
+
+  beforeAll(async () => {
+    await loadShippedEffectConfig();
+  });
+
+  beforeEach(async () => {
+    restoreWebAudio = installFakeWebAudio();
+    await initializeAudioContext();
+    context = getAudioContext() as unknown as FakeAudioContext;
+    registered = [];
+  });
+
+  afterEach(async () => {
+    registered.forEach((trackId) =>
+      AudioDataProvider.unregisterTrackAnalyzer(trackId)
+    );
+    AudioDataProvider.setMutedTracks([]);
+    await closeAudioContext();
+    restoreWebAudio();
+  });
+
+  it("reports silence before the audio context exists", async () => {
+    await closeAudioContext();
+
+    const frame = AudioDataProvider.getFrameData();
+
+    expect(frame.rms).toBe(0);
+    expect(Object.values(frame.bands).every((level) => level === 0)).toBe(true);
+  });
+
+  it("splits the global spectrum into the configured bands", () => {
+    const analyzer = getAudioAnalyzer() as unknown as FakeAnalyserNode;
+    analyzer.setFrequencyData(lowPassedSpectrum(400, 200, context.sampleRate));
+
+    const frame = AudioDataProvider.getFrameData();
+
+    expect(frame.bass).toBeGreaterThan(100);
+    expect(frame.midLow).toBe(0);
+    expect(frame.midHigh).toBe(0);
+    expect(frame.treble).toBe(0);
+    expect(frame.bands.bass).toBe(frame.bass);
+  });
+
+  it("measures the loudness of the waveform", () => {
+    const analyzer = getAudioAnalyzer() as unknown as FakeAnalyserNode;
+    analyzer.setTimeDomainData((i) => 0.5 * Math.sin((2 * Math.PI * i) / 64));
+
+    const frame = AudioDataProvider.getFrameData();
+
+    // A sine's RMS is its amplitude over √2
+    expect(frame.rms).toBeCloseTo(0.5 * Math.SQRT1_2, 2);
+  });
+
+  it("analyzes each track on its own", () => {
+    const bass = registerTrack("bass");
+    const hats = registerTrack("hats");
+    bass.setFrequencyData(lowPassedSpectrum(400, 220, context.sampleRate));
+    hats.setFrequencyData((bin, binCount) => (bin > binCount / 2 ? 180 : 0));
+
+    AudioDataProvider.getFrameData();
+    const bassFrame = AudioDataProvider.getTrackFrameData("bass");
+    const hatsFrame = AudioDataProvider.getTrackFrameData("hats");
+
+    expect(bassFrame.bass).toBeGreaterThan(0);
+    expect(bassFrame.treble).toBe(0);
+    expect(hatsFrame.bass).toBe(0);
+    expect(hatsFrame.treble).toBeGreaterThan(0);
+  });
+
+  it("reads each source once per frame", () => {
+    const bass = registerTrack("bass");
+    bass.setFrequencyData(lowPassedSpectrum(400, 220, context.sampleRate));
+
+    AudioDataProvider.getFrameData();
+    const first = AudioDataProvider.getTrackFrameData("bass").bass;
+    bass.setFrequencyData([]);
+    expect(AudioDataProvider.getTrackFrameData("bass").bass).toBe(first);
+
+    AudioDataProvider.getFrameData();
+    expect(AudioDataProvider.getTrackFrameData("bass").bass).toBe(0);
+  });
+
+  it("combines tracks by taking the loudest bin", () => {
+    const kick = registerTrack("kick");
+    const pad = registerTrack("pad");
+    kick.setFrequencyData([0, 250, 40]);
+    pad.setFrequencyData([100, 60, 90]);
+
+    AudioDataProvider.getFrameData();
+    const frame = AudioDataProvider.getCombinedFrameData({
+      tracks: ["kick", "pad"],
+      mode: "max",
+    });
+
+    expect([...frame.frequencyData.subarray(0, 4)]).toEqual([100, 250, 90, 0]);
+  });
+
+  it("combines tracks by adding their magnitudes", () => {
+    const kick = registerTrack("kick");
+    const pad = registerTrack("pad");
+    kick.setFrequencyData([0, 200, 40, 250, 255]);
+    pad.setFrequencyData([0, 200, 0, 40, 255]);
+
+    AudioDataProvider.getFrameData();
+    const frame = AudioDataProvider.getCombinedFrameData({
+      tracks: ["kick", "pad"],
+      mode: "sum",
+    });
+
+    // Bins span 70 dB, so doubling a magnitude (+6 dB) adds 22 steps, and a
+    // track 58 dB quieter adds nothing visible
+    expect([...frame.frequencyData.subarray(0, 6)]).toEqual([
+      0, 222, 40, 250, 255, 0,
+    ]);
+  });
+
+  it("leaves effectively muted tracks out when asked to", () => {
+    const kick = registerTrack("kick");
+    kick.setFrequencyData(lowPassedSpectrum(400, 220, context.sampleRate));
+    AudioDataProvider.setMutedTracks(["kick"]);
+
+    AudioDataProvider.getFrameData();
+
+    expect(AudioDataProvider.getTrackFrameData("kick", true).bass).toBe(0);
+    expect(AudioDataProvider.getTrackFrameData("kick").bass).toBeGreaterThan(0);
+    expect(
+      AudioDataProvider.getCombinedFrameData(
+        { tracks: "all", mode: "max" },
+        true
+      ).bass
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import type { BeatDetectionConfig } from "@/effect/config/types";
+import {
+  BeatAnalysis,
+  computeSpectralFlux,
+  createBeatDetectorState,
+  detectBeat,
+  estimateTempo,
+} from "@/effect/core/beatDetection";
+import type { FrequencyBand } from "@/effect/core/types";
+
+/** Detection settings as shipped in public/effect/config.json */
+const CONFIG: BeatDetectionConfig = {
+  fluxWindowMs: 1000,
+  onsetSensitivity: 1.5,
+  minFlux: 0.01,
+  minOnsetIntervalMs: 100,
+  tempoWindowMs: 8000,
+  minBpm: 70,
+  maxBpm: 180,
+};
+
+/** Bins of the synthetic spectra */
+const BIN_COUNT = 64;
+
+/** Bin ranges of the bands in the synthetic spectra */
+const BANDS: Record<FrequencyBand, { start: number; end: number }> = {
+  bass: { start: 0, end: 7 },
+  midLow: { start: 8, end: 23 },
+  midHigh: { start: 24, end: 39 },
+  treble: { start: 40, end: 63 },
+};
+
+/** Time between frames in ms */
+const FRAME_MS = 20;
+
+/**
+ * Builds a spectrum with a level in one band and a quiet floor elsewhere.
+ */
+function createSpectrum(band: FrequencyBand | null, level: number) {
+  const spectrum = new Uint8Array(BIN_COUNT).fill(10);
+  if (band) {
+    spectrum.fill(level, BANDS[band].start, BANDS[band].end + 1);
+  }
+  return spectrum;
+}
+
+/**
+ * Runs the detector over a stretch of audio where the bass hits at the given
+ * times and is quiet in between.
+ *
+ * @param hitTimes - Times of the hits in ms (multiples of FRAME_MS)
+ * @param durationMs - Length of the audio in ms
+ * @returns The analysis of every frame, by frame time
+ */
+function detectHits(
+  hitTimes: number[],
+  durationMs: number
+): Map<number, BeatAnalysis> {
+  const hits = new Set(hitTimes);
+  const analyses = new Map<number, BeatAnalysis>();
+  let state = createBeatDetectorState();
+  for (let time = 0; time <= durationMs; time += FRAME_MS) {
+    const spectrum = hits.has(time)
+      ? createSpectrum("bass", 230)
+      : createSpectrum(null, 0);
+    state = detectBeat(state, spectrum, time, BANDS, CONFIG);
+    analyses.set(time, state.analysis);
+  }
+  return analyses;
+}
+
+/**
+ * Gets the frame times at which an analysis flag is set.
+ */
+const getFlaggedTimes = (
+  analyses: Map<number, BeatAnalysis>,
+  isFlagged: (analysis: BeatAnalysis) => boolean
+) =>
+  [...analyses]
+    .filter(([, analysis]) => isFlagged(analysis))
+    .map(([time]) => time);
+
+/**
+ * Times of hits at a steady tempo.
+ */
+const getHitTimes = (intervalMs: number, count: number, offset = 0) =>
+  Array.from({ length: count }, (_, i) => offset + i * intervalMs);
+
+describe("computeSpectralFlux", () => {
+  it("is zero without a previous frame", () => {
+    const spectrum = createSpectrum("bass", 200);
+
+    expect(computeSpectralFlux(spectrum, null, 0, BIN_COUNT - 1)).toBe(0);
+  });
+
+  it("averages the rises and ignores the falls", () => {
+    const previous = Uint8Array.from([0, 255, 100, 100]);
+    const spectrum = Uint8Array.from([255, 0, 151, 100]);
+
+    expect(computeSpectralFlux(spectrum, previous, 0, 3)).toBeCloseTo(
+      (255 + 51) / (255 * 4)
+    );
+    expect(computeSpectralFlux(spectrum, previous, 1, 1)).toBe(0);
+  });
+});
+
+describe("detectBeat", () => {
+  it("finds an onset on every hit, in the band that was hit", () => {
+    const hitTimes = getHitTimes(500, 8, 200);
+
+    const analyses = detectHits(hitTimes, 4000);
+
+    expect(getFlaggedTimes(analyses, (a) => a.isOnset)).toEqual(hitTimes);
+    expect(getFlaggedTimes(analyses, (a) => a.onsets.bass)).toEqual(hitTimes);
+    expect(getFlaggedTimes(analyses, (a) => a.onsets.treble)).toEqual([]);
+    expect(analyses.get(200)!.flux).toBeGreaterThan(CONFIG.minFlux);
+  });
+
+  it("ignores flux below the minimum", () => {
+    let state = createBeatDetectorState();
+    for (let time = 0; time <= 2000; time += FRAME_MS) {
+      // The floor flickers by a single step
+      const spectrum = createSpectrum(null, 0).fill(
+        10 + ((time / FRAME_MS) % 2)
+      );
+      state = detectBeat(state, spectrum, time, BANDS, CONFIG);
+      expect(state.analysis.isOnset).toBe(false);
+    }
+  });
+
+  it("merges hits closer together than the minimum onset interval", () => {
+    // The second hit comes 40 ms after the first, after a silent frame
+    const analyses = detectHits([200, 240, 800], 1000);
+
+    expect(getFlaggedTimes(analyses, (a) => a.isOnset)).toEqual([200, 800]);
+  });
+
+  it("counts every onset as a beat until the tempo is known", () => {
+    const analyses = detectHits([200, 700, 1200], 1500);
+
+    expect(getFlaggedTimes(analyses, (a) => a.isBeat)).toEqual([
+      200, 700, 1200,
+    ]);
+    expect(analyses.get(1500)!.bpm).toBeNull();
+  });
+
+  it("estimates the tempo and predicts beats from it", () => {
+    const hitTimes = getHitTimes(500, 8, 200);
+
+    const analyses = detectHits(hitTimes, 5000);
+
+    expect(analyses.get(hitTimes[3])!.bpm).toBeCloseTo(120);
+    // Beats carry on at the tempo after the hits stop
+    expect(getFlaggedTimes(analyses, (a) => a.isBeat)).toEqual([
+      ...hitTimes,
+      4200,
+      4700,
+    ]);
+    expect(analyses.get(3700)!.beatPhase).toBe(0);
+    expect(analyses.get(3960)!.beatPhase).toBeCloseTo(0.52);
+  });
+});
+
+describe("estimateTempo", () => {
+  it("waits for enough onsets", () => {
+    expect(estimateTempo(getHitTimes(500, 3), CONFIG)).toBeNull();
+  });
+
+  it("finds the tempo of steady onsets", () => {
+    expect(estimateTempo(getHitTimes(500, 8), CONFIG)).toBeCloseTo(120);
+    expect(estimateTempo(getHitTimes(480, 8), CONFIG)).toBeCloseTo(125);
+  });
+
+  it("folds tempos outside the range by octaves", () => {
+    // 60 BPM is doubled and 240 BPM halved into 70-180 BPM
+    expect(estimateTempo(getHitTimes(1000, 6), CONFIG)).toBeCloseTo(120);
+    expect(estimateTempo(getHitTimes(250, 12), CONFIG)).toBeCloseTo(120);
+  });
+
+  it("settles on the beat when some beats have no onset", () => {
+    const onsets = [0, 500, 1000, 2000, 2500, 3500, 4000];
+
+    expect(estimateTempo(onsets, CONFIG)).toBeCloseTo(120);
+  });
+
+  it("tolerates onsets that land slightly off the beat", () => {
+    const onsets = [0, 508, 995, 1503, 2004, 2496, 3001, 3505];
+
+    expect(estimateTempo(onsets, CONFIG)).toBeCloseTo(120, 0);
+  });
+});
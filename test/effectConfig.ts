@@ -0,0 +1,27 @@
+import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { vi } from "vitest";
+import { loadEffectConfig } from "@/effect/config/loader";
+
+/** The effect config the site ships */
+const EFFECT_CONFIG_PATH = fileURLToPath(
+  new URL("../public/effect/config.json", import.meta.url)
+);
+
+/**
+ * Loads the shipped effect config, as the site does on startup, by serving
+ * public/effect/config.json to the loader's fetch. Later calls reuse the
+ * cached config.
+ */
+export async function loadShippedEffectConfig(): Promise<void> {
+  const config = readFileSync(EFFECT_CONFIG_PATH, "utf8");
+  const fetch = vi.fn(async () => new Response(config));
+
+  const previousFetch = globalThis.fetch;
+  globalThis.fetch = fetch;
+  try {
+    await loadEffectConfig();
+  } finally {
+    globalThis.fetch = previousFetch;
+  }
+}
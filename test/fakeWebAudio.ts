@@ -0,0 +1,789 @@
+/**
+ * In-memory fake of the parts of the Web Audio API the audio modules use, for
+ * exercising them outside a browser.
+ *
+ * - Nodes record their connections, so graph wiring can be inspected with
+ *   isConnected and isRoutedTo.
+ * - AudioParams keep their automation timeline and evaluate it at any time,
+ *   so fades and ramps can be checked by advancing the context clock.
+ * - AnalyserNodes return spectra and waveforms set by the caller, so synthetic
+ *   audio can be fed to AudioDataProvider and the meters.
+ * - Nothing makes sound and no time passes unless advanceTime is called.
+ *
+ * installFakeWebAudio swaps the fakes in for the browser globals. The fakes
+ * are structurally close to, but not typed as, the DOM interfaces; cast
+ * through unknown where a real type is expected. isConnected and isRoutedTo
+ * take either.
+ */
+
+/** Default sample rate of fake contexts */
+const FAKE_SAMPLE_RATE = 48000;
+
+/**
+ * A scheduled change on a FakeAudioParam's timeline.
+ */
+export type FakeAutomationEvent =
+  | { type: "set"; time: number; value: number }
+  | { type: "linear"; time: number; value: number }
+  | { type: "exponential"; time: number; value: number }
+  | { type: "target"; time: number; value: number; timeConstant: number }
+  | { type: "curve"; time: number; values: number[]; duration: number };
+
+/**
+ * Creates an error shaped like the DOMExceptions Web Audio throws.
+ */
+function createDomError(name: string, message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+/**
+ * AudioParam with a real automation timeline.
+ */
+export class FakeAudioParam {
+  readonly defaultValue: number;
+  readonly minValue: number;
+  readonly maxValue: number;
+  automationRate: "a-rate" | "k-rate" = "a-rate";
+
+  /** Scheduled events, in time order */
+  private timeline: FakeAutomationEvent[] = [];
+
+  /** Value before the first event */
+  private initialValue: number;
+
+  /** Nodes connected to this param (modulation inputs) */
+  readonly inputs: Set<FakeAudioNode> = new Set();
+
+  constructor(
+    private readonly context: FakeAudioContext,
+    defaultValue: number,
+    minValue: number = -3.4028234663852886e38,
+    maxValue: number = 3.4028234663852886e38
+  ) {
+    this.defaultValue = defaultValue;
+    this.initialValue = defaultValue;
+    this.minValue = minValue;
+    this.maxValue = maxValue;
+  }
+
+  /** Scheduled events, in time order */
+  get events(): readonly FakeAutomationEvent[] {
+    return this.timeline;
+  }
+
+  /** Value at the context's current time */
+  get value(): number {
+    return this.getValueAtTime(this.context.currentTime);
+  }
+
+  /** Assigning is equivalent to setValueAtTime(value, currentTime) */
+  set value(value: number) {
+    if (this.timeline.length === 0) {
+      this.initialValue = value;
+      return;
+    }
+    this.setValueAtTime(value, this.context.currentTime);
+  }
+
+  /**
+   * Evaluates the timeline.
+   *
+   * @param time - Context time
+   * @returns The param's value at that time
+   */
+  getValueAtTime(time: number): number {
+    let value = this.initialValue;
+    let previousTime = 0;
+
+    for (let i = 0; i < this.timeline.length; i++) {
+      const event = this.timeline[i];
+
+      if (event.time > time) {
+        // A ramp ending after `time` is part way through
+        if (event.type === "linear") {
+          const progress = (time - previousTime) / (event.time - previousTime);
+          return value + (event.value - value) * progress;
+        }
+        if (event.type === "exponential" && value !== 0) {
+          const progress = (time - previousTime) / (event.time - previousTime);
+          return value * Math.pow(event.value / value, progress);
+        }
+        return value;
+      }
+
+      switch (event.type) {
+        case "set":
+        case "linear":
+        case "exponential":
+          value = event.value;
+          previousTime = event.time;
+          break;
+        case "target": {
+          // Approaches the target until the next event (or `time`)
+          const nextTime = this.timeline[i + 1]?.time ?? Infinity;
+          const end = Math.min(time, nextTime);
+          value =
+            event.value +
+            (value - event.value) *
+              Math.exp(-(end - event.time) / event.timeConstant);
+          previousTime = end;
+          if (end === time) return value;
+          break;
+        }
+        case "curve": {
+          const end = event.time + event.duration;
+          if (time < end) {
+            const position =
+              ((time - event.time) / event.duration) *
+              (event.values.length - 1);
+            const index = Math.floor(position);
+            const next = Math.min(index + 1, event.values.length - 1);
+            return (
+              event.values[index] +
+              (event.values[next] - event.values[index]) * (position - index)
+            );
+          }
+          value = event.values[event.values.length - 1];
+          previousTime = end;
+          break;
+        }
+      }
+    }
+
+    return value;
+  }
+
+  private schedule(event: FakeAutomationEvent): this {
+    if (!Number.isFinite(event.time) || event.time < 0) {
+      throw new RangeError(`Invalid automation time: ${event.time}`);
+    }
+    // Events at the same time keep their insertion order
+    const index = this.timeline.findIndex((other) => other.time > event.time);
+    if (index === -1) {
+      this.timeline.push(event);
+    } else {
+      this.timeline.splice(index, 0, event);
+    }
+    return this;
+  }
+
+  setValueAtTime(value: number, startTime: number): this {
+    return this.schedule({ type: "set", time: startTime, value });
+  }
+
+  linearRampToValueAtTime(value: number, endTime: number): this {
+    return this.schedule({ type: "linear", time: endTime, value });
+  }
+
+  exponentialRampToValueAtTime(value: number, endTime: number): this {
+    if (value === 0) {
+      throw new RangeError("Exponential ramps cannot reach 0");
+    }
+    return this.schedule({ type: "exponential", time: endTime, value });
+  }
+
+  setTargetAtTime(target: number, startTime: number, timeConstant: number) {
+    return this.schedule({
+      type: "target",
+      time: startTime,
+      value: target,
+      timeConstant,
+    });
+  }
+
+  setValueCurveAtTime(
+    values: ArrayLike<number>,
+    startTime: number,
+    duration: number
+  ): this {
+    return this.schedule({
+      type: "curve",
+      time: startTime,
+      values: Array.from(values),
+      duration,
+    });
+  }
+
+  cancelScheduledValues(cancelTime: number): this {
+    this.timeline = this.timeline.filter((event) => event.time < cancelTime);
+    return this;
+  }
+
+  cancelAndHoldAtTime(cancelTime: number): this {
+    const held = this.getValueAtTime(cancelTime);
+    this.cancelScheduledValues(cancelTime);
+    // A curve still running at the cancel time is cut short too
+    this.timeline = this.timeline.filter(
+      (event) =>
+        event.type !== "curve" || event.time + event.duration <= cancelTime
+    );
+    return this.setValueAtTime(held, cancelTime);
+  }
+}
+
+/**
+ * Base of every fake node: records what it is connected to.
+ */
+export class FakeAudioNode {
+  /** Nodes and params this node outputs to */
+  readonly outputs: Set<FakeAudioNode | FakeAudioParam> = new Set();
+  /** Nodes feeding this node */
+  readonly inputs: Set<FakeAudioNode> = new Set();
+
+  channelCount = 2;
+  channelCountMode: ChannelCountMode = "max";
+  channelInterpretation: ChannelInterpretation = "speakers";
+
+  constructor(readonly context: FakeAudioContext) {}
+
+  connect<T extends FakeAudioNode | FakeAudioParam>(destination: T): T {
+    this.outputs.add(destination);
+    destination.inputs.add(this);
+    return destination;
+  }
+
+  disconnect(destination?: FakeAudioNode | FakeAudioParam): void {
+    const targets = destination ? [destination] : [...this.outputs];
+    targets.forEach((target) => {
+      this.outputs.delete(target);
+      target.inputs.delete(this);
+    });
+  }
+}
+
+export class FakeGainNode extends FakeAudioNode {
+  readonly gain = new FakeAudioParam(this.context, 1);
+}
+
+export class FakeStereoPannerNode extends FakeAudioNode {
+  readonly pan = new FakeAudioParam(this.context, 0, -1, 1);
+}
+
+export class FakeDelayNode extends FakeAudioNode {
+  readonly delayTime: FakeAudioParam;
+
+  constructor(context: FakeAudioContext, maxDelayTime: number = 1) {
+    super(context);
+    this.delayTime = new FakeAudioParam(context, 0, 0, maxDelayTime);
+  }
+}
+
+export class FakeBiquadFilterNode extends FakeAudioNode {
+  type: BiquadFilterType = "lowpass";
+  readonly frequency = new FakeAudioParam(this.context, 350, 0, 24000);
+  readonly Q = new FakeAudioParam(this.context, 1);
+  readonly gain = new FakeAudioParam(this.context, 0);
+  readonly detune = new FakeAudioParam(this.context, 0);
+}
+
+export class FakeDynamicsCompressorNode extends FakeAudioNode {
+  readonly threshold = new FakeAudioParam(this.context, -24, -100, 0);
+  readonly knee = new FakeAudioParam(this.context, 30, 0, 40);
+  readonly ratio = new FakeAudioParam(this.context, 12, 1, 20);
+  readonly attack = new FakeAudioParam(this.context, 0.003, 0, 1);
+  readonly release = new FakeAudioParam(this.context, 0.25, 0, 1);
+  /** Gain reduction in dB (negative); set it to simulate compression */
+  reduction = 0;
+}
+
+export class FakeConvolverNode extends FakeAudioNode {
+  buffer: FakeAudioBuffer | null = null;
+  normalize = true;
+}
+
+/**
+ * AnalyserNode returning data set by the caller.
+ */
+export class FakeAnalyserNode extends FakeAudioNode {
+  minDecibels = -100;
+  maxDecibels = -30;
+  smoothingTimeConstant = 0.8;
+
+  private size = 2048;
+
+  /** Byte spectrum (0-255 per bin) returned by getByteFrequencyData */
+  private spectrum = new Uint8Array(this.size / 2);
+
+  /** Samples (-1 to 1) returned by the time domain getters */
+  private waveform = new Float32Array(this.size);
+
+  get fftSize(): number {
+    return this.size;
+  }
+
+  set fftSize(size: number) {
+    if (size < 32 || size > 32768 || (size & (size - 1)) !== 0) {
+      throw createDomError(
+        "IndexSizeError",
+        `fftSize must be a power of two from 32 to 32768, got ${size}`
+      );
+    }
+    this.size = size;
+    this.spectrum = new Uint8Array(size / 2);
+    this.waveform = new Float32Array(size);
+  }
+
+  get frequencyBinCount(): number {
+    return this.size / 2;
+  }
+
+  /**
+   * Sets the spectrum the analyser reports.
+   *
+   * @param data - Byte level (0-255) of each bin, or a function of the bin
+   * index and bin count returning one; bins past the data are silent
+   */
+  setFrequencyData(
+    data: ArrayLike<number> | ((bin: number, binCount: number) => number)
+  ): void {
+    const binCount = this.frequencyBinCount;
+    for (let bin = 0; bin < binCount; bin++) {
+      const level =
+        typeof data === "function"
+          ? data(bin, binCount)
+          : bin < data.length
+            ? data[bin]
+            : 0;
+      this.spectrum[bin] = Math.max(0, Math.min(255, Math.round(level)));
+    }
+  }
+
+  /**
+   * Sets the waveform the analyser reports.
+   *
+   * @param samples - Samples (-1 to 1), or a function of the sample index
+   * returning one; samples past the data are silent
+   */
+  setTimeDomainData(
+    samples: ArrayLike<number> | ((index: number) => number)
+  ): void {
+    for (let i = 0; i < this.size; i++) {
+      this.waveform[i] =
+        typeof samples === "function"
+          ? samples(i)
+          : i < samples.length
+            ? samples[i]
+            : 0;
+    }
+  }
+
+  getByteFrequencyData(array: Uint8Array): void {
+    const count = Math.min(array.length, this.spectrum.length);
+    array.set(this.spectrum.subarray(0, count));
+  }
+
+  getFloatFrequencyData(array: Float32Array): void {
+    const range = this.maxDecibels - this.minDecibels;
+    const count = Math.min(array.length, this.spectrum.length);
+    for (let i = 0; i < count; i++) {
+      array[i] =
+        this.spectrum[i] === 0
+          ? -Infinity
+          : this.minDecibels + (this.spectrum[i] / 255) * range;
+    }
+  }
+
+  getByteTimeDomainData(array: Uint8Array): void {
+    const count = Math.min(array.length, this.waveform.length);
+    for (let i = 0; i < count; i++) {
+      array[i] = Math.max(
+        0,
+        Math.min(255, Math.round(128 + this.waveform[i] * 128))
+      );
+    }
+  }
+
+  getFloatTimeDomainData(array: Float32Array): void {
+    const count = Math.min(array.length, this.waveform.length);
+    array.set(this.waveform.subarray(0, count));
+  }
+}
+
+/**
+ * AudioBuffer backed by plain Float32Arrays.
+ */
+export class FakeAudioBuffer {
+  readonly numberOfChannels: number;
+  readonly length: number;
+  readonly sampleRate: number;
+  private readonly channels: Float32Array[];
+
+  constructor(options: {
+    numberOfChannels?: number;
+    length: number;
+    sampleRate: number;
+  }) {
+    this.numberOfChannels = options.numberOfChannels ?? 1;
+    this.length = options.length;
+    this.sampleRate = options.sampleRate;
+    this.channels = Array.from(
+      { length: this.numberOfChannels },
+      () => new Float32Array(options.length)
+    );
+  }
+
+  get duration(): number {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData(channel: number): Float32Array {
+    const data = this.channels[channel];
+    if (!data) {
+      throw createDomError("IndexSizeError", `No channel ${channel}`);
+    }
+    return data;
+  }
+
+  copyToChannel(source: Float32Array, channel: number, offset = 0): void {
+    this.getChannelData(channel).set(source, offset);
+  }
+
+  copyFromChannel(destination: Float32Array, channel: number, offset = 0) {
+    destination.set(
+      this.getChannelData(channel).subarray(offset, offset + destination.length)
+    );
+  }
+}
+
+/**
+ * AudioBufferSourceNode that records when and where it was started and stopped.
+ */
+export class FakeAudioBufferSourceNode extends FakeAudioNode {
+  buffer: FakeAudioBuffer | null = null;
+  loop = false;
+  loopStart = 0;
+  loopEnd = 0;
+  readonly playbackRate = new FakeAudioParam(this.context, 1);
+  readonly detune = new FakeAudioParam(this.context, 0);
+  onended: (() => void) | null = null;
+
+  /** Context time start was scheduled for, or null if not started */
+  startTime: number | null = null;
+  /** Buffer offset start was called with */
+  startOffset = 0;
+  /** Context time stop was scheduled for, or null if not stopped */
+  stopTime: number | null = null;
+
+  start(when = 0, offset = 0): void {
+    if (this.startTime !== null) {
+      throw createDomError(
+        "InvalidStateError",
+        "start() can only be called once"
+      );
+    }
+    this.startTime = Math.max(when, this.context.currentTime);
+    this.startOffset = offset;
+  }
+
+  stop(when = 0): void {
+    if (this.startTime === null) {
+      throw createDomError("InvalidStateError", "stop() called before start()");
+    }
+    this.stopTime = Math.max(when, this.context.currentTime);
+  }
+
+  /**
+   * Whether the source is playing at a context time.
+   *
+   * @param time - Context time (default: now)
+   */
+  isPlayingAt(time: number = this.context.currentTime): boolean {
+    return (
+      this.startTime !== null &&
+      time >= this.startTime &&
+      (this.stopTime === null || time < this.stopTime)
+    );
+  }
+}
+
+/**
+ * The destination every context renders to.
+ */
+export class FakeAudioDestinationNode extends FakeAudioNode {
+  readonly maxChannelCount = 2;
+}
+
+/**
+ * Options for fake contexts.
+ */
+export interface FakeAudioContextOptions {
+  /** Sample rate (default: 48000) */
+  sampleRate?: number;
+  /**
+   * Starting state (default: "running"). Use "suspended" to simulate a
+   * browser blocking audio until a user gesture.
+   */
+  state?: AudioContextState;
+}
+
+/**
+ * Decodes audio for FakeAudioContext.decodeAudioData. The default returns one
+ * second of silence per call; replace it to return specific buffers or to
+ * fail.
+ */
+export type FakeAudioDecoder = (
+  data: ArrayBuffer,
+  context: FakeAudioContext
+) => FakeAudioBuffer | Promise<FakeAudioBuffer>;
+
+/**
+ * AudioContext whose clock only moves when advanceTime is called.
+ */
+export class FakeAudioContext extends EventTarget {
+  /** Decoder used by every fake context */
+  static decoder: FakeAudioDecoder = (_data, context) =>
+    new FakeAudioBuffer({
+      numberOfChannels: 2,
+      length: context.sampleRate,
+      sampleRate: context.sampleRate,
+    });
+
+  readonly sampleRate: number;
+  readonly destination: FakeAudioDestinationNode;
+  readonly baseLatency = 0;
+  readonly outputLatency = 0;
+  onstatechange: ((event: Event) => void) | null = null;
+
+  /** Every node created by this context, in creation order */
+  readonly createdNodes: FakeAudioNode[] = [];
+
+  private time = 0;
+  private contextState: AudioContextState;
+
+  constructor(options: FakeAudioContextOptions = {}) {
+    super();
+    this.sampleRate = options.sampleRate ?? FAKE_SAMPLE_RATE;
+    this.contextState = options.state ?? "running";
+    this.destination = new FakeAudioDestinationNode(this);
+  }
+
+  get currentTime(): number {
+    return this.time;
+  }
+
+  get state(): AudioContextState {
+    return this.contextState;
+  }
+
+  /**
+   * Moves the clock forward.
+   *
+   * @param seconds - Time to advance by
+   */
+  advanceTime(seconds: number): void {
+    if (this.contextState === "running") {
+      this.time += seconds;
+    }
+  }
+
+  /**
+   * Changes the state and fires statechange, as the browser would when it
+   * suspends or interrupts audio on its own.
+   *
+   * @param state - New state (e.g., "interrupted" on iOS)
+   */
+  simulateStateChange(state: AudioContextState | "interrupted"): void {
+    if (this.contextState === state) return;
+    this.contextState = state as AudioContextState;
+    const event = new Event("statechange");
+    this.dispatchEvent(event);
+    this.onstatechange?.(event);
+  }
+
+  async resume(): Promise<void> {
+    if (this.contextState === "closed") {
+      throw createDomError("InvalidStateError", "The context is closed");
+    }
+    this.simulateStateChange("running");
+  }
+
+  async suspend(): Promise<void> {
+    if (this.contextState === "closed") {
+      throw createDomError("InvalidStateError", "The context is closed");
+    }
+    this.simulateStateChange("suspended");
+  }
+
+  async close(): Promise<void> {
+    this.simulateStateChange("closed");
+  }
+
+  private track<T extends FakeAudioNode>(node: T): T {
+    this.createdNodes.push(node);
+    return node;
+  }
+
+  createGain(): FakeGainNode {
+    return this.track(new FakeGainNode(this));
+  }
+
+  createStereoPanner(): FakeStereoPannerNode {
+    return this.track(new FakeStereoPannerNode(this));
+  }
+
+  createDelay(maxDelayTime?: number): FakeDelayNode {
+    return this.track(new FakeDelayNode(this, maxDelayTime));
+  }
+
+  createBiquadFilter(): FakeBiquadFilterNode {
+    return this.track(new FakeBiquadFilterNode(this));
+  }
+
+  createDynamicsCompressor(): FakeDynamicsCompressorNode {
+    return this.track(new FakeDynamicsCompressorNode(this));
+  }
+
+  createConvolver(): FakeConvolverNode {
+    return this.track(new FakeConvolverNode(this));
+  }
+
+  createAnalyser(): FakeAnalyserNode {
+    return this.track(new FakeAnalyserNode(this));
+  }
+
+  createBufferSource(): FakeAudioBufferSourceNode {
+    return this.track(new FakeAudioBufferSourceNode(this));
+  }
+
+  createBuffer(
+    numberOfChannels: number,
+    length: number,
+    sampleRate: number
+  ): FakeAudioBuffer {
+    return new FakeAudioBuffer({ numberOfChannels, length, sampleRate });
+  }
+
+  decodeAudioData(
+    data: ArrayBuffer,
+    successCallback?: (buffer: FakeAudioBuffer) => void,
+    errorCallback?: (error: Error) => void
+  ): Promise<FakeAudioBuffer> {
+    const decoded = Promise.resolve().then(() =>
+      FakeAudioContext.decoder(data, this)
+    );
+    decoded.then(successCallback, errorCallback);
+    return decoded;
+  }
+
+  /**
+   * Finds created nodes of a type.
+   *
+   * @param type - Fake node class, e.g. FakeAnalyserNode
+   */
+  getNodesOfType<T extends FakeAudioNode>(
+    type: new (...args: never[]) => T
+  ): T[] {
+    return this.createdNodes.filter((node): node is T => node instanceof type);
+  }
+}
+
+/**
+ * OfflineAudioContext that "renders" silence of the requested length.
+ */
+export class FakeOfflineAudioContext extends FakeAudioContext {
+  readonly length: number;
+  readonly numberOfChannels: number;
+
+  constructor(numberOfChannels: number, length: number, sampleRate: number) {
+    super({ sampleRate, state: "suspended" });
+    this.numberOfChannels = numberOfChannels;
+    this.length = length;
+  }
+
+  async suspend(): Promise<void> {
+    // Offline suspends resolve as rendering passes the given time
+  }
+
+  async startRendering(): Promise<FakeAudioBuffer> {
+    this.simulateStateChange("running");
+    this.advanceTime(this.length / this.sampleRate);
+    this.simulateStateChange("closed");
+    return new FakeAudioBuffer({
+      numberOfChannels: this.numberOfChannels,
+      length: this.length,
+      sampleRate: this.sampleRate,
+    });
+  }
+}
+
+/**
+ * A node or param of a fake context, typed either as the fake or as the DOM
+ * interface the code under test sees.
+ */
+type AnyNode = FakeAudioNode | AudioNode;
+type AnyNodeOrParam = AnyNode | FakeAudioParam | AudioParam;
+
+/**
+ * Whether a node outputs directly to a node or param.
+ */
+export function isConnected(
+  source: AnyNode,
+  destination: AnyNodeOrParam
+): boolean {
+  return (source as FakeAudioNode).outputs.has(
+    destination as FakeAudioNode | FakeAudioParam
+  );
+}
+
+/**
+ * Whether audio from a node reaches a node or param through any path.
+ */
+export function isRoutedTo(
+  source: AnyNode,
+  destination: AnyNodeOrParam
+): boolean {
+  const visited = new Set<FakeAudioNode | FakeAudioParam>();
+  const pending: (FakeAudioNode | FakeAudioParam)[] = [source as FakeAudioNode];
+
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    if (current === destination && current !== source) return true;
+    if (visited.has(current) || !(current instanceof FakeAudioNode)) continue;
+    visited.add(current);
+    pending.push(...current.outputs);
+  }
+  return false;
+}
+
+/**
+ * Globals installFakeWebAudio replaces.
+ */
+const FAKE_GLOBALS = {
+  AudioContext: FakeAudioContext,
+  OfflineAudioContext: FakeOfflineAudioContext,
+  AudioBuffer: FakeAudioBuffer,
+} as const;
+
+/**
+ * Replaces the Web Audio globals with the fakes. Outside a browser, `window`
+ * is also pointed at the global object, since audio.ts refuses to create a
+ * context during server rendering.
+ *
+ * @returns Function restoring the previous globals
+ */
+export function installFakeWebAudio(): () => void {
+  const target = globalThis as Record<string, unknown>;
+  const previous = new Map<string, unknown>();
+
+  const replace = (name: string, value: unknown) => {
+    previous.set(name, target[name]);
+    target[name] = value;
+  };
+
+  Object.entries(FAKE_GLOBALS).forEach(([name, value]) => replace(name, value));
+  if (typeof target.window === "undefined") {
+    replace("window", globalThis);
+  }
+
+  return () => {
+    previous.forEach((value, name) => {
+      if (value === undefined) {
+        delete target[name];
+      } else {
+        target[name] = value;
+      }
+    });
+  };
+}